@@ -1,15 +1,25 @@
 // Twelve Data API Configuration
 // Free tier: 8 API credits/minute, 800/day
 // Sign up at: https://twelvedata.com/
+// Override with TWELVEDATA_API_URL, e.g. for a proxy or a local stand-in.
 export const TWELVEDATA_API_URL = "https://api.twelvedata.com";
 
 // Character limit for responses
 export const CHARACTER_LIMIT = 50000;
 
+// How long full results stay available to page through with a cursor
+export const DEFAULT_CURSOR_TTL_SECONDS = 600;
+export const MAX_STORED_CURSORS = 50;
+
+// Default and maximum page size for reference-data lists
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 1000;
+
 // Response formats
 export enum ResponseFormat {
   JSON = "json",
-  MARKDOWN = "markdown"
+  MARKDOWN = "markdown",
+  CSV = "csv"
 }
 
 // Supported intervals for time series
@@ -21,13 +31,21 @@ export const SUPPORTED_INTERVALS = [
 
 export type Interval = typeof SUPPORTED_INTERVALS[number];
 
+// Technical indicators available through the API and the local engine
+export const SUPPORTED_INDICATORS = [
+  "sma", "ema", "wma", "rsi", "macd", "bbands", "stoch",
+  "adx", "atr", "cci", "obv", "mom", "roc", "willr"
+] as const;
+
+export type IndicatorName = typeof SUPPORTED_INDICATORS[number];
+
 // Popular trading symbols for reference
 export const POPULAR_SYMBOLS = {
   // Precious Metals
-  XAUUSD: "Gold Spot / US Dollar",
-  XAGUSD: "Silver Spot / US Dollar",
-  XPTUSD: "Platinum Spot / US Dollar",
-  XPDUSD: "Palladium Spot / US Dollar",
+  "XAU/USD": "Gold Spot / US Dollar",
+  "XAG/USD": "Silver Spot / US Dollar",
+  "XPT/USD": "Platinum Spot / US Dollar",
+  "XPD/USD": "Palladium Spot / US Dollar",
   
   // Major Forex Pairs
   "EUR/USD": "Euro / US Dollar",
@@ -42,3 +60,170 @@ export const POPULAR_SYMBOLS = {
   "BTC/USD": "Bitcoin / US Dollar",
   "ETH/USD": "Ethereum / US Dollar",
 } as const;
+
+// Common names users type instead of symbols (matched case-insensitively)
+export const SYMBOL_NAME_ALIASES: Record<string, string> = {
+  gold: "XAU/USD",
+  silver: "XAG/USD",
+  platinum: "XPT/USD",
+  palladium: "XPD/USD",
+  bitcoin: "BTC/USD",
+  btc: "BTC/USD",
+  ethereum: "ETH/USD",
+  ether: "ETH/USD",
+  eth: "ETH/USD",
+  euro: "EUR/USD",
+  fiber: "EUR/USD",
+  cable: "GBP/USD",
+  sterling: "GBP/USD",
+  pound: "GBP/USD",
+  yen: "USD/JPY",
+  swissy: "USD/CHF",
+  aussie: "AUD/USD",
+  loonie: "USD/CAD",
+  kiwi: "NZD/USD"
+};
+
+// Currency codes used to split slashless pairs like EURUSD or BTCUSDT
+export const CURRENCY_CODES: ReadonlySet<string> = new Set([
+  // Fiat
+  "USD", "EUR", "GBP", "JPY", "CHF", "AUD", "CAD", "NZD", "SGD", "HKD",
+  "CNY", "CNH", "SEK", "NOK", "DKK", "PLN", "CZK", "HUF", "TRY", "ZAR",
+  "MXN", "BRL", "INR", "KRW", "TWD", "THB", "MYR", "IDR", "PHP", "ILS",
+  "AED", "SAR", "RUB",
+  // Metals
+  "XAU", "XAG", "XPT", "XPD",
+  // Crypto
+  "BTC", "ETH", "XRP", "LTC", "SOL", "ADA", "DOGE", "BNB", "DOT", "USDT", "USDC"
+]);
+
+// Response cache defaults (seconds). Override with TWELVEDATA_CACHE_TTL_<CATEGORY>.
+export const CACHE_DEFAULT_TTL_SECONDS: Record<string, number> = {
+  price: 15,
+  quote: 30,
+  time_series: 60,
+  exchange_rate: 15,
+  currency_conversion: 15,
+  forex_pairs: 86400,
+  symbol_search: 86400,
+  cryptocurrencies: 86400,
+  stocks: 86400,
+  etfs: 86400,
+  commodities: 86400,
+  indicator: 60
+};
+
+// Time series TTL per interval (seconds). Override with
+// TWELVEDATA_CACHE_TTL_TIME_SERIES_<INTERVAL>, e.g. TWELVEDATA_CACHE_TTL_TIME_SERIES_1H.
+export const CACHE_TIME_SERIES_TTL_SECONDS: Record<string, number> = {
+  "1min": 30,
+  "5min": 60,
+  "15min": 120,
+  "30min": 300,
+  "45min": 300,
+  "1h": 300,
+  "2h": 600,
+  "4h": 900,
+  "8h": 1800,
+  "1day": 3600,
+  "1week": 21600,
+  "1month": 43200
+};
+
+export const CACHE_DEFAULT_MAX_ENTRIES = 500;
+
+// Free plan credit budget. Override with TWELVEDATA_CREDITS_PER_MINUTE / TWELVEDATA_CREDITS_PER_DAY.
+export const DEFAULT_CREDITS_PER_MINUTE = 8;
+export const DEFAULT_CREDITS_PER_DAY = 800;
+
+// Longest a queued request waits for minute credits before it is rejected
+export const DEFAULT_RATE_LIMIT_MAX_WAIT_MS = 65000;
+
+// API credits charged per symbol, by endpoint (anything not listed costs 1)
+export const ENDPOINT_CREDIT_COSTS: Record<string, number> = {
+  price: 1,
+  quote: 1,
+  time_series: 1,
+  exchange_rate: 1,
+  currency_conversion: 1,
+  forex_pairs: 1,
+  symbol_search: 1,
+  cryptocurrencies: 1,
+  stocks: 1,
+  etfs: 1,
+  commodities: 1
+};
+
+// Retry policy for transient failures (rate limits, network errors, 5xx).
+// Override with TWELVEDATA_MAX_RETRIES / TWELVEDATA_RETRY_BASE_DELAY_MS / TWELVEDATA_RETRY_MAX_DELAY_MS.
+export const DEFAULT_MAX_RETRIES = 3;
+export const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+export const DEFAULT_RETRY_MAX_DELAY_MS = 30000;
+
+// Bars per year used to annualize volatility. Intraday figures assume a
+// 24-hour market (forex, metals, crypto) trading 252 days a year.
+export const PERIODS_PER_YEAR: Record<string, number> = {
+  "1min": 252 * 24 * 60,
+  "5min": 252 * 24 * 12,
+  "15min": 252 * 24 * 4,
+  "30min": 252 * 24 * 2,
+  "45min": (252 * 24 * 4) / 3,
+  "1h": 252 * 24,
+  "2h": 252 * 12,
+  "4h": 252 * 6,
+  "8h": 252 * 3,
+  "1day": 252,
+  "1week": 52,
+  "1month": 12
+};
+
+// Twelve Data real-time price WebSocket (Pro plans and above).
+// Override with TWELVEDATA_WS_URL, e.g. to point at a local mock server.
+export const TWELVEDATA_WS_URL = "wss://ws.twelvedata.com/v1/quotes/price";
+
+// Streaming connection upkeep. Twelve Data expects a heartbeat every 10
+// seconds; a connection silent for two intervals is treated as dead.
+export const STREAM_HEARTBEAT_INTERVAL_MS = 10000;
+export const STREAM_RECONNECT_BASE_DELAY_MS = 1000;
+export const STREAM_RECONNECT_MAX_DELAY_MS = 30000;
+
+// Minimum gap between resource update notifications for one symbol
+export const STREAM_NOTIFY_MIN_INTERVAL_MS = 1000;
+
+// Synthetic tick interval when streaming in replay or mock mode
+export const STREAM_OFFLINE_TICK_MS = 2000;
+
+// Alert poller. Override the interval with TWELVEDATA_ALERT_POLL_SECONDS.
+// A poll is skipped unless it leaves this many credits for interactive calls.
+export const DEFAULT_ALERT_POLL_SECONDS = 60;
+export const ALERT_CREDIT_RESERVE = 2;
+export const MAX_ALERTS = 100;
+
+// Watchlists. The default list is created from POPULAR_SYMBOLS on first use.
+export const MAX_WATCHLISTS = 50;
+export const MAX_WATCHLIST_SYMBOLS = 120;
+export const DEFAULT_WATCHLIST_NAME = "popular";
+
+// Most bars Twelve Data returns for one time series request
+export const MAX_TIME_SERIES_OUTPUTSIZE = 5000;
+
+// Backfill requests per call (each costs one credit)
+export const DEFAULT_BACKFILL_MAX_REQUESTS = 50;
+export const MAX_BACKFILL_REQUESTS = 500;
+
+// Requests get_time_series may spend filling gaps in the candle store
+export const MAX_STORE_GAP_REQUESTS = 10;
+
+// HTTP sessions idle longer than this are closed. Override with
+// TWELVEDATA_SESSION_IDLE_SECONDS.
+export const DEFAULT_SESSION_IDLE_SECONDS = 1800;
+export const SESSION_SWEEP_INTERVAL_MS = 60000;
+
+// Readiness probe of the Twelve Data API; the result is reused for a while
+// so frequent health checks don't hammer the upstream
+export const READINESS_TIMEOUT_MS = 5000;
+export const READINESS_CACHE_MS = 30000;
+
+// Twelve Data error codes that send a request to the fallback providers.
+// Override with TWELVEDATA_FAILOVER_ON.
+export const DEFAULT_FAILOVER_ERRORS = ["plan_restricted", "rate_limited"];
@@ -1,53 +1,554 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  McpServer,
+  ResourceTemplate,
+  type ReadResourceCallback,
+  type ReadResourceTemplateCallback,
+  type ResourceMetadata,
+  type ToolCallback
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AnySchema, ZodRawShapeCompat } from "@modelcontextprotocol/sdk/server/zod-compat.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import {
+  type CallToolResult,
+  type ToolAnnotations,
+  isInitializeRequest,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  McpError,
+  ErrorCode
+} from "@modelcontextprotocol/sdk/types.js";
 import express from "express";
+import type { Request, RequestHandler, Response } from "express";
 import cors from "cors";
+import { randomUUID } from "node:crypto";
 
-import { ResponseFormat } from "./constants.js";
+import {
+  ResponseFormat,
+  STREAM_NOTIFY_MIN_INTERVAL_MS,
+  DEFAULT_BACKFILL_MAX_REQUESTS,
+  MAX_BACKFILL_REQUESTS,
+  MAX_STORE_GAP_REQUESTS,
+  DEFAULT_SESSION_IDLE_SECONDS,
+  SESSION_SWEEP_INTERVAL_MS
+} from "./constants.js";
 import {
   GetPriceSchema,
   GetQuoteSchema,
+  GetPricesSchema,
+  GetQuotesSchema,
   GetTimeSeriesSchema,
+  BackfillTimeSeriesSchema,
+  CandleStoreCoverageSchema,
+  PurgeCandleStoreSchema,
+  AnalyzeSeriesSchema,
   ConvertCurrencySchema,
   GetExchangeRateSchema,
   ListCommoditiesSchema,
+  ListForexPairsSchema,
+  ListCryptocurrenciesSchema,
+  ListStocksSchema,
+  ListEtfsSchema,
+  SymbolSearchSchema,
   GetTechnicalIndicatorSchema,
+  TechnicalSnapshotSchema,
+  StreamSubscribeSchema,
+  StreamUnsubscribeSchema,
+  GetLivePricesSchema,
+  CreateAlertSchema,
+  ListAlertsSchema,
+  DeleteAlertSchema,
+  SaveWatchlistSchema,
+  ListWatchlistsSchema,
+  DeleteWatchlistSchema,
+  WatchlistQuotesSchema,
+  ValuePortfolioSchema,
+  CorrelationMatrixSchema,
+  GetUsageSchema,
   type GetPriceInput,
   type GetQuoteInput,
+  type GetPricesInput,
+  type GetQuotesInput,
   type GetTimeSeriesInput,
+  type BackfillTimeSeriesInput,
+  type CandleStoreCoverageInput,
+  type PurgeCandleStoreInput,
+  type AnalyzeSeriesInput,
   type ConvertCurrencyInput,
   type GetExchangeRateInput,
   type ListCommoditiesInput,
-  type GetTechnicalIndicatorInput
+  type ListForexPairsInput,
+  type ListCryptocurrenciesInput,
+  type ListStocksInput,
+  type ListEtfsInput,
+  type SymbolSearchInput,
+  type GetTechnicalIndicatorInput,
+  type TechnicalSnapshotInput,
+  type StreamSubscribeInput,
+  type StreamUnsubscribeInput,
+  type GetLivePricesInput,
+  type CreateAlertInput,
+  type ListAlertsInput,
+  type DeleteAlertInput,
+  type SaveWatchlistInput,
+  type ListWatchlistsInput,
+  type DeleteWatchlistInput,
+  type WatchlistQuotesInput,
+  type ValuePortfolioInput,
+  type CorrelationMatrixInput,
+  type GetUsageInput
 } from "./schemas/twelvedata.js";
 import {
   getPrice,
   getQuote,
+  getPrices,
+  getQuotes,
   getTimeSeries,
   convertCurrency,
   getExchangeRate,
   getCommodities,
-  getTechnicalIndicator,
+  getForexPairs,
+  getCryptocurrencies,
+  getStocks,
+  getEtfs,
+  searchSymbols,
   formatPriceAsMarkdown,
   formatQuoteAsMarkdown,
+  formatPricesAsMarkdown,
+  formatQuotesAsMarkdown,
   formatTimeSeriesAsMarkdown,
+  formatAnalyticsAsMarkdown,
   formatConversionAsMarkdown,
   formatCommoditiesAsMarkdown,
-  formatIndicatorAsMarkdown
+  formatForexPairsAsMarkdown,
+  formatCryptocurrenciesAsMarkdown,
+  formatStocksAsMarkdown,
+  formatEtfsAsMarkdown,
+  formatSymbolSearchAsMarkdown,
+  formatAmbiguousSymbolAsMarkdown,
+  formatResolutionNote,
+  formatIndicatorAsMarkdown,
+  formatIndicatorSourceNote,
+  formatSnapshotAsMarkdown,
+  formatCacheNote,
+  formatPageNote,
+  formatBackfillNote,
+  formatCandleCoverageAsMarkdown,
+  formatRowsAsCsv,
+  formatUsageAsMarkdown,
+  formatLivePricesAsMarkdown,
+  formatAlertCondition,
+  formatAlertsAsMarkdown,
+  formatWatchlistsAsMarkdown,
+  formatWatchlistQuotesAsMarkdown,
+  formatPortfolioAsMarkdown,
+  formatCorrelationAsMarkdown
 } from "./services/twelvedata.js";
+import { getUsage } from "./services/rateLimiter.js";
+import { PlanRestrictedError, BadRequestError, toErrorPayload } from "./services/errors.js";
+import {
+  paginate,
+  fitPage,
+  pageWithCursor,
+  loadCursor,
+  type Page
+} from "./services/pagination.js";
+import { resolveSymbol, fetchResolvedBatch } from "./services/symbols.js";
+import { analyzeSeries } from "./services/analytics.js";
+import {
+  getIndicator,
+  parseIndicatorParams,
+  type IndicatorResult
+} from "./services/indicators.js";
+import { getTechnicalSnapshot } from "./services/snapshot.js";
+import {
+  subscribePrices,
+  unsubscribePrices,
+  releasePrices,
+  getSessionSymbols,
+  isStreaming,
+  getLivePrice,
+  listLivePrices,
+  onPriceUpdate,
+  getStreamStatus
+} from "./services/stream.js";
+import {
+  createAlert,
+  listAlerts,
+  deleteAlert,
+  onAlertTriggered,
+  getAlertPollerStatus,
+  startAlertPoller
+} from "./services/alerts.js";
+import {
+  listWatchlists,
+  getWatchlist,
+  saveWatchlist,
+  deleteWatchlist,
+  sortQuoteItems
+} from "./services/watchlists.js";
+import { valuePortfolio } from "./services/portfolio.js";
+import { getCorrelationMatrix } from "./services/correlation.js";
+import { isNativeInterval, getResampledTimeSeries } from "./services/resample.js";
+import { writeExport, listExports, readExport, joinByDatetime } from "./services/exports.js";
+import { backfillTimeSeries, fetchCandleRange } from "./services/backfill.js";
+import { isCandleStoreEnabled, getStoreCoverage, purgeCandleStore } from "./services/candleStore.js";
+import {
+  getHttpClients,
+  authenticateClient,
+  runAsClient,
+  getCorsOrigins,
+  getRequestClient,
+  getClientScope,
+  findHttpClient,
+  type HttpClient
+} from "./services/clients.js";
+import { log, runWithRequestId } from "./services/logger.js";
+import { recordToolCall, registerGauge, renderMetrics } from "./services/metrics.js";
+import { checkReadiness } from "./services/health.js";
+import { getClientMode, getFixturesDir } from "./services/fixtures.js";
+import { getPrimaryProvider, getFallbackProviders, getFailoverErrors } from "./services/providers.js";
+import type {
+  ApiResult,
+  CacheInfo,
+  PageInfo,
+  SymbolResolution,
+  BatchItem,
+  SymbolSearchResult,
+  TimeSeriesResponse,
+  BackfillResponse,
+  ExportFile
+} from "./types.js";
 
-// Initialize MCP Server
-const server = new McpServer({
-  name: "twelvedata-mcp-server",
-  version: "1.0.0"
-});
+/**
+ * Build an error tool result. structuredContent carries a machine-readable
+ * code (rate_limited, invalid_symbol, plan_restricted, ...) and whether
+ * retrying later can help.
+ */
+function errorResult(error: unknown, note?: string) {
+  const payload = toErrorPayload(error);
+  const text = note ? `Error: ${payload.message}. ${note}` : `Error: ${payload.message}`;
+  return {
+    isError: true,
+    content: [{ type: "text" as const, text }],
+    structuredContent: { error: payload }
+  };
+}
+
+/**
+ * Result for input that matches several instruments: not an error, the
+ * candidates let the model pick the symbol it meant
+ */
+function ambiguousSymbolResult(resolution: SymbolResolution) {
+  const output = {
+    ambiguous: true,
+    input: resolution.input,
+    candidates: resolution.candidates ?? []
+  };
+  return {
+    content: [{ type: "text" as const, text: formatAmbiguousSymbolAsMarkdown(resolution) }],
+    structuredContent: output
+  };
+}
+
+/**
+ * Fields added to JSON output when the symbol was rewritten by the resolver
+ */
+function resolutionFields(resolution: SymbolResolution) {
+  return resolution.symbol !== resolution.input ? { resolved_from: resolution.input } : {};
+}
+
+/**
+ * Build a paged reference-data list result that fits within CHARACTER_LIMIT
+ */
+function listResult<T>(
+  items: T[],
+  params: { limit: number; offset: number; response_format: ResponseFormat },
+  cache: CacheInfo,
+  formatMarkdown: (items: T[], page: PageInfo) => string
+) {
+  const page = paginate(items, params.offset, params.limit);
+
+  if (params.response_format === ResponseFormat.JSON) {
+    const fitted = fitPage(page, p =>
+      JSON.stringify({ data: p.items, page: p.page, cache }, null, 2)
+    );
+    return {
+      content: [{ type: "text" as const, text: fitted.text }],
+      structuredContent: { data: fitted.page.items, page: fitted.page.page, cache }
+    };
+  }
+
+  const fitted = fitPage(page, p =>
+    `${formatMarkdown(p.items, p.page)}\n\n${formatCacheNote(cache)}`
+  );
+  return { content: [{ type: "text" as const, text: fitted.text }] };
+}
+
+/**
+ * Build a batch result that fits within CHARACTER_LIMIT. Symbols that don't
+ * fit are dropped from the end and reported through the page info.
+ */
+function batchResult<T>(
+  items: BatchItem<T>[],
+  responseFormat: ResponseFormat,
+  toJson: (item: BatchItem<T>) => Record<string, unknown>,
+  formatMarkdown: (items: BatchItem<T>[]) => string
+) {
+  const page = paginate(items, 0, items.length);
+
+  if (responseFormat === ResponseFormat.JSON) {
+    const toOutput = (p: Page<BatchItem<T>>) => ({
+      count: p.items.length,
+      failed: p.items.filter(item => item.error).length,
+      page: p.page,
+      results: p.items.map(toJson)
+    });
+    const fitted = fitPage(page, p => JSON.stringify(toOutput(p), null, 2));
+    return {
+      content: [{ type: "text" as const, text: fitted.text }],
+      structuredContent: toOutput(fitted.page)
+    };
+  }
+
+  const fitted = fitPage(page, p => {
+    const markdown = formatMarkdown(p.items);
+    return p.page.truncated
+      ? `${markdown}\n\n*Showing ${p.page.count} of ${p.page.total} symbols (response size limit). Request the rest in another call.*`
+      : markdown;
+  });
+  return { content: [{ type: "text" as const, text: fitted.text }] };
+}
+
+/**
+ * Page the rows of a time series or indicator result within CHARACTER_LIMIT.
+ * Rows that don't fit stay available under a cursor, so the next page is
+ * served without another upstream request.
+ */
+function seriesResult<T extends { values: unknown[] }>(
+  result: ApiResult<T>,
+  params: { offset: number; response_format: ResponseFormat },
+  cursor: string | undefined,
+  formatMarkdown: (data: T, page: PageInfo) => string,
+  extra: Record<string, unknown> = {}
+) {
+  const { data, cache } = result;
+  const pageData = (page: Page<unknown>) => ({ ...data, values: page.items }) as T;
+  const stored = { data: result, cursor };
+
+  if (params.response_format === ResponseFormat.JSON) {
+    const toOutput = (page: Page<unknown>) =>
+      ({ ...pageData(page), page: page.page, cache, ...extra });
+    const { page, text } = pageWithCursor(
+      data.values,
+      params.offset,
+      p => JSON.stringify(toOutput(p), null, 2),
+      stored
+    );
+    return {
+      content: [{ type: "text" as const, text }],
+      structuredContent: toOutput(page)
+    };
+  }
+
+  if (params.response_format === ResponseFormat.CSV) {
+    // CSV stays parseable on its own; paging and cache notes go in a second block
+    const note = (page: Page<unknown>) => `${formatPageNote(page.page)}\n\n${formatCacheNote(cache)}`;
+    const toCsv = (page: Page<unknown>) => formatRowsAsCsv(page.items as Record<string, unknown>[]);
+    const { page } = pageWithCursor(
+      data.values,
+      params.offset,
+      p => `${toCsv(p)}\n\n${note(p)}`,
+      stored
+    );
+    return {
+      content: [
+        { type: "text" as const, text: toCsv(page) },
+        { type: "text" as const, text: note(page) }
+      ]
+    };
+  }
+
+  const { text } = pageWithCursor(
+    data.values,
+    params.offset,
+    p => `${formatMarkdown(pageData(p), p.page)}\n\n${formatCacheNote(cache)}`,
+    stored
+  );
+  return { content: [{ type: "text" as const, text }] };
+}
+
+const EXPORT_RESOURCE_PREFIX = "twelvedata://exports/";
+
+/**
+ * Result for a dataset written to the export directory: a resource link to
+ * read it through MCP. The path on disk stays on the server.
+ */
+function exportResult(file: ExportFile, extra: Record<string, unknown> = {}, note?: string) {
+  const uri = `${EXPORT_RESOURCE_PREFIX}${file.name}`;
+  const output = { export: { ...file, uri }, ...extra };
+  return {
+    content: [
+      {
+        type: "resource_link" as const,
+        uri,
+        name: file.name,
+        mimeType: file.mime_type,
+        description: `${file.rows} rows: ${file.columns.join(", ")}`
+      },
+      {
+        type: "text" as const,
+        text: [
+          `Exported ${file.rows} rows (${file.columns.join(", ")}) as ${file.name}. Read it through the resource ${uri}.`,
+          note
+        ].filter(Boolean).join("\n\n")
+      }
+    ],
+    structuredContent: output
+  };
+}
+
+type ToolHandler = (...args: never[]) => CallToolResult | Promise<CallToolResult>;
+
+/**
+ * Run every call of a tool under a new request ID, log its outcome and
+ * record it in the metrics
+ */
+function traceToolCall<H extends ToolHandler>(tool: string, handler: H): H {
+  const traced = (...args: Parameters<H>) => runWithRequestId(tool, getRequestClient()?.name, async () => {
+    const started = Date.now();
+    let result: CallToolResult | undefined;
+    try {
+      result = await handler(...args);
+      return result;
+    } finally {
+      const ok = result !== undefined && !result.isError;
+      const error = (result?.structuredContent as { error?: { code?: string } } | undefined)?.error;
+      const durationMs = Date.now() - started;
+      recordToolCall(tool, ok, durationMs / 1000);
+      log(ok ? "info" : "warn", "tool.call", {
+        status: ok ? "ok" : "error",
+        duration_ms: durationMs,
+        ...(error?.code ? { error_code: error.code } : {})
+      });
+    }
+  });
+  return traced as H;
+}
+
+// =============================================================================
+// Server Factory
+// =============================================================================
+
+// Tools and resources registered below, replayed on every new server
+const registrations: ((server: McpServer) => void)[] = [];
+
+/**
+ * Register a tool, traced, on every server createServer builds
+ */
+function registerTool<
+  OutputArgs extends ZodRawShapeCompat | AnySchema,
+  InputArgs extends undefined | ZodRawShapeCompat | AnySchema = undefined
+>(
+  name: string,
+  config: {
+    title?: string;
+    description?: string;
+    inputSchema?: InputArgs;
+    outputSchema?: OutputArgs;
+    annotations?: ToolAnnotations;
+    _meta?: Record<string, unknown>;
+  },
+  handler: ToolCallback<InputArgs>
+): void {
+  registrations.push(server => {
+    server.registerTool(name, config, traceToolCall(name, handler));
+  });
+}
+
+/**
+ * Register a resource, or a resource template, on every server createServer builds
+ */
+function registerResource(name: string, uri: string, config: ResourceMetadata, read: ReadResourceCallback): void;
+function registerResource(
+  name: string,
+  template: ResourceTemplate,
+  config: ResourceMetadata,
+  read: ReadResourceTemplateCallback
+): void;
+function registerResource(
+  name: string,
+  uriOrTemplate: string | ResourceTemplate,
+  config: ResourceMetadata,
+  read: ReadResourceCallback | ReadResourceTemplateCallback
+): void {
+  registrations.push(server => {
+    if (typeof uriOrTemplate === "string") {
+      server.registerResource(name, uriOrTemplate, config, read as ReadResourceCallback);
+    } else {
+      server.registerResource(name, uriOrTemplate, config, read as ReadResourceTemplateCallback);
+    }
+  });
+}
+
+/**
+ * Build an MCP server with every tool and resource registered. stdio runs
+ * one; over HTTP each session gets its own, so sessions never share a
+ * transport or each other's resource subscriptions. client names the HTTP
+ * client the session belongs to, whose notifications it receives.
+ */
+function createServer(sessionId?: string, client?: string): McpServer {
+  const server = new McpServer(
+    {
+      name: "twelvedata-mcp-server",
+      version: "1.0.0"
+    },
+    {
+      capabilities: { logging: {} }
+    }
+  );
+
+  registrations.forEach(register => register(server));
+
+  const session: ServerSession = {
+    server,
+    client,
+    resourceSubscriptions: new Set(),
+    lastNotifiedAt: new Map(),
+    pendingNotifications: new Map()
+  };
+  registerResourceSubscriptions(session);
+  serverSessions.add(session);
+
+  // Pending notifications and the session's streamed symbols end with it
+  server.server.onclose = () => {
+    serverSessions.delete(session);
+    session.pendingNotifications.forEach(timer => clearTimeout(timer));
+    session.pendingNotifications.clear();
+    runAsClient(findHttpClient(client), () => {
+      const before = getStreamStatus().symbols.length;
+      releasePrices(streamOwner(sessionId));
+      if (getStreamStatus().symbols.length !== before) notifyResourceListChanged();
+    });
+  };
+
+  return server;
+}
+
+/**
+ * Tell a client's connected sessions that its resource list changed
+ */
+function notifyResourceListChanged(client = getClientScope()): void {
+  serverSessions.forEach(session => {
+    if (session.client === client) session.server.sendResourceListChanged();
+  });
+}
 
 // =============================================================================
 // TOOL: twelvedata_get_price
 // =============================================================================
-server.registerTool(
+registerTool(
   "twelvedata_get_price",
   {
     title: "Get Real-Time Price",
@@ -82,24 +583,32 @@ Examples:
   },
   async (params: GetPriceInput) => {
     try {
-      const data = await getPrice(params.symbol);
+      const resolution = await resolveSymbol(params.symbol);
+      if (!resolution.symbol) return ambiguousSymbolResult(resolution);
+
+      const { data, cache } = await getPrice(resolution.symbol);
       
       if (params.response_format === ResponseFormat.JSON) {
-        const output = { symbol: params.symbol, price: data.price };
+        const output = {
+          symbol: resolution.symbol,
+          price: data.price,
+          cache,
+          ...resolutionFields(resolution)
+        };
         return {
           content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
           structuredContent: output
         };
       }
       
-      const markdown = formatPriceAsMarkdown(params.symbol, data.price);
+      const markdown = [
+        formatResolutionNote(resolution),
+        formatPriceAsMarkdown(resolution.symbol, data.price),
+        formatCacheNote(cache)
+      ].filter(Boolean).join("\n\n");
       return { content: [{ type: "text", text: markdown }] };
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Unknown error";
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error: ${message}` }]
-      };
+      return errorResult(error);
     }
   }
 );
@@ -107,7 +616,7 @@ Examples:
 // =============================================================================
 // TOOL: twelvedata_get_quote
 // =============================================================================
-server.registerTool(
+registerTool(
   "twelvedata_get_quote",
   {
     title: "Get Detailed Quote",
@@ -142,23 +651,115 @@ Examples:
   },
   async (params: GetQuoteInput) => {
     try {
-      const data = await getQuote(params.symbol);
+      const resolution = await resolveSymbol(params.symbol);
+      if (!resolution.symbol) return ambiguousSymbolResult(resolution);
+
+      const { data, cache } = await getQuote(resolution.symbol);
       
       if (params.response_format === ResponseFormat.JSON) {
+        const output = { ...data, cache, ...resolutionFields(resolution) };
         return {
-          content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
-          structuredContent: data
+          content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+          structuredContent: output
         };
       }
       
-      const markdown = formatQuoteAsMarkdown(data);
+      const markdown = [
+        formatResolutionNote(resolution),
+        formatQuoteAsMarkdown(data),
+        formatCacheNote(cache)
+      ].filter(Boolean).join("\n\n");
       return { content: [{ type: "text", text: markdown }] };
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Unknown error";
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error: ${message}` }]
-      };
+      return errorResult(error);
+    }
+  }
+);
+
+// =============================================================================
+// TOOL: twelvedata_get_prices
+// =============================================================================
+registerTool(
+  "twelvedata_get_prices",
+  {
+    title: "Get Real-Time Prices (Batch)",
+    description: `Get current prices for many symbols in a single request.
+
+Use this instead of calling twelvedata_get_price repeatedly. Symbols already cached are served without an API call; the rest are fetched together, split into requests that fit the per-minute credit budget. Each symbol costs one API credit.
+
+Args:
+  - symbols (string[]): Trading symbols (e.g., ["XAU/USD", "XAG/USD", "EUR/USD"]), up to 120
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  One comparison table with a row per symbol. A symbol that fails (e.g. not found) gets an error row instead of failing the whole batch.
+
+Examples:
+  - "Gold and silver prices" -> symbols: ["XAU/USD", "XAG/USD"]
+  - "Prices for the major FX pairs" -> symbols: ["EUR/USD", "GBP/USD", "USD/JPY", "USD/CHF"]`,
+    inputSchema: GetPricesSchema,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true
+    }
+  },
+  async (params: GetPricesInput) => {
+    try {
+      const items = await fetchResolvedBatch(params.symbols, getPrices);
+      return batchResult(
+        items,
+        params.response_format,
+        item => ({
+          symbol: item.symbol,
+          price: item.data?.price,
+          error: item.error,
+          cache: item.cache
+        }),
+        formatPricesAsMarkdown
+      );
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+);
+
+// =============================================================================
+// TOOL: twelvedata_get_quotes
+// =============================================================================
+registerTool(
+  "twelvedata_get_quotes",
+  {
+    title: "Get Detailed Quotes (Batch)",
+    description: `Get detailed quotes (OHLC, change, percent change, market status) for many symbols in a single request.
+
+Use this instead of calling twelvedata_get_quote repeatedly. Symbols already cached are served without an API call; the rest are fetched together, split into requests that fit the per-minute credit budget. Each symbol costs one API credit.
+
+Args:
+  - symbols (string[]): Trading symbols (e.g., ["XAU/USD", "EUR/USD", "BTC/USD"]), up to 120
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  One comparison table with price, change, % change, open, high, low, previous close and market status per symbol. A symbol that fails gets an error row instead of failing the whole batch.
+
+Examples:
+  - "Morning check on metals and majors" -> symbols: ["XAU/USD", "XAG/USD", "EUR/USD", "GBP/USD", "USD/JPY"]
+  - "Compare BTC and ETH today" -> symbols: ["BTC/USD", "ETH/USD"]`,
+    inputSchema: GetQuotesSchema,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true
+    }
+  },
+  async (params: GetQuotesInput) => {
+    try {
+      const items = await fetchResolvedBatch(params.symbols, getQuotes);
+      return batchResult(items, params.response_format, item => item, formatQuotesAsMarkdown);
+    } catch (error) {
+      return errorResult(error);
     }
   }
 );
@@ -166,7 +767,7 @@ Examples:
 // =============================================================================
 // TOOL: twelvedata_get_time_series
 // =============================================================================
-server.registerTool(
+registerTool(
   "twelvedata_get_time_series",
   {
     title: "Get OHLC Time Series",
@@ -176,19 +777,28 @@ Perfect for chart analysis, backtesting, and historical price research. Supports
 
 Args:
   - symbol (string): Trading symbol
-  - interval (string): Candle interval - "1min", "5min", "15min", "30min", "1h", "4h", "1day", "1week", "1month"
+  - interval (string): Candle interval - "1min", "5min", "15min", "30min", "45min", "1h", "2h", "4h", "8h", "1day", "1week", "1month", or any other "<n><unit>" such as "3h", "10min", "2day" or "3month". Custom intervals are built locally from the coarsest native interval that divides them (3h from 1h bars); intraday candles start at the session open in the exchange time zone.
   - outputsize (number): Number of candles to return (1-5000, default: 30)
-  - start_date (string, optional): Start date YYYY-MM-DD
-  - end_date (string, optional): End date YYYY-MM-DD
-  - response_format ('markdown' | 'json'): Output format
+  - start_date (string, optional): Start of the range, YYYY-MM-DD or YYYY-MM-DD HH:mm:ss
+  - end_date (string, optional): End of the range, YYYY-MM-DD or YYYY-MM-DD HH:mm:ss
+  - timezone (string, optional): Time zone for the dates and returned datetimes: "Exchange" (default), "UTC" or an IANA name
+  - offset (number): Rows to skip when paging (default: 0)
+  - cursor (string, optional): Cursor from a truncated response; the next page comes from the stored result without a new API call
+  - export ('csv' | 'json', optional): Write every candle to a file in the export directory and return a twelvedata://exports/... resource link instead of inline rows
+  - response_format ('markdown' | 'json' | 'csv'): Output format; 'csv' returns the rows as CSV with a header row
 
 Returns:
   Array of OHLC candles with datetime, open, high, low, close, and volume (where applicable).
+  Large results are cut to fit the response size limit; page info then reports truncated: true, the row counts, next_offset and a cursor.
+  Resampled series carry meta.resampled with the source interval, bars per candle and session anchor.
 
 Examples:
   - "Get 1-hour gold candles" -> symbol: "XAU/USD", interval: "1h"
   - "Daily EURUSD last 100 days" -> symbol: "EUR/USD", interval: "1day", outputsize: 100
-  - "5-minute BTC data" -> symbol: "BTC/USD", interval: "5min"`,
+  - "5-minute BTC data" -> symbol: "BTC/USD", interval: "5min"
+  - "3-hour gold candles" -> symbol: "XAU/USD", interval: "3h"
+  - "Quarterly Apple candles" -> symbol: "AAPL", interval: "3month"
+  - "Save 5000 hourly gold candles for pandas" -> symbol: "XAU/USD", interval: "1h", outputsize: 5000, export: "csv"`,
     inputSchema: GetTimeSeriesSchema,
     annotations: {
       readOnlyHint: true,
@@ -199,58 +809,86 @@ Examples:
   },
   async (params: GetTimeSeriesInput) => {
     try {
-      const data = await getTimeSeries(
-        params.symbol,
-        params.interval,
-        params.outputsize,
-        params.start_date,
-        params.end_date
-      );
-      
-      if (params.response_format === ResponseFormat.JSON) {
-        return {
-          content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
-          structuredContent: data
-        };
+      const resolution = await resolveSymbol(params.symbol);
+      if (!resolution.symbol) return ambiguousSymbolResult(resolution);
+
+      const stored = params.cursor
+        ? loadCursor<ApiResult<TimeSeriesResponse>>(params.cursor)
+        : undefined;
+      const fetchSeries = isNativeInterval(params.interval) ? getTimeSeries : getResampledTimeSeries;
+      // Date ranges at native intervals go through the candle store, which only fetches gaps
+      const useStore = isNativeInterval(params.interval) && isCandleStoreEnabled();
+      const result = stored ?? (params.start_date && useStore
+        ? await fetchCandleRange(resolution.symbol, params.interval, params.start_date, params.end_date, {
+          timezone: params.timezone,
+          maxRequests: MAX_STORE_GAP_REQUESTS,
+          limit: params.outputsize
+        })
+        : await fetchSeries(
+          resolution.symbol,
+          params.interval,
+          params.outputsize,
+          params.start_date,
+          params.end_date,
+          params.timezone
+        ));
+
+      if (params.export) {
+        const { meta, values } = result.data;
+        return exportResult(await writeExport(
+          [resolution.symbol, meta.interval],
+          values,
+          params.export,
+          { ...meta, ...resolutionFields(resolution) }
+        ));
       }
-      
-      const markdown = formatTimeSeriesAsMarkdown(data);
-      return { content: [{ type: "text", text: markdown }] };
+
+      return seriesResult(
+        result,
+        params,
+        stored ? params.cursor : undefined,
+        (data, page) => [
+          formatResolutionNote(resolution),
+          formatTimeSeriesAsMarkdown(data, page)
+        ].filter(Boolean).join("\n\n"),
+        resolutionFields(resolution)
+      );
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Unknown error";
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error: ${message}` }]
-      };
+      return errorResult(error);
     }
   }
 );
 
 // =============================================================================
-// TOOL: twelvedata_convert_currency
+// TOOL: twelvedata_backfill_time_series
 // =============================================================================
-server.registerTool(
-  "twelvedata_convert_currency",
+registerTool(
+  "twelvedata_backfill_time_series",
   {
-    title: "Convert Currency",
-    description: `Convert an amount from one currency to another using real-time rates.
+    title: "Backfill OHLC History",
+    description: `Fetch a long date range of OHLC candles, beyond the 5000 bars one request returns, e.g. two years of 5-minute gold data.
 
-Supports fiat currencies, precious metals (XAU, XAG), and cryptocurrencies.
+The range is fetched newest first in 5000-bar windows, each starting where the previous one ended. Bars repeated at window boundaries are removed and the windows are stitched into one series. Requests wait for minute credits like any other call.
 
 Args:
-  - from (string): Source currency code (e.g., "USD", "EUR", "XAU", "BTC")
-  - to (string): Target currency code
-  - amount (number): Amount to convert
-  - response_format ('markdown' | 'json'): Output format
+  - symbol (string): Trading symbol
+  - interval (string): Candle interval - "1min", "5min", "15min", "30min", "45min", "1h", "2h", "4h", "8h", "1day", "1week", "1month"
+  - start_date (string): Start of the range, YYYY-MM-DD or YYYY-MM-DD HH:mm:ss
+  - end_date (string, optional): End of the range (default: now)
+  - timezone (string, optional): Time zone for the dates and returned datetimes: "Exchange" (default), "UTC" or an IANA name
+  - max_requests (number): Most requests to spend, one credit each (1-${MAX_BACKFILL_REQUESTS}, default: ${DEFAULT_BACKFILL_MAX_REQUESTS})
+  - export ('csv' | 'json', optional): Write the whole series to a file and return a twelvedata://exports/... resource link (recommended for large ranges)
+  - offset (number), cursor (string, optional): Page through the stitched series without new API calls
+  - response_format ('markdown' | 'json' | 'csv'): Output format for inline pages
 
 Returns:
-  Converted amount with exchange rate.
+  The stitched candles (newest first) plus a backfill summary: requests spent, bars, duplicates removed, and whether the whole range was covered.
+  When max_requests or the daily credit budget runs out, the partial series is returned with complete: false and resume_end_date; call again with that end_date to continue.
 
 Examples:
-  - "Convert 1000 USD to EUR" -> from: "USD", to: "EUR", amount: 1000
-  - "How much is 1 oz gold in USD?" -> from: "XAU", to: "USD", amount: 1
-  - "Convert 0.5 BTC to USD" -> from: "BTC", to: "USD", amount: 0.5`,
-    inputSchema: ConvertCurrencySchema,
+  - "Two years of 5-minute gold to CSV" -> symbol: "XAU/USD", interval: "5min", start_date: "2023-01-01", end_date: "2025-01-01", export: "csv"
+  - "EURUSD 1min for one New York session" -> symbol: "EUR/USD", interval: "1min", start_date: "2024-03-05 09:30:00", end_date: "2024-03-05 16:00:00", timezone: "America/New_York"`,
+    inputSchema: BackfillTimeSeriesSchema,
     annotations: {
       readOnlyHint: true,
       destructiveHint: false,
@@ -258,169 +896,187 @@ Examples:
       openWorldHint: true
     }
   },
-  async (params: ConvertCurrencyInput) => {
+  async (params: BackfillTimeSeriesInput) => {
     try {
-      const symbol = `${params.from}/${params.to}`;
-      const data = await convertCurrency(symbol, params.amount);
-      
-      if (params.response_format === ResponseFormat.JSON) {
-        return {
-          content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
-          structuredContent: data
-        };
+      const resolution = await resolveSymbol(params.symbol);
+      if (!resolution.symbol) return ambiguousSymbolResult(resolution);
+
+      const stored = params.cursor
+        ? loadCursor<ApiResult<BackfillResponse>>(params.cursor)
+        : undefined;
+      const result = stored ?? await backfillTimeSeries(
+        resolution.symbol,
+        params.interval,
+        params.start_date,
+        params.end_date,
+        { timezone: params.timezone, maxRequests: params.max_requests }
+      );
+
+      if (params.export) {
+        const { meta, values, backfill } = result.data;
+        return exportResult(
+          await writeExport(
+            [resolution.symbol, meta.interval, "backfill"],
+            values,
+            params.export,
+            { ...meta, backfill, ...resolutionFields(resolution) }
+          ),
+          { backfill },
+          formatBackfillNote(backfill)
+        );
       }
-      
-      const markdown = formatConversionAsMarkdown(data, params.amount);
-      return { content: [{ type: "text", text: markdown }] };
+
+      return seriesResult(
+        result,
+        params,
+        stored ? params.cursor : undefined,
+        (data, page) => [
+          formatResolutionNote(resolution),
+          formatBackfillNote(data.backfill),
+          formatTimeSeriesAsMarkdown(data, page)
+        ].filter(Boolean).join("\n\n"),
+        resolutionFields(resolution)
+      );
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Unknown error";
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error: ${message}` }]
-      };
+      return errorResult(error);
     }
   }
 );
 
 // =============================================================================
-// TOOL: twelvedata_get_exchange_rate
+// TOOL: twelvedata_candle_store_coverage
 // =============================================================================
-server.registerTool(
-  "twelvedata_get_exchange_rate",
+registerTool(
+  "twelvedata_candle_store_coverage",
   {
-    title: "Get Exchange Rate",
-    description: `Get the current exchange rate for a currency pair.
+    title: "Candle Store Coverage",
+    description: `Show which candles the local candle store holds, per symbol and interval.
+
+Time series requests with a start_date and backfills keep the bars they fetch on disk. Later requests read covered ranges from disk and only ask Twelve Data for the gaps. Makes no API call.
 
 Args:
-  - symbol (string): Currency pair (e.g., "EUR/USD", "XAU/USD")
+  - symbol (string, optional): Only show this symbol
+  - interval (string, optional): Only show this interval
   - response_format ('markdown' | 'json'): Output format
 
 Returns:
-  Current exchange rate with timestamp.
-
-Examples:
-  - "EUR/USD exchange rate" -> symbol: "EUR/USD"
-  - "Gold rate" -> symbol: "XAU/USD"`,
-    inputSchema: GetExchangeRateSchema,
+  Per stored series: bar count, first and last bar, the covered ranges (exchange-local time) and when it was last updated.`,
+    inputSchema: CandleStoreCoverageSchema,
     annotations: {
       readOnlyHint: true,
       destructiveHint: false,
       idempotentHint: true,
-      openWorldHint: true
+      openWorldHint: false
     }
   },
-  async (params: GetExchangeRateInput) => {
+  async (params: CandleStoreCoverageInput) => {
     try {
-      const data = await getExchangeRate(params.symbol);
-      
+      const resolution = params.symbol ? await resolveSymbol(params.symbol) : undefined;
+      if (resolution && !resolution.symbol) return ambiguousSymbolResult(resolution);
+
+      const coverage = await getStoreCoverage(resolution?.symbol, params.interval);
+
       if (params.response_format === ResponseFormat.JSON) {
+        const output = { enabled: isCandleStoreEnabled(), count: coverage.length, series: coverage };
         return {
-          content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
-          structuredContent: data
+          content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+          structuredContent: output
         };
       }
-      
-      const markdown = [
-        `## Exchange Rate: ${data.symbol}`,
-        ``,
-        `**Rate:** ${data.rate.toFixed(6)}`,
-        `**Timestamp:** ${new Date(data.timestamp * 1000).toISOString()}`
-      ].join("\n");
-      
-      return { content: [{ type: "text", text: markdown }] };
+
+      const note = isCandleStoreEnabled() ? "" : "\n\n*The candle store is disabled (TWELVEDATA_CANDLE_STORE=false).*";
+      return { content: [{ type: "text", text: `${formatCandleCoverageAsMarkdown(coverage)}${note}` }] };
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Unknown error";
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error: ${message}` }]
-      };
+      return errorResult(error);
     }
   }
 );
 
 // =============================================================================
-// TOOL: twelvedata_list_commodities
+// TOOL: twelvedata_purge_candle_store
 // =============================================================================
-server.registerTool(
-  "twelvedata_list_commodities",
+registerTool(
+  "twelvedata_purge_candle_store",
   {
-    title: "List Available Commodities",
-    description: `Get a list of all available commodities including precious metals, energy, and agricultural products.
+    title: "Purge Candle Store",
+    description: `Delete stored candles so the next requests fetch them from Twelve Data again.
 
 Args:
+  - symbol (string, optional): Only purge this symbol
+  - interval (string, optional): Only purge this interval
+  - all (boolean): Must be true to purge everything when neither symbol nor interval is given
   - response_format ('markdown' | 'json'): Output format
 
 Returns:
-  List of commodities with symbols, names, and categories.
-  Categories include: Precious Metal (gold, silver, platinum), Energy (oil, natural gas), Agricultural, etc.
-
-Examples:
-  - "What metals can I trade?" -> lists all available commodities
-  - "Show available commodities" -> full list`,
-    inputSchema: ListCommoditiesSchema,
+  The series that were removed.`,
+    inputSchema: PurgeCandleStoreSchema,
     annotations: {
-      readOnlyHint: true,
-      destructiveHint: false,
+      readOnlyHint: false,
+      destructiveHint: true,
       idempotentHint: true,
-      openWorldHint: true
+      openWorldHint: false
     }
   },
-  async (params: ListCommoditiesInput) => {
+  async (params: PurgeCandleStoreInput) => {
     try {
-      const data = await getCommodities();
-      
+      if (!params.symbol && !params.interval && !params.all) {
+        throw new BadRequestError("Give a symbol and/or interval, or all: true to purge every stored series.");
+      }
+      const resolution = params.symbol ? await resolveSymbol(params.symbol) : undefined;
+      if (resolution && !resolution.symbol) return ambiguousSymbolResult(resolution);
+
+      const removed = await purgeCandleStore(resolution?.symbol, params.interval);
+
       if (params.response_format === ResponseFormat.JSON) {
+        const output = { removed };
         return {
-          content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
-          structuredContent: data
+          content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+          structuredContent: output
         };
       }
-      
-      const markdown = formatCommoditiesAsMarkdown(data);
-      return { content: [{ type: "text", text: markdown }] };
+
+      const text = removed.length === 0
+        ? "Nothing stored for that selection."
+        : `Purged ${removed.length} series: ${removed.map(series => `${series.symbol} ${series.interval} (${series.bars} bars)`).join(", ")}.`;
+      return { content: [{ type: "text", text }] };
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Unknown error";
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Error: ${message}` }]
-      };
+      return errorResult(error);
     }
   }
 );
 
 // =============================================================================
-// TOOL: twelvedata_technical_indicator
+// TOOL: twelvedata_analyze_series
 // =============================================================================
-server.registerTool(
-  "twelvedata_technical_indicator",
+registerTool(
+  "twelvedata_analyze_series",
   {
-    title: "Get Technical Indicator",
-    description: `Calculate technical indicators for a symbol.
+    title: "Analyze OHLC Series",
+    description: `Compute summary statistics for a symbol's price history on the server and return a compact summary instead of raw candles.
 
-Supports popular indicators for technical analysis.
-
-**Available indicators:**
-- Trend: SMA, EMA, WMA, ADX
-- Momentum: RSI, MACD, MOM, ROC, STOCH, WILLR, CCI
-- Volatility: BBANDS (Bollinger Bands), ATR
-- Volume: OBV
+Use this instead of fetching hundreds of candles to work out returns, volatility or drawdowns yourself.
 
 Args:
   - symbol (string): Trading symbol
-  - interval (string): Time interval for calculation
-  - indicator (string): Indicator type (sma, ema, rsi, macd, bbands, stoch, adx, atr, etc.)
-  - time_period (number): Period for calculation (default: 14)
-  - outputsize (number): Number of data points (default: 30)
+  - interval (string): Candle interval (default: "1day")
+  - outputsize (number): Number of candles to analyze (2-5000, default: 250)
+  - start_date / end_date (string, optional): Analysis window YYYY-MM-DD
+  - atr_period (number): Average true range period (default: 14)
+  - periods_per_year (number, optional): Override the bars/year used to annualize volatility
   - response_format ('markdown' | 'json'): Output format
 
 Returns:
-  Indicator values with timestamps.
+  - Period return (first close to last close)
+  - Log-return volatility, per bar and annualized for the interval
+  - Maximum drawdown with peak and trough dates
+  - Average true range (Wilder), absolute and as % of the last close
+  - Highest high and lowest low with dates
+  - Gap counts (opens beyond the previous candle's range)
 
 Examples:
-  - "RSI for gold" -> symbol: "XAU/USD", indicator: "rsi"
-  - "MACD for EURUSD daily" -> symbol: "EUR/USD", indicator: "macd", interval: "1day"
-  - "20-period SMA for BTC" -> symbol: "BTC/USD", indicator: "sma", time_period: 20`,
-    inputSchema: GetTechnicalIndicatorSchema,
+  - "How volatile was gold this year?" -> symbol: "XAU/USD", interval: "1day", outputsize: 250
+  - "Max drawdown of BTC over the last 500 4h bars" -> symbol: "BTC/USD", interval: "4h", outputsize: 500`,
+    inputSchema: AnalyzeSeriesSchema,
     annotations: {
       readOnlyHint: true,
       destructiveHint: false,
@@ -428,31 +1084,1548 @@ Examples:
       openWorldHint: true
     }
   },
-  async (params: GetTechnicalIndicatorInput) => {
+  async (params: AnalyzeSeriesInput) => {
     try {
-      const data = await getTechnicalIndicator(
-        params.symbol,
+      const resolution = await resolveSymbol(params.symbol);
+      if (!resolution.symbol) return ambiguousSymbolResult(resolution);
+
+      const { data, cache } = await getTimeSeries(
+        resolution.symbol,
         params.interval,
-        params.indicator,
         params.outputsize,
-        { time_period: params.time_period }
+        params.start_date,
+        params.end_date
       );
-      
+      const stats = analyzeSeries(data, {
+        atrPeriod: params.atr_period,
+        periodsPerYear: params.periods_per_year
+      });
+
       if (params.response_format === ResponseFormat.JSON) {
+        const output = { ...stats, cache, ...resolutionFields(resolution) };
         return {
-          content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
-          structuredContent: data
+          content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+          structuredContent: output
+        };
+      }
+
+      const markdown = [
+        formatResolutionNote(resolution),
+        formatAnalyticsAsMarkdown(stats),
+        formatCacheNote(cache)
+      ].filter(Boolean).join("\n\n");
+      return { content: [{ type: "text", text: markdown }] };
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+);
+
+// =============================================================================
+// TOOL: twelvedata_convert_currency
+// =============================================================================
+registerTool(
+  "twelvedata_convert_currency",
+  {
+    title: "Convert Currency",
+    description: `Convert an amount from one currency to another using real-time rates.
+
+Supports fiat currencies, precious metals (XAU, XAG), and cryptocurrencies.
+
+Args:
+  - from (string): Source currency code (e.g., "USD", "EUR", "XAU", "BTC")
+  - to (string): Target currency code
+  - amount (number): Amount to convert
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Converted amount with exchange rate.
+
+Examples:
+  - "Convert 1000 USD to EUR" -> from: "USD", to: "EUR", amount: 1000
+  - "How much is 1 oz gold in USD?" -> from: "XAU", to: "USD", amount: 1
+  - "Convert 0.5 BTC to USD" -> from: "BTC", to: "USD", amount: 0.5`,
+    inputSchema: ConvertCurrencySchema,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true
+    }
+  },
+  async (params: ConvertCurrencyInput) => {
+    try {
+      const symbol = `${params.from}/${params.to}`;
+      const { data, cache } = await convertCurrency(symbol, params.amount);
+      
+      if (params.response_format === ResponseFormat.JSON) {
+        const output = { ...data, cache };
+        return {
+          content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+          structuredContent: output
+        };
+      }
+      
+      const markdown = `${formatConversionAsMarkdown(data, params.amount)}\n\n${formatCacheNote(cache)}`;
+      return { content: [{ type: "text", text: markdown }] };
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+);
+
+// =============================================================================
+// TOOL: twelvedata_get_exchange_rate
+// =============================================================================
+registerTool(
+  "twelvedata_get_exchange_rate",
+  {
+    title: "Get Exchange Rate",
+    description: `Get the current exchange rate for a currency pair.
+
+Args:
+  - symbol (string): Currency pair (e.g., "EUR/USD", "XAU/USD")
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Current exchange rate with timestamp.
+
+Examples:
+  - "EUR/USD exchange rate" -> symbol: "EUR/USD"
+  - "Gold rate" -> symbol: "XAU/USD"`,
+    inputSchema: GetExchangeRateSchema,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true
+    }
+  },
+  async (params: GetExchangeRateInput) => {
+    try {
+      const resolution = await resolveSymbol(params.symbol);
+      if (!resolution.symbol) return ambiguousSymbolResult(resolution);
+
+      const { data, cache } = await getExchangeRate(resolution.symbol);
+      
+      if (params.response_format === ResponseFormat.JSON) {
+        const output = { ...data, cache, ...resolutionFields(resolution) };
+        return {
+          content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+          structuredContent: output
+        };
+      }
+      
+      const markdown = [
+        `## Exchange Rate: ${data.symbol}`,
+        ``,
+        `**Rate:** ${data.rate.toFixed(6)}`,
+        `**Timestamp:** ${new Date(data.timestamp * 1000).toISOString()}`,
+        ``,
+        formatCacheNote(cache)
+      ];
+      const note = formatResolutionNote(resolution);
+      if (note) markdown.unshift(note, ``);
+      
+      return { content: [{ type: "text", text: markdown.join("\n") }] };
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+);
+
+// =============================================================================
+// TOOL: twelvedata_list_commodities
+// =============================================================================
+registerTool(
+  "twelvedata_list_commodities",
+  {
+    title: "List Available Commodities",
+    description: `Get a list of all available commodities including precious metals, energy, and agricultural products.
+
+Args:
+  - limit (number): Page size (default: 100)
+  - offset (number): Results to skip (default: 0)
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  List of commodities with symbols, names, and categories.
+  Categories include: Precious Metal (gold, silver, platinum), Energy (oil, natural gas), Agricultural, etc.
+
+Examples:
+  - "What metals can I trade?" -> lists all available commodities
+  - "Show available commodities" -> full list`,
+    inputSchema: ListCommoditiesSchema,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true
+    }
+  },
+  async (params: ListCommoditiesInput) => {
+    try {
+      const { data, cache } = await getCommodities();
+      const commodities = [...data.data].sort((a, b) =>
+        a.category.localeCompare(b.category) || a.symbol.localeCompare(b.symbol)
+      );
+      return listResult(commodities, params, cache, formatCommoditiesAsMarkdown);
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+);
+
+// =============================================================================
+// TOOL: twelvedata_list_forex_pairs
+// =============================================================================
+registerTool(
+  "twelvedata_list_forex_pairs",
+  {
+    title: "List Forex Pairs",
+    description: `List the forex pairs Twelve Data supports, optionally filtered by base or quote currency.
+
+Use this to check that a pair exists and how its symbol is written before requesting prices. Filtering happens on Twelve Data's side; results are paged.
+
+Args:
+  - currency_base (string, optional): Base currency filter (e.g., "EUR", "XAU")
+  - currency_quote (string, optional): Quote currency filter (e.g., "USD", "JPY")
+  - limit (number): Page size (default: 100)
+  - offset (number): Results to skip (default: 0)
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Pairs with symbol, base, quote and currency group, plus paging info (total, has_more, next_offset).
+
+Examples:
+  - "Which pairs quote in JPY?" -> currency_quote: "JPY"
+  - "Is there a SGD/USD pair?" -> currency_base: "SGD", currency_quote: "USD"`,
+    inputSchema: ListForexPairsSchema,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true
+    }
+  },
+  async (params: ListForexPairsInput) => {
+    try {
+      const { data, cache } = await getForexPairs(
+        params.currency_base?.toUpperCase(),
+        params.currency_quote?.toUpperCase()
+      );
+      return listResult(data.data, params, cache, formatForexPairsAsMarkdown);
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+);
+
+// =============================================================================
+// TOOL: twelvedata_list_cryptocurrencies
+// =============================================================================
+registerTool(
+  "twelvedata_list_cryptocurrencies",
+  {
+    title: "List Cryptocurrencies",
+    description: `List the cryptocurrency pairs Twelve Data supports, with the exchanges each trades on.
+
+Filtering happens on Twelve Data's side; results are paged.
+
+Args:
+  - currency_base (string, optional): Base currency filter (e.g., "BTC", "ETH")
+  - currency_quote (string, optional): Quote currency filter (e.g., "USD", "USDT")
+  - exchange (string, optional): Exchange filter (e.g., "Binance")
+  - limit (number): Page size (default: 100)
+  - offset (number): Results to skip (default: 0)
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Pairs with symbol, base, quote and available exchanges, plus paging info.
+
+Examples:
+  - "What can I trade against BTC?" -> currency_quote: "BTC"
+  - "Crypto pairs on Binance quoted in USDT" -> exchange: "Binance", currency_quote: "USDT"`,
+    inputSchema: ListCryptocurrenciesSchema,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true
+    }
+  },
+  async (params: ListCryptocurrenciesInput) => {
+    try {
+      const { data, cache } = await getCryptocurrencies(
+        params.currency_base?.toUpperCase(),
+        params.currency_quote?.toUpperCase(),
+        params.exchange
+      );
+      return listResult(data.data, params, cache, formatCryptocurrenciesAsMarkdown);
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+);
+
+// =============================================================================
+// TOOL: twelvedata_list_stocks
+// =============================================================================
+registerTool(
+  "twelvedata_list_stocks",
+  {
+    title: "List Stocks",
+    description: `List the stocks Twelve Data supports, filtered by ticker, exchange, country or type.
+
+The unfiltered list is very large - always pass at least one filter. Filtering happens on Twelve Data's side; results are paged.
+
+Args:
+  - symbol (string, optional): Ticker filter (e.g., "AAPL")
+  - exchange (string, optional): Exchange filter (e.g., "NASDAQ", "LSE")
+  - country (string, optional): Country filter (e.g., "United States")
+  - type (string, optional): Instrument type (e.g., "Common Stock")
+  - limit (number): Page size (default: 100)
+  - offset (number): Results to skip (default: 0)
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Stocks with symbol, name, exchange, country, currency and type, plus paging info.
+
+Examples:
+  - "Where is AAPL listed?" -> symbol: "AAPL"
+  - "Stocks on the Singapore exchange" -> exchange: "SGX"`,
+    inputSchema: ListStocksSchema,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true
+    }
+  },
+  async (params: ListStocksInput) => {
+    try {
+      const { data, cache } = await getStocks(
+        params.symbol?.toUpperCase(),
+        params.exchange,
+        params.country,
+        params.type
+      );
+      return listResult(data.data, params, cache, formatStocksAsMarkdown);
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+);
+
+// =============================================================================
+// TOOL: twelvedata_list_etfs
+// =============================================================================
+registerTool(
+  "twelvedata_list_etfs",
+  {
+    title: "List ETFs",
+    description: `List the ETFs Twelve Data supports, filtered by ticker, exchange or country.
+
+Filtering happens on Twelve Data's side; results are paged.
+
+Args:
+  - symbol (string, optional): Ticker filter (e.g., "GLD")
+  - exchange (string, optional): Exchange filter (e.g., "NYSE")
+  - country (string, optional): Country filter (e.g., "United States")
+  - limit (number): Page size (default: 100)
+  - offset (number): Results to skip (default: 0)
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  ETFs with symbol, name, exchange, country and currency, plus paging info.
+
+Examples:
+  - "Is GLD available?" -> symbol: "GLD"
+  - "ETFs listed in the UK" -> country: "United Kingdom"`,
+    inputSchema: ListEtfsSchema,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true
+    }
+  },
+  async (params: ListEtfsInput) => {
+    try {
+      const { data, cache } = await getEtfs(
+        params.symbol?.toUpperCase(),
+        params.exchange,
+        params.country
+      );
+      return listResult(data.data, params, cache, formatEtfsAsMarkdown);
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+);
+
+// =============================================================================
+// TOOL: twelvedata_symbol_search
+// =============================================================================
+registerTool(
+  "twelvedata_symbol_search",
+  {
+    title: "Search Symbols",
+    description: `Find instruments by ticker or name across stocks, ETFs, forex, crypto and indices.
+
+Use this when you don't know the exact symbol. The other tools already accept common names ("gold") and slashless pairs ("EURUSD"), and answer with candidates when a name is ambiguous.
+
+Args:
+  - query (string): Ticker or name to search for (e.g., "Apple", "gold", "EUR")
+  - outputsize (number): Maximum matches (1-120, default: 30)
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Matches with symbol, instrument name, type, exchange, country and currency.
+
+Examples:
+  - "What's Apple's ticker?" -> query: "Apple"
+  - "Find Tesla" -> query: "Tesla"`,
+    inputSchema: SymbolSearchSchema,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true
+    }
+  },
+  async (params: SymbolSearchInput) => {
+    try {
+      const { data, cache } = await searchSymbols(params.query, params.outputsize);
+      const results = data.data ?? [];
+      const page = paginate(results, 0, results.length);
+
+      if (params.response_format === ResponseFormat.JSON) {
+        const toOutput = (p: Page<SymbolSearchResult>) =>
+          ({ query: params.query, count: p.items.length, data: p.items, page: p.page, cache });
+        const fitted = fitPage(page, p => JSON.stringify(toOutput(p), null, 2));
+        return {
+          content: [{ type: "text", text: fitted.text }],
+          structuredContent: toOutput(fitted.page)
+        };
+      }
+
+      const fitted = fitPage(page, p =>
+        `${formatSymbolSearchAsMarkdown(params.query, p.items)}\n\n${formatCacheNote(cache)}`
+      );
+      return { content: [{ type: "text", text: fitted.text }] };
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+);
+
+// =============================================================================
+// TOOL: twelvedata_technical_indicator
+// =============================================================================
+registerTool(
+  "twelvedata_technical_indicator",
+  {
+    title: "Get Technical Indicator",
+    description: `Calculate technical indicators for a symbol.
+
+Supports popular indicators for technical analysis.
+
+**Available indicators:**
+- Trend: SMA, EMA, WMA, ADX
+- Momentum: RSI, MACD, MOM, ROC, STOCH, WILLR, CCI
+- Volatility: BBANDS (Bollinger Bands), ATR
+- Volume: OBV
+
+Args:
+  - symbol (string): Trading symbol
+  - interval (string): Time interval for calculation
+  - indicator (string): Indicator type (sma, ema, rsi, macd, bbands, stoch, adx, atr, etc.)
+  - time_period (number, optional): Lookback period (default: 14, bbands: 20; not used by macd, stoch, obv)
+  - series_type ('open' | 'high' | 'low' | 'close' | 'hl2' | 'hlc3' | 'ohlc4'): Price series to use (default: 'close'; sma, ema, wma, rsi, macd, bbands, mom, roc, obv)
+  - fast_period, slow_period, signal_period (number): MACD periods (default: 12/26/9; fast_period must be below slow_period)
+  - sd (number): BBANDS standard deviation multiplier (default: 2)
+  - ma_type ('SMA' | 'EMA' | 'WMA'): BBANDS moving average (default: 'SMA')
+  - fast_k_period, slow_k_period, slow_d_period (number): STOCH periods (default: 14/1/3)
+  - slow_kma_type, slow_dma_type ('SMA' | 'EMA' | 'WMA'): STOCH smoothing (default: 'SMA')
+  - outputsize (number): Number of data points (default: 30)
+  - source ('api' | 'local' | 'auto'): 'api' asks Twelve Data, 'local' computes from time series candles, 'auto' (default) uses the API and falls back to local when the plan doesn't include the indicator
+  - offset (number): Rows to skip when paging (default: 0)
+  - cursor (string, optional): Cursor from a truncated response; the next page comes from the stored result without a new API call
+  - export ('csv' | 'json', optional): Write every row, joined by datetime onto the symbol's candles (one extra time series request), to a file in the export directory and return a twelvedata://exports/... resource link instead of inline rows
+  - response_format ('markdown' | 'json' | 'csv'): Output format; 'csv' returns the rows as CSV with a header row
+
+Returns:
+  Indicator values with timestamps.
+  Large results are cut to fit the response size limit; page info then reports truncated: true, the row counts, next_offset and a cursor.
+
+Examples:
+  - "RSI for gold" -> symbol: "XAU/USD", indicator: "rsi"
+  - "MACD for EURUSD daily" -> symbol: "EUR/USD", indicator: "macd", interval: "1day"
+  - "20-period SMA for BTC" -> symbol: "BTC/USD", indicator: "sma", time_period: 20
+  - "MACD 8/21/5 on AAPL" -> indicator: "macd", fast_period: 8, slow_period: 21, signal_period: 5
+  - "Bollinger Bands 2.5 sd on typical price" -> indicator: "bbands", sd: 2.5, series_type: "hlc3"
+  - "Export daily gold candles with RSI to CSV" -> symbol: "XAU/USD", indicator: "rsi", outputsize: 1000, export: "csv"
+
+Parameters that don't apply to the chosen indicator are rejected with a bad_request error.`,
+    inputSchema: GetTechnicalIndicatorSchema,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true
+    }
+  },
+  async (params: GetTechnicalIndicatorInput) => {
+    try {
+      const {
+        symbol,
+        interval,
+        indicator,
+        outputsize,
+        source,
+        offset,
+        cursor,
+        export: exportFormat,
+        response_format,
+        ...indicatorInput
+      } = params;
+      const indicatorParams = parseIndicatorParams(indicator, indicatorInput);
+
+      const resolution = await resolveSymbol(symbol);
+      if (!resolution.symbol) return ambiguousSymbolResult(resolution);
+
+      const stored = params.cursor
+        ? loadCursor<IndicatorResult>(params.cursor)
+        : undefined;
+      const result = stored ?? await getIndicator(
+        resolution.symbol,
+        interval,
+        indicator,
+        outputsize,
+        indicatorParams,
+        source
+      );
+
+      if (exportFormat) {
+        // Candles for the same bars, so the file holds OHLCV and the indicator side by side
+        const candles = await getTimeSeries(resolution.symbol, interval, outputsize);
+        return exportResult(await writeExport(
+          [resolution.symbol, interval, indicator],
+          joinByDatetime(candles.data.values, result.data.values),
+          exportFormat,
+          { ...result.data.meta, parameters: indicatorParams, source: result.source, ...resolutionFields(resolution) }
+        ));
+      }
+
+      return seriesResult(
+        result,
+        params,
+        stored ? params.cursor : undefined,
+        (data, page) => [
+          formatResolutionNote(resolution),
+          formatIndicatorAsMarkdown(data, indicator, page, indicatorParams),
+          formatIndicatorSourceNote(result.source, result.fallback_reason)
+        ].filter(Boolean).join("\n\n"),
+        {
+          parameters: indicatorParams,
+          source: result.source,
+          ...(result.fallback_reason ? { fallback_reason: result.fallback_reason } : {}),
+          ...resolutionFields(resolution)
+        }
+      );
+    } catch (error) {
+      const note = error instanceof PlanRestrictedError
+        ? "Note: Some indicators require paid plans. Use source: 'local' to compute it from time series candles."
+        : undefined;
+      return errorResult(error, note);
+    }
+  }
+);
+
+// =============================================================================
+// TOOL: twelvedata_technical_snapshot
+// =============================================================================
+registerTool(
+  "twelvedata_technical_snapshot",
+  {
+    title: "Technical Snapshot",
+    description: `Get the latest and previous value of several indicators for one symbol in a single compact table, with derived signals.
+
+Use this instead of calling twelvedata_technical_indicator once per indicator when only the current reading matters.
+
+Args:
+  - symbol (string): Trading symbol
+  - interval (string): Candle interval (default: "1day")
+  - indicators (string[]): Indicators to include with default parameters (default: ["rsi", "macd", "bbands", "atr"])
+  - source ('local' | 'api' | 'auto'): 'local' (default) computes everything from one time series request; 'api' costs one request per indicator; 'auto' uses the API and falls back to local when the plan doesn't include an indicator
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  - Latest close and previous close
+  - Latest and previous value of each indicator output
+  - Signals: RSI overbought (≥70) / oversold (≤30), MACD crossover, price position inside the Bollinger Bands (%B)
+  - Trend rows: price versus SMA50 and SMA200, with golden/death cross detection
+  An indicator that fails reports its own error without failing the snapshot.
+
+Examples:
+  - "Technical picture of gold" -> symbol: "XAU/USD"
+  - "Is EURUSD overbought on the 4h?" -> symbol: "EUR/USD", interval: "4h", indicators: ["rsi", "stoch"]`,
+    inputSchema: TechnicalSnapshotSchema,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true
+    }
+  },
+  async (params: TechnicalSnapshotInput) => {
+    try {
+      const resolution = await resolveSymbol(params.symbol);
+      if (!resolution.symbol) return ambiguousSymbolResult(resolution);
+
+      const { data, cache } = await getTechnicalSnapshot(
+        resolution.symbol,
+        params.interval,
+        params.indicators,
+        params.source
+      );
+
+      if (params.response_format === ResponseFormat.JSON) {
+        const output = { ...data, cache, ...resolutionFields(resolution) };
+        return {
+          content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+          structuredContent: output
+        };
+      }
+
+      const markdown = [
+        formatResolutionNote(resolution),
+        formatSnapshotAsMarkdown(data),
+        formatCacheNote(cache)
+      ].filter(Boolean).join("\n\n");
+      return { content: [{ type: "text", text: markdown }] };
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+);
+
+// =============================================================================
+// TOOL: twelvedata_get_usage
+// =============================================================================
+registerTool(
+  "twelvedata_get_usage",
+  {
+    title: "Get API Credit Usage",
+    description: `Report how many Twelve Data API credits are left in the current minute and day.
+
+The server tracks credits client-side (free plan: 8/minute, 800/day) and syncs with the api-credits-used / api-credits-left headers when Twelve Data sends them. Cached responses don't use credits. This tool makes no API call.
+
+Args:
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Minute and day budgets (limit, used, remaining), the limiter mode, the daily reset time, and credits spent per endpoint.
+
+Examples:
+  - "How many API credits do I have left?"
+  - "Can I make another request right now?"`,
+    inputSchema: GetUsageSchema,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async (params: GetUsageInput) => {
+    const usage = getUsage();
+
+    if (params.response_format === ResponseFormat.JSON) {
+      return {
+        content: [{ type: "text", text: JSON.stringify(usage, null, 2) }],
+        structuredContent: usage
+      };
+    }
+
+    return { content: [{ type: "text", text: formatUsageAsMarkdown(usage) }] };
+  }
+);
+
+// =============================================================================
+// TOOL: twelvedata_value_portfolio
+// =============================================================================
+registerTool(
+  "twelvedata_value_portfolio",
+  {
+    title: "Value Portfolio",
+    description: `Value a list of holdings in one reporting currency with unrealized P&L, using batched price and FX requests instead of one conversion call per position.
+
+Args:
+  - positions (array): Holdings, each with
+    - symbol (string): Instrument (AAPL, XAU/USD, gold) or a currency/metal/crypto code held directly (EUR, XAU, BTC)
+    - quantity (number): Units held (shares, ounces, coins, or currency amount)
+    - cost_basis (number, optional): Total amount paid for the position
+    - cost_currency (string, optional): Currency of cost_basis (default: the instrument's price currency)
+  - reporting_currency (string): Currency for all values (default: "USD")
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Per position: price, market value, cost basis, unrealized P&L, P&L % and portfolio weight, all in the reporting currency; plus totals and the FX rates used.
+  Cost bases are converted at current rates, so P&L includes currency moves. Positions that can't be priced are listed with their error and left out of the totals.
+
+Examples:
+  - "Value 10 oz gold, 5000 EUR and 0.3 BTC in SGD" -> positions: [{ symbol: "XAU", quantity: 10 }, { symbol: "EUR", quantity: 5000 }, { symbol: "BTC", quantity: 0.3 }], reporting_currency: "SGD"
+  - "I bought 50 AAPL for 8000 USD, what's my P&L in EUR?" -> positions: [{ symbol: "AAPL", quantity: 50, cost_basis: 8000, cost_currency: "USD" }], reporting_currency: "EUR"`,
+    inputSchema: ValuePortfolioSchema,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true
+    }
+  },
+  async (params: ValuePortfolioInput) => {
+    try {
+      const valuation = await valuePortfolio(params.positions, params.reporting_currency);
+
+      if (params.response_format === ResponseFormat.JSON) {
+        return {
+          content: [{ type: "text", text: JSON.stringify(valuation, null, 2) }],
+          structuredContent: valuation
+        };
+      }
+
+      return { content: [{ type: "text", text: formatPortfolioAsMarkdown(valuation) }] };
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+);
+
+// =============================================================================
+// TOOL: twelvedata_correlation_matrix
+// =============================================================================
+registerTool(
+  "twelvedata_correlation_matrix",
+  {
+    title: "Correlation Matrix",
+    description: `Correlate the returns of several symbols, e.g. for hedging gold against silver, dollar pairs and bitcoin.
+
+Fetches a time series per symbol, lines the candles up by datetime (converting intraday bars from each exchange's time zone to UTC and dropping bars missing from any symbol), then correlates the log returns.
+
+Args:
+  - symbols (string[]): 2-10 symbols
+  - interval (string): Candle interval (default: "1day")
+  - outputsize (number): Candles fetched per symbol (10-5000, default: 250)
+  - method ('pearson' | 'spearman' | 'both'): Correlation method (default: 'both')
+  - rolling_window (number, optional): Also summarize the rolling Pearson correlation (latest, min, max, mean) over windows of this many returns
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Correlation matrices (1 = move together, -1 = move opposite), the shared period and number of returns, and bars fetched per symbol.
+  Costs one credit per symbol. Symbols that fail are listed and left out.
+
+Examples:
+  - "How correlated are gold, silver, EURUSD and BTC?" -> symbols: ["XAU/USD", "XAG/USD", "EUR/USD", "BTC/USD"]
+  - "Is the gold/silver correlation stable on 4h bars?" -> symbols: ["XAU/USD", "XAG/USD"], interval: "4h", rolling_window: 30`,
+    inputSchema: CorrelationMatrixSchema,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true
+    }
+  },
+  async (params: CorrelationMatrixInput) => {
+    try {
+      const items = await fetchResolvedBatch(params.symbols, async symbols =>
+        symbols.map(symbol => ({ symbol, data: symbol }))
+      );
+      const symbols = [...new Set(items.flatMap(item => (item.data ? [item.data] : [])))];
+      const unresolved = items.flatMap(item => (item.error ? [{ symbol: item.symbol, error: item.error }] : []));
+      if (symbols.length < 2) {
+        const reasons = unresolved.map(item => `${item.symbol}: ${item.error.message}`).join("; ");
+        return errorResult(new BadRequestError(`Need at least two distinct symbols to correlate. ${reasons}`));
+      }
+
+      const result = await getCorrelationMatrix(
+        symbols,
+        params.interval,
+        params.outputsize,
+        params.method,
+        params.rolling_window
+      );
+      const failed = [...unresolved, ...(result.failed ?? [])];
+      const output = { ...result, ...(failed.length > 0 ? { failed } : {}) };
+
+      if (params.response_format === ResponseFormat.JSON) {
+        return {
+          content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+          structuredContent: output
+        };
+      }
+
+      return { content: [{ type: "text", text: formatCorrelationAsMarkdown(output) }] };
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+);
+
+// =============================================================================
+// Exports
+// =============================================================================
+registerResource(
+  "export",
+  new ResourceTemplate(`${EXPORT_RESOURCE_PREFIX}{name}`, {
+    list: async () => ({
+      resources: (await listExports()).map(file => ({
+        uri: `${EXPORT_RESOURCE_PREFIX}${file.name}`,
+        name: file.name,
+        description: `${file.bytes} bytes, written ${file.modified_at}`,
+        mimeType: file.mime_type
+      }))
+    })
+  }),
+  {
+    title: "Data Export",
+    description: "A time series or indicator dataset written with export: 'csv' | 'json', e.g. twelvedata://exports/XAU-USD_1h_20240105T143000Z.csv"
+  },
+  async (uri, variables) => {
+    const { text, mimeType } = await readExport(String(variables.name));
+    return { contents: [{ uri: uri.href, mimeType, text }] };
+  }
+);
+
+// =============================================================================
+// Price Streaming
+// =============================================================================
+const PRICE_RESOURCE_PREFIX = "twelvedata://price/";
+const ALERTS_RESOURCE_URI = "twelvedata://alerts";
+
+/**
+ * A connected server with the resources its client subscribed to
+ */
+interface ServerSession {
+  server: McpServer;
+  // HTTP client that opened the session; unset for stdio and open servers
+  client?: string;
+  // Resource URIs the client asked to be notified about
+  resourceSubscriptions: Set<string>;
+  lastNotifiedAt: Map<string, number>;
+  pendingNotifications: Map<string, ReturnType<typeof setTimeout>>;
+}
+
+// One per stdio connection or HTTP session, added by createServer
+const serverSessions = new Set<ServerSession>();
+
+// Owner of a session's streamed symbols; stdio has no session ID
+function streamOwner(sessionId: string | undefined): string {
+  return sessionId ?? "stdio";
+}
+
+function priceResourceUri(symbol: string): string {
+  return `${PRICE_RESOURCE_PREFIX}${symbol}`;
+}
+
+/**
+ * Build the result of a subscribe/unsubscribe call: per-symbol outcome
+ * plus the stream state
+ */
+function streamResult(items: BatchItem<{ resource: string }>[], responseFormat: ResponseFormat) {
+  const status = getStreamStatus();
+
+  if (responseFormat === ResponseFormat.JSON) {
+    const output = {
+      status,
+      results: items.map(item => item.error
+        ? { symbol: item.symbol, error: item.error }
+        : { symbol: item.symbol, resource: item.data?.resource })
+    };
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(output, null, 2) }],
+      structuredContent: output
+    };
+  }
+
+  const lines = [formatLivePricesAsMarkdown(listLivePrices(), status)];
+  const resources = items.filter(item => item.data).map(item => item.data?.resource);
+  if (resources.length > 0) {
+    lines.push(`**Resources:** ${resources.join(", ")}`);
+  }
+  const errors = items.filter(item => item.error);
+  if (errors.length > 0) {
+    lines.push(errors.map(item => `- ${item.symbol}: ${item.error?.message}`).join("\n"));
+  }
+  return { content: [{ type: "text" as const, text: lines.join("\n\n") }] };
+}
+
+/**
+ * Notify subscribed clients of a new tick, at most once per
+ * STREAM_NOTIFY_MIN_INTERVAL_MS per symbol
+ */
+onPriceUpdate((price, client) => {
+  const uri = priceResourceUri(price.symbol);
+  for (const session of serverSessions) {
+    const { server, resourceSubscriptions, lastNotifiedAt, pendingNotifications } = session;
+    if (session.client !== client || !resourceSubscriptions.has(uri) || pendingNotifications.has(uri)) continue;
+
+    const notify = () => {
+      pendingNotifications.delete(uri);
+      lastNotifiedAt.set(uri, Date.now());
+      server.server.sendResourceUpdated({ uri }).catch(() => undefined);
+    };
+    const wait = STREAM_NOTIFY_MIN_INTERVAL_MS - (Date.now() - (lastNotifiedAt.get(uri) ?? 0));
+    if (wait <= 0) {
+      notify();
+    } else {
+      pendingNotifications.set(uri, setTimeout(notify, wait));
+    }
+  }
+});
+
+registerResource(
+  "live-price",
+  new ResourceTemplate(`${PRICE_RESOURCE_PREFIX}{+symbol}`, {
+    list: async () => ({
+      resources: getStreamStatus().symbols.map(symbol => ({
+        uri: priceResourceUri(symbol),
+        name: symbol,
+        mimeType: "application/json"
+      }))
+    })
+  }),
+  {
+    title: "Live Price",
+    description: "Last streamed price for a subscribed symbol, e.g. twelvedata://price/XAU/USD. Supports resources/subscribe update notifications.",
+    mimeType: "application/json"
+  },
+  async (uri, variables) => {
+    const symbol = String(variables.symbol);
+    if (!isStreaming(symbol)) {
+      throw new BadRequestError(
+        `${symbol} is not being streamed. Subscribe with twelvedata_stream_subscribe or resources/subscribe first.`
+      );
+    }
+    const price = getLivePrice(symbol) ?? { symbol, price: null, status: "waiting for first tick" };
+    return {
+      contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(price, null, 2) }]
+    };
+  }
+);
+
+/**
+ * Let a session's client subscribe to price and alert resources
+ */
+function registerResourceSubscriptions(session: ServerSession): void {
+  session.server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+
+  // Subscribing to a price resource starts streaming its symbol
+  session.server.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+    if (uri === ALERTS_RESOURCE_URI) {
+      session.resourceSubscriptions.add(uri);
+      return {};
+    }
+    if (!uri.startsWith(PRICE_RESOURCE_PREFIX)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    const symbol = uri.slice(PRICE_RESOURCE_PREFIX.length);
+    const streaming = isStreaming(symbol);
+    subscribePrices([symbol], streamOwner(extra.sessionId));
+    if (!streaming) notifyResourceListChanged();
+    session.resourceSubscriptions.add(uri);
+    return {};
+  });
+
+  // Unsubscribing stops notifications; the symbol keeps streaming until
+  // twelvedata_stream_unsubscribe
+  session.server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    const { uri } = request.params;
+    session.resourceSubscriptions.delete(uri);
+    const pending = session.pendingNotifications.get(uri);
+    if (pending) clearTimeout(pending);
+    session.pendingNotifications.delete(uri);
+    return {};
+  });
+}
+
+// =============================================================================
+// TOOL: twelvedata_stream_subscribe
+// =============================================================================
+registerTool(
+  "twelvedata_stream_subscribe",
+  {
+    title: "Subscribe to Live Prices",
+    description: `Start streaming real-time prices for symbols over Twelve Data's WebSocket (Pro plans and above).
+
+Each streamed symbol becomes an MCP resource (twelvedata://price/{symbol}, e.g. twelvedata://price/XAU/USD) that supports resources/subscribe update notifications. The connection sends heartbeats and reconnects automatically.
+
+Args:
+  - symbols (string[]): Symbols to stream (e.g., ["XAU/USD", "EUR/USD"])
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Stream state, the resource URI for each symbol, and per-symbol errors for inputs that can't be resolved.
+  Symbols Twelve Data rejects show up under "failed" in twelvedata_stream_prices.
+
+Examples:
+  - "Watch gold and EURUSD live" -> symbols: ["XAU/USD", "EUR/USD"]`,
+    inputSchema: StreamSubscribeSchema,
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true
+    }
+  },
+  async (params: StreamSubscribeInput, extra) => {
+    try {
+      const before = getStreamStatus().symbols.length;
+      const items = await fetchResolvedBatch(params.symbols, async symbols => {
+        subscribePrices(symbols, streamOwner(extra.sessionId));
+        return symbols.map(symbol => ({ symbol, data: { resource: priceResourceUri(symbol) } }));
+      });
+      if (getStreamStatus().symbols.length !== before) notifyResourceListChanged();
+      return streamResult(items, params.response_format);
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+);
+
+// =============================================================================
+// TOOL: twelvedata_stream_unsubscribe
+// =============================================================================
+registerTool(
+  "twelvedata_stream_unsubscribe",
+  {
+    title: "Unsubscribe from Live Prices",
+    description: `Stop streaming symbols for this session. Symbols another session streams keep streaming; the WebSocket closes once no session streams any symbol.
+
+Args:
+  - symbols (string[], optional): Symbols to stop streaming (omit to stop all of this session's symbols)
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Stream state after the change.`,
+    inputSchema: StreamUnsubscribeSchema,
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async (params: StreamUnsubscribeInput, extra) => {
+    try {
+      const owner = streamOwner(extra.sessionId);
+      let items: BatchItem<{ resource: string }>[];
+      if (params.symbols) {
+        items = await fetchResolvedBatch(params.symbols, async symbols => {
+          unsubscribePrices(symbols, owner);
+          return symbols.map(symbol => ({ symbol, data: { resource: priceResourceUri(symbol) } }));
+        });
+      } else {
+        items = getSessionSymbols(owner).map(symbol => ({ symbol, data: { resource: priceResourceUri(symbol) } }));
+        releasePrices(owner);
+      }
+      notifyResourceListChanged();
+      return streamResult(items, params.response_format);
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+);
+
+// =============================================================================
+// TOOL: twelvedata_stream_prices
+// =============================================================================
+registerTool(
+  "twelvedata_stream_prices",
+  {
+    title: "Get Live Prices",
+    description: `Read the latest streamed prices from the live price table. Makes no API call.
+
+Subscribe first with twelvedata_stream_subscribe.
+
+Args:
+  - symbols (string[], optional): Streamed symbols to show (default: all subscribed)
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Last price, tick time and exchange per symbol, plus the connection state (open, reconnecting, ...), reconnect count and symbols Twelve Data rejected.`,
+    inputSchema: GetLivePricesSchema,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false
+    }
+  },
+  async (params: GetLivePricesInput) => {
+    try {
+      const status = getStreamStatus();
+      const wanted = params.symbols ? new Set(params.symbols.map(s => s.toUpperCase())) : undefined;
+      const prices = listLivePrices().filter(price => !wanted || wanted.has(price.symbol.toUpperCase()));
+
+      if (params.response_format === ResponseFormat.JSON) {
+        const output = { status, prices };
+        return {
+          content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+          structuredContent: output
+        };
+      }
+
+      return { content: [{ type: "text", text: formatLivePricesAsMarkdown(prices, status) }] };
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+);
+
+// =============================================================================
+// Price Alerts
+// =============================================================================
+
+/**
+ * Tell a client's sessions subscribed to the alerts resource that it changed
+ */
+function notifyAlertsChanged(client = getClientScope()): void {
+  for (const session of serverSessions) {
+    if (session.client === client && session.resourceSubscriptions.has(ALERTS_RESOURCE_URI)) {
+      session.server.server.sendResourceUpdated({ uri: ALERTS_RESOURCE_URI }).catch(() => undefined);
+    }
+  }
+}
+
+// Triggered alerts go out to their client's sessions as a log message and
+// an alerts resource update
+onAlertTriggered(alert => {
+  for (const { server, client } of serverSessions) {
+    if (client !== alert.client) continue;
+    server.sendLoggingMessage({
+      level: "notice",
+      logger: "twelvedata-alerts",
+      data: { event: "alert.triggered", alert }
+    }).catch(() => undefined);
+  }
+  notifyAlertsChanged(alert.client);
+});
+
+registerResource(
+  "alerts",
+  ALERTS_RESOURCE_URI,
+  {
+    title: "Price Alerts",
+    description: "All stored price alerts with their status. Supports resources/subscribe; an update is sent when an alert triggers.",
+    mimeType: "application/json"
+  },
+  async uri => ({
+    contents: [{
+      uri: uri.href,
+      mimeType: "application/json",
+      text: JSON.stringify({ alerts: await listAlerts(), poller: getAlertPollerStatus() }, null, 2)
+    }]
+  })
+);
+
+// =============================================================================
+// TOOL: twelvedata_create_alert
+// =============================================================================
+registerTool(
+  "twelvedata_create_alert",
+  {
+    title: "Create Price Alert",
+    description: `Create an alert that a background poller checks against live prices, e.g. "tell me when gold crosses 2400".
+
+Alerts are stored on disk and survive restarts. When one triggers the server sends an MCP log message (logger "twelvedata-alerts"), updates the twelvedata://alerts resource, and POSTs to TWELVEDATA_ALERT_WEBHOOK_URL when configured. Each alert fires once.
+
+Args:
+  - symbol (string): Symbol to watch
+  - condition (object): One of
+    - { type: "price_above" | "price_below", price }
+    - { type: "percent_change", percent, window_minutes (default: 60), direction: "up" | "down" | "either" (default) }
+    - { type: "rsi_above" | "rsi_below", value, interval (default: "1h"), time_period (default: 14) }
+  - note (string, optional): Text included in the notification
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  The stored alert with its ID.
+
+Polling runs every TWELVEDATA_ALERT_POLL_SECONDS (default 60). Prices for all alerts share one batch request; each RSI alert costs one indicator request. A poll is skipped when it would leave fewer than 2 credits for other calls. Price alerts fire when the price crosses the level between two polls; the first poll only records the starting price. Percent-change alerts start evaluating once the poller has watched the symbol for a full window.
+
+Examples:
+  - "Tell me when gold crosses 2400" -> symbol: "XAU/USD", condition: { type: "price_above", price: 2400 }
+  - "Alert if BTC drops 3% in an hour" -> symbol: "BTC/USD", condition: { type: "percent_change", percent: 3, window_minutes: 60, direction: "down" }
+  - "Warn me when EURUSD RSI goes over 70" -> symbol: "EUR/USD", condition: { type: "rsi_above", value: 70 }`,
+    inputSchema: CreateAlertSchema,
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true
+    }
+  },
+  async (params: CreateAlertInput) => {
+    try {
+      const resolution = await resolveSymbol(params.symbol);
+      if (!resolution.symbol) return ambiguousSymbolResult(resolution);
+
+      const alert = await createAlert(resolution.symbol, params.condition, params.note);
+      notifyAlertsChanged();
+
+      if (params.response_format === ResponseFormat.JSON) {
+        const output = { ...alert, ...resolutionFields(resolution) };
+        return {
+          content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+          structuredContent: output
         };
       }
-      
-      const markdown = formatIndicatorAsMarkdown(data, params.indicator);
+
+      const markdown = [
+        formatResolutionNote(resolution),
+        `Created alert **${alert.id}**: ${alert.symbol} ${formatAlertCondition(alert.condition)}`,
+        `*Checked every ${getAlertPollerStatus().interval_seconds}s. Delete with twelvedata_delete_alert.*`
+      ].filter(Boolean).join("\n\n");
       return { content: [{ type: "text", text: markdown }] };
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Unknown error";
+      return errorResult(error);
+    }
+  }
+);
+
+// =============================================================================
+// TOOL: twelvedata_list_alerts
+// =============================================================================
+registerTool(
+  "twelvedata_list_alerts",
+  {
+    title: "List Price Alerts",
+    description: `List stored price alerts with their status, last checked value and trigger time. Makes no API call.
+
+Args:
+  - status ('active' | 'triggered' | 'all'): Which alerts to list (default: 'all')
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Alerts plus the poller state (interval, last poll, and why a poll was skipped if the credit budget was too low).`,
+    inputSchema: ListAlertsSchema,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async (params: ListAlertsInput) => {
+    try {
+      const alerts = await listAlerts(params.status);
+      const poller = getAlertPollerStatus();
+
+      if (params.response_format === ResponseFormat.JSON) {
+        const output = { count: alerts.length, alerts, poller };
+        return {
+          content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+          structuredContent: output
+        };
+      }
+
+      return { content: [{ type: "text", text: formatAlertsAsMarkdown(alerts, poller) }] };
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+);
+
+// =============================================================================
+// TOOL: twelvedata_delete_alert
+// =============================================================================
+registerTool(
+  "twelvedata_delete_alert",
+  {
+    title: "Delete Price Alert",
+    description: `Delete a stored price alert, active or triggered.
+
+Args:
+  - id (string): Alert ID from twelvedata_create_alert or twelvedata_list_alerts
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  The deleted alert.`,
+    inputSchema: DeleteAlertSchema,
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: false
+    }
+  },
+  async (params: DeleteAlertInput) => {
+    try {
+      const alert = await deleteAlert(params.id);
+      notifyAlertsChanged();
+
+      if (params.response_format === ResponseFormat.JSON) {
+        const output = { deleted: alert };
+        return {
+          content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+          structuredContent: output
+        };
+      }
+
       return {
-        isError: true,
-        content: [{ type: "text", text: `Error: ${message}. Note: Some indicators require paid plans.` }]
+        content: [{
+          type: "text",
+          text: `Deleted alert **${alert.id}**: ${alert.symbol} ${formatAlertCondition(alert.condition)}`
+        }]
       };
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+);
+
+// =============================================================================
+// Watchlists
+// =============================================================================
+const WATCHLIST_RESOURCE_PREFIX = "twelvedata://watchlist/";
+
+registerResource(
+  "watchlist",
+  new ResourceTemplate(`${WATCHLIST_RESOURCE_PREFIX}{name}`, {
+    list: async () => ({
+      resources: (await listWatchlists()).map(watchlist => ({
+        uri: `${WATCHLIST_RESOURCE_PREFIX}${watchlist.name}`,
+        name: watchlist.name,
+        description: watchlist.symbols.join(", "),
+        mimeType: "application/json"
+      }))
+    })
+  }),
+  {
+    title: "Watchlist",
+    description: "A saved watchlist's symbols, e.g. twelvedata://watchlist/metals. Use twelvedata_watchlist_quotes for prices.",
+    mimeType: "application/json"
+  },
+  async (uri, variables) => {
+    const watchlist = await getWatchlist(String(variables.name));
+    return {
+      contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(watchlist, null, 2) }]
+    };
+  }
+);
+
+// =============================================================================
+// TOOL: twelvedata_save_watchlist
+// =============================================================================
+registerTool(
+  "twelvedata_save_watchlist",
+  {
+    title: "Save Watchlist",
+    description: `Create or update a named watchlist stored on the server, so a group of symbols ("metals", "g10-fx", "crypto-majors") doesn't have to be listed in every prompt.
+
+Args:
+  - name (string): Watchlist name (letters, digits, '-' and '_'; case-insensitive)
+  - symbols (string[]): Symbols or common names (resolved before saving)
+  - mode ('replace' | 'add' | 'remove'): 'replace' (default) sets the list and creates it if needed; 'add' appends; 'remove' drops symbols
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  The saved watchlist. Inputs that can't be resolved are reported and left out.
+
+Examples:
+  - "Save metals: gold, silver, platinum" -> name: "metals", symbols: ["gold", "silver", "platinum"]
+  - "Add SOL to crypto-majors" -> name: "crypto-majors", symbols: ["SOL/USD"], mode: "add"`,
+    inputSchema: SaveWatchlistSchema,
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true
+    }
+  },
+  async (params: SaveWatchlistInput) => {
+    try {
+      const items = await fetchResolvedBatch(params.symbols, async symbols =>
+        symbols.map(symbol => ({ symbol, data: symbol }))
+      );
+      const resolved = items.flatMap(item => (item.data ? [item.data] : []));
+      const errors = items.filter(item => item.error);
+      if (resolved.length === 0 && params.mode !== "remove") {
+        return errorResult(new BadRequestError(
+          `None of the symbols could be resolved: ${errors.map(item => `${item.symbol} (${item.error?.message})`).join("; ")}`
+        ));
+      }
+
+      const watchlist = await saveWatchlist(params.name, resolved, params.mode);
+      notifyResourceListChanged();
+
+      if (params.response_format === ResponseFormat.JSON) {
+        const output = {
+          ...watchlist,
+          ...(errors.length > 0 ? { unresolved: errors.map(item => ({ input: item.symbol, error: item.error })) } : {})
+        };
+        return {
+          content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+          structuredContent: output
+        };
+      }
+
+      const lines = [
+        `Saved watchlist **${watchlist.name}** (${watchlist.symbols.length} symbols): ${watchlist.symbols.join(", ") || "-"}`
+      ];
+      if (errors.length > 0) {
+        lines.push(`Not added:\n${errors.map(item => `- ${item.symbol}: ${item.error?.message}`).join("\n")}`);
+      }
+      return { content: [{ type: "text", text: lines.join("\n\n") }] };
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+);
+
+// =============================================================================
+// TOOL: twelvedata_list_watchlists
+// =============================================================================
+registerTool(
+  "twelvedata_list_watchlists",
+  {
+    title: "List Watchlists",
+    description: `List saved watchlists and their symbols. Makes no API call.
+
+A "popular" list of common metals, forex and crypto symbols is created on first use.
+
+Args:
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Name, symbols and last update time for each watchlist.`,
+    inputSchema: ListWatchlistsSchema,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async (params: ListWatchlistsInput) => {
+    try {
+      const watchlists = await listWatchlists();
+
+      if (params.response_format === ResponseFormat.JSON) {
+        const output = { count: watchlists.length, watchlists };
+        return {
+          content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+          structuredContent: output
+        };
+      }
+
+      return { content: [{ type: "text", text: formatWatchlistsAsMarkdown(watchlists) }] };
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+);
+
+// =============================================================================
+// TOOL: twelvedata_delete_watchlist
+// =============================================================================
+registerTool(
+  "twelvedata_delete_watchlist",
+  {
+    title: "Delete Watchlist",
+    description: `Delete a saved watchlist.
+
+Args:
+  - name (string): Watchlist name
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  The deleted watchlist.`,
+    inputSchema: DeleteWatchlistSchema,
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: false
+    }
+  },
+  async (params: DeleteWatchlistInput) => {
+    try {
+      const watchlist = await deleteWatchlist(params.name);
+      notifyResourceListChanged();
+
+      if (params.response_format === ResponseFormat.JSON) {
+        const output = { deleted: watchlist };
+        return {
+          content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+          structuredContent: output
+        };
+      }
+
+      return { content: [{ type: "text", text: `Deleted watchlist **${watchlist.name}**.` }] };
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+);
+
+// =============================================================================
+// TOOL: twelvedata_watchlist_quotes
+// =============================================================================
+registerTool(
+  "twelvedata_watchlist_quotes",
+  {
+    title: "Get Watchlist Quotes",
+    description: `Get quotes for every symbol in a saved watchlist as one compact table.
+
+Args:
+  - name (string): Watchlist name
+  - sort ('none' | 'percent_change_desc' | 'percent_change_asc' | 'symbol'): Row order (default: 'none', the list order). 'percent_change_desc' puts top gainers first, 'percent_change_asc' top losers.
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Price, change, percent change, day range and market state per symbol. Symbols that fail are listed with their error.
+  Costs one credit per symbol (one batch request); cached quotes are free.
+
+Examples:
+  - "How are my metals doing?" -> name: "metals"
+  - "Biggest movers in g10-fx today" -> name: "g10-fx", sort: "percent_change_desc"`,
+    inputSchema: WatchlistQuotesSchema,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true
+    }
+  },
+  async (params: WatchlistQuotesInput) => {
+    try {
+      const watchlist = await getWatchlist(params.name);
+      if (watchlist.symbols.length === 0) {
+        if (params.response_format === ResponseFormat.JSON) {
+          const output = { name: watchlist.name, quotes: [] };
+          return {
+            content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+            structuredContent: output
+          };
+        }
+        return { content: [{ type: "text", text: `Watchlist **${watchlist.name}** is empty.` }] };
+      }
+
+      const items = sortQuoteItems(await getQuotes(watchlist.symbols), params.sort);
+      return batchResult(
+        items,
+        params.response_format,
+        item => item,
+        page => formatWatchlistQuotesAsMarkdown(watchlist.name, page)
+      );
+    } catch (error) {
+      return errorResult(error);
     }
   }
 );
@@ -461,67 +2634,278 @@ Examples:
 // Transport Handlers
 // =============================================================================
 
+/**
+ * Startup line for TWELVEDATA_MODE; reading it also rejects an unknown mode
+ */
+function modeNotice(): string {
+  switch (getClientMode()) {
+    case "record": return `Mode: record (saving responses to ${getFixturesDir()})`;
+    case "replay": return `Mode: replay (serving responses from ${getFixturesDir()})`;
+    case "mock": return "Mode: mock (synthetic data, no network)";
+    default: return "Ensure TWELVEDATA_API_KEY environment variable is set";
+  }
+}
+
+/**
+ * Data provider setup, unless it's the default (Twelve Data only).
+ * Reading it here also rejects a misconfigured provider list at startup.
+ */
+function providerNotice(): string | undefined {
+  const primary = getPrimaryProvider().name;
+  const fallbacks = getFallbackProviders().map(provider => provider.name);
+  if (primary === "twelvedata" && fallbacks.length === 0) return undefined;
+  return fallbacks.length > 0
+    ? `Data provider: ${primary}, failing over to ${fallbacks.join(", ")} on ${getFailoverErrors().join(", ")}`
+    : `Data provider: ${primary}`;
+}
+
 async function runStdio(): Promise<void> {
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
+  startAlertPoller();
   console.error("Twelve Data MCP Server running on stdio");
-  console.error("Ensure TWELVEDATA_API_KEY environment variable is set");
+  console.error(modeNotice());
+  const providers = providerNotice();
+  if (providers) console.error(providers);
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  lastSeen: number;
+  // Open GET streams; a session listening for notifications is not idle
+  openStreams: number;
+  // Name of the authenticated client that opened it
+  client?: string;
+}
+
+interface SseSession {
+  transport: SSEServerTransport;
+  client?: string;
+}
+
+function getSessionIdleSeconds(): number {
+  const value = Number(process.env.TWELVEDATA_SESSION_IDLE_SECONDS);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_SESSION_IDLE_SECONDS;
+}
+
+function sendJsonRpcError(res: Response, status: number, message: string, code: ErrorCode = ErrorCode.InvalidRequest): void {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code, message },
+    id: null
+  });
+}
+
+/**
+ * Express 4 doesn't catch a rejected async handler, which would leave the
+ * request hanging. Log the error and answer 500 unless a response started.
+ */
+function handleErrors(handler: (req: Request, res: Response) => Promise<void>): RequestHandler {
+  return async (req, res) => {
+    try {
+      await handler(req, res);
+    } catch (error) {
+      log("error", "http.request_failed", {
+        method: req.method,
+        path: req.path,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      if (!res.headersSent) sendJsonRpcError(res, 500, "Internal server error", ErrorCode.InternalError);
+    }
+  };
+}
+
+function requestClient(res: Response): HttpClient | undefined {
+  return res.locals.client as HttpClient | undefined;
 }
 
 async function runHTTP(): Promise<void> {
+  const httpClients = getHttpClients();
+  const corsOrigins = getCorsOrigins();
+
   const app = express();
-  app.use(cors());
+  app.use(cors({
+    origin: corsOrigins.includes("*") ? true : corsOrigins,
+    exposedHeaders: ["Mcp-Session-Id"]
+  }));
   app.use(express.json());
 
-  // Health check
-  app.get("/health", (_req, res) => {
-    res.json({ status: "ok", server: "twelvedata-mcp-server" });
+  // Streamable HTTP sessions by Mcp-Session-Id, each with its own server
+  const sessions = new Map<string, HttpSession>();
+  // SSE transport for n8n compatibility
+  const sseTransports = new Map<string, SseSession>();
+
+  // Once clients are configured, MCP routes need a bearer token or X-API-Key
+  const requireClient: RequestHandler = (req, res, next) => {
+    if (httpClients.length === 0) {
+      next();
+      return;
+    }
+    const client = authenticateClient(req.header("authorization"), req.header("x-api-key"));
+    if (!client) {
+      res.set("WWW-Authenticate", "Bearer");
+      sendJsonRpcError(res, 401, "Missing or invalid token. Send Authorization: Bearer <token> or X-API-Key: <token>.");
+      return;
+    }
+    res.locals.client = client;
+    next();
+  };
+  app.use(["/mcp", "/sse", "/messages"], requireClient);
+
+  // Health check. With ?ready it is a readiness check: 503 unless every
+  // request has an API key and Twelve Data is reachable.
+  app.get("/health", handleErrors(async (req, res) => {
+    const sessionCounts = { streamable_http: sessions.size, sse: sseTransports.size };
+    if (req.query.ready === undefined) {
+      res.json({ status: "ok", server: "twelvedata-mcp-server", sessions: sessionCounts });
+      return;
+    }
+    const readiness = await checkReadiness();
+    res.status(readiness.status === "ready" ? 200 : 503).json({
+      ...readiness,
+      server: "twelvedata-mcp-server",
+      sessions: sessionCounts
+    });
+  }));
+
+  // Prometheus metrics
+  registerGauge("twelvedata_http_sessions", "Open Streamable HTTP sessions", () => sessions.size);
+  registerGauge("twelvedata_sse_sessions", "Open SSE connections", () => sseTransports.size);
+  app.get("/metrics", (_req, res) => {
+    res.type("text/plain; version=0.0.4").send(renderMetrics());
   });
 
-  // MCP endpoint (Streamable HTTP)
-  app.post("/mcp", async (req, res) => {
+  /**
+   * Session named by the Mcp-Session-Id header. Responds 400 without the
+   * header, 404 for an unknown or expired session and 403 for another
+   * client's session.
+   */
+  const findSession = (sessionId: string | undefined, res: Response): HttpSession | undefined => {
+    if (!sessionId) {
+      sendJsonRpcError(res, 400, "Missing Mcp-Session-Id header");
+      return undefined;
+    }
+    const session = sessions.get(sessionId);
+    if (!session) {
+      sendJsonRpcError(res, 404, "Session not found or expired. Send a new initialize request.");
+      return undefined;
+    }
+    if (session.client !== requestClient(res)?.name) {
+      sendJsonRpcError(res, 403, "Session belongs to another client");
+      return undefined;
+    }
+    session.lastSeen = Date.now();
+    return session;
+  };
+
+  // MCP endpoint (Streamable HTTP): initialize opens a session, later
+  // requests carry its Mcp-Session-Id
+  app.post("/mcp", handleErrors(async (req, res) => {
+    const sessionId = req.header("mcp-session-id");
+    if (sessionId || !isInitializeRequest(req.body)) {
+      const session = findSession(sessionId, res);
+      if (session) {
+        await runAsClient(requestClient(res), () => session.transport.handleRequest(req, res, req.body));
+      }
+      return;
+    }
+
+    const newSessionId = randomUUID();
+    const server = createServer(newSessionId, requestClient(res)?.name);
     const transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined,
-      enableJsonResponse: true
+      sessionIdGenerator: () => newSessionId,
+      enableJsonResponse: true,
+      onsessioninitialized: id => {
+        sessions.set(id, { transport, server, lastSeen: Date.now(), openStreams: 0, client: requestClient(res)?.name });
+      }
     });
-    res.on("close", () => transport.close());
-    await server.connect(transport);
-    await transport.handleRequest(req, res, req.body);
-  });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+    try {
+      await server.connect(transport);
+      await runAsClient(requestClient(res), () => transport.handleRequest(req, res, req.body));
+    } finally {
+      // A failed initialize never opens the session; closing the server
+      // drops it from serverSessions
+      if (!sessions.has(newSessionId)) await server.close().catch(() => undefined);
+    }
+  }));
 
-  // SSE transport for n8n compatibility
-  const sseTransports = new Map<string, SSEServerTransport>();
+  // Server-to-client stream for notifications outside a request
+  app.get("/mcp", handleErrors(async (req, res) => {
+    const session = findSession(req.header("mcp-session-id"), res);
+    if (!session) return;
+    session.openStreams++;
+    res.on("close", () => {
+      session.openStreams--;
+      session.lastSeen = Date.now();
+    });
+    await runAsClient(requestClient(res), () => session.transport.handleRequest(req, res));
+  }));
+
+  // Ends the session
+  app.delete("/mcp", handleErrors(async (req, res) => {
+    const session = findSession(req.header("mcp-session-id"), res);
+    if (session) await runAsClient(requestClient(res), () => session.transport.handleRequest(req, res));
+  }));
+
+  // Close sessions whose client went away without a DELETE
+  const idleMs = getSessionIdleSeconds() * 1000;
+  setInterval(() => {
+    const cutoff = Date.now() - idleMs;
+    for (const [id, session] of sessions) {
+      if (session.openStreams > 0 || session.lastSeen >= cutoff) continue;
+      sessions.delete(id);
+      session.server.close().catch(() => undefined);
+    }
+  }, SESSION_SWEEP_INTERVAL_MS).unref();
 
-  app.get("/sse", async (req, res) => {
+  app.get("/sse", handleErrors(async (_req, res) => {
     const transport = new SSEServerTransport("/messages", res);
-    sseTransports.set(transport.sessionId, transport);
+    const server = createServer(transport.sessionId, requestClient(res)?.name);
+    sseTransports.set(transport.sessionId, { transport, client: requestClient(res)?.name });
 
     res.on("close", () => {
       sseTransports.delete(transport.sessionId);
+      server.close().catch(() => undefined);
     });
 
     await server.connect(transport);
     // Note: connect() automatically calls start(), don't call it again
-  });
+  }));
 
-  app.post("/messages", async (req, res) => {
+  app.post("/messages", handleErrors(async (req, res) => {
     const sessionId = req.query.sessionId as string;
-    const transport = sseTransports.get(sessionId);
+    const session = sseTransports.get(sessionId);
 
-    if (!transport) {
+    if (!session) {
       res.status(400).json({ error: "Invalid or expired session" });
       return;
     }
+    if (session.client !== requestClient(res)?.name) {
+      res.status(403).json({ error: "Session belongs to another client" });
+      return;
+    }
 
-    await transport.handlePostMessage(req, res);
-  });
+    await runAsClient(requestClient(res), () => session.transport.handlePostMessage(req, res, req.body));
+  }));
 
   const port = parseInt(process.env.PORT || "3000");
+  const providers = providerNotice();
+  startAlertPoller();
   app.listen(port, () => {
     console.error(`Twelve Data MCP Server running on http://localhost:${port}`);
-    console.error(`  - Streamable HTTP: POST /mcp`);
+    console.error(`  - Streamable HTTP: POST/GET/DELETE /mcp (sessions idle ${getSessionIdleSeconds()}s are closed)`);
     console.error(`  - SSE: GET /sse, POST /messages`);
-    console.error("Ensure TWELVEDATA_API_KEY environment variable is set");
+    console.error(`  - Health: GET /health, GET /health?ready; metrics: GET /metrics`);
+    console.error(httpClients.length > 0
+      ? `  - Auth: ${httpClients.length} client token(s)`
+      : "  - Auth: off (set TWELVEDATA_HTTP_AUTH_TOKENS or TWELVEDATA_HTTP_CLIENTS_FILE)");
+    console.error(`  - CORS origins: ${corsOrigins.length > 0 ? corsOrigins.join(", ") : "none"}`);
+    console.error(modeNotice());
+    if (providers) console.error(providers);
   });
 }
 
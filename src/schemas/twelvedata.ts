@@ -1,27 +1,98 @@
 import { z } from "zod";
-import { ResponseFormat, SUPPORTED_INTERVALS } from "../constants.js";
+import {
+  ResponseFormat,
+  SUPPORTED_INTERVALS,
+  SUPPORTED_INDICATORS,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  DEFAULT_BACKFILL_MAX_REQUESTS,
+  MAX_BACKFILL_REQUESTS
+} from "../constants.js";
 
 // Response format enum
-const responseFormat = z.nativeEnum(ResponseFormat)
+const responseFormat = z.enum([ResponseFormat.MARKDOWN, ResponseFormat.JSON])
   .default(ResponseFormat.MARKDOWN)
   .describe("Output format: 'markdown' for human-readable or 'json' for structured data");
 
-// Symbol validation - accepts forex pairs (EUR/USD), metals (XAU/USD), crypto (BTC/USD), stocks (AAPL)
+// Row data (time series, indicators) can also come back as CSV
+const seriesResponseFormat = z.nativeEnum(ResponseFormat)
+  .default(ResponseFormat.MARKDOWN)
+  .describe("Output format: 'markdown' for human-readable, 'json' for structured data or 'csv' for rows to load into pandas or a spreadsheet");
+
+// Writing the full result to a file instead of returning it inline
+const exportSchema = z.enum(["csv", "json"])
+  .optional()
+  .describe("Write every row to a file in the export directory and return a twelvedata://exports/... resource link instead of inline data");
+
+// Symbol validation - accepts forex pairs (EUR/USD), metals (XAU/USD), crypto (BTC/USD), stocks (AAPL),
+// slashless pairs (XAUUSD) and common names (gold, bitcoin) which the symbol resolver maps to API symbols
 const symbolSchema = z.string()
   .min(1)
-  .max(20)
-  .describe("Trading symbol (e.g., XAU/USD, EUR/USD, BTC/USD, AAPL)");
+  .max(50)
+  .describe("Trading symbol or common name (e.g., XAU/USD, XAUUSD, gold, EUR/USD, BTC/USD, AAPL)");
 
 // Interval validation
 const intervalSchema = z.enum(SUPPORTED_INTERVALS)
   .describe("Time interval for data (e.g., 1min, 5min, 15min, 1h, 1day)");
 
+// Any "<n><unit>" interval; ones Twelve Data doesn't offer are resampled locally
+const seriesIntervalSchema = z.string()
+  .regex(
+    /^[1-9]\d{0,3}(min|h|day|week|month)$/,
+    "Interval must be <n><unit> with unit min, h, day, week or month (e.g., 3h, 10min, 2day, 3month)"
+  )
+  .describe("Candle interval as <n><unit> (e.g., 1h, 3h, 10min, 2day, 3month)");
+
 // Date validation (YYYY-MM-DD)
 const dateSchema = z.string()
   .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
   .optional()
   .describe("Date in YYYY-MM-DD format");
 
+// Date or exchange-local datetime (YYYY-MM-DD or YYYY-MM-DD HH:mm[:ss])
+const dateTimeSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}( \d{2}:\d{2}(:\d{2})?)?$/, "Date must be YYYY-MM-DD or YYYY-MM-DD HH:mm:ss")
+  .describe("Date (YYYY-MM-DD) or datetime (YYYY-MM-DD HH:mm:ss)");
+
+// Time zone for dates in and datetimes out; Twelve Data uses the exchange's by default
+const timezoneSchema = z.string()
+  .refine(value => {
+    if (value === "Exchange") return true;
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: value });
+      return true;
+    } catch {
+      return false;
+    }
+  }, "Timezone must be 'Exchange', 'UTC' or an IANA name such as America/New_York")
+  .optional()
+  .describe("Time zone for start/end dates and returned datetimes: 'Exchange' (default), 'UTC' or an IANA name such as 'America/New_York'");
+
+// Pagination for list results
+const limitSchema = z.number()
+  .int()
+  .min(1)
+  .max(MAX_PAGE_SIZE)
+  .default(DEFAULT_PAGE_SIZE)
+  .describe(`Maximum number of results to return (1-${MAX_PAGE_SIZE}, default: ${DEFAULT_PAGE_SIZE})`);
+
+const offsetSchema = z.number()
+  .int()
+  .min(0)
+  .default(0)
+  .describe("Number of results to skip, for paging (default: 0)");
+
+// Paging through a large time series or indicator result
+const rowOffsetSchema = z.number()
+  .int()
+  .min(0)
+  .default(0)
+  .describe("Number of rows to skip when paging through a large result (default: 0)");
+
+const cursorSchema = z.string()
+  .optional()
+  .describe("Cursor from a previous truncated response; serves the next page from the stored result without calling the API again");
+
 // =============================================================================
 // Schema: Get Price
 // =============================================================================
@@ -44,29 +115,168 @@ export const GetQuoteSchema = z.object({
 
 export type GetQuoteInput = z.infer<typeof GetQuoteSchema>;
 
+// =============================================================================
+// Schema: Get Prices / Get Quotes (batch)
+// =============================================================================
+const symbolsSchema = z.array(symbolSchema)
+  .min(1)
+  .max(120)
+  .describe("List of symbols fetched in one request (e.g., [\"XAU/USD\", \"EUR/USD\", \"BTC/USD\"])");
+
+export const GetPricesSchema = z.object({
+  symbols: symbolsSchema,
+  response_format: responseFormat
+}).strict();
+
+export type GetPricesInput = z.infer<typeof GetPricesSchema>;
+
+export const GetQuotesSchema = z.object({
+  symbols: symbolsSchema,
+  response_format: responseFormat
+}).strict();
+
+export type GetQuotesInput = z.infer<typeof GetQuotesSchema>;
+
+// =============================================================================
+// Schema: Symbol Search
+// =============================================================================
+export const SymbolSearchSchema = z.object({
+  query: z.string()
+    .min(1)
+    .max(100)
+    .describe("Symbol or instrument name to search for (e.g., \"Apple\", \"gold\", \"EUR\")"),
+  outputsize: z.number()
+    .int()
+    .min(1)
+    .max(120)
+    .default(30)
+    .describe("Maximum number of matches (1-120, default: 30)"),
+  response_format: responseFormat
+}).strict();
+
+export type SymbolSearchInput = z.infer<typeof SymbolSearchSchema>;
+
 // =============================================================================
 // Schema: Get Time Series
 // =============================================================================
 export const GetTimeSeriesSchema = z.object({
   symbol: symbolSchema
     .describe("Symbol for time series data"),
-  interval: intervalSchema
+  interval: seriesIntervalSchema
     .default("1day")
-    .describe("Candle interval (1min, 5min, 15min, 30min, 1h, 4h, 1day, 1week)"),
+    .describe("Candle interval: 1min, 5min, 15min, 30min, 45min, 1h, 2h, 4h, 8h, 1day, 1week, 1month, or any other <n><unit> (e.g., 3h, 10min, 2day, 3month) resampled locally"),
   outputsize: z.number()
     .int()
     .min(1)
     .max(5000)
     .default(30)
     .describe("Number of data points to return (1-5000, default: 30)"),
+  start_date: dateTimeSchema
+    .optional()
+    .describe("Start of the range (YYYY-MM-DD or YYYY-MM-DD HH:mm:ss)"),
+  end_date: dateTimeSchema
+    .optional()
+    .describe("End of the range (YYYY-MM-DD or YYYY-MM-DD HH:mm:ss)"),
+  timezone: timezoneSchema,
+  offset: rowOffsetSchema,
+  cursor: cursorSchema,
+  export: exportSchema,
+  response_format: seriesResponseFormat
+}).strict();
+
+export type GetTimeSeriesInput = z.infer<typeof GetTimeSeriesSchema>;
+
+// =============================================================================
+// Schema: Backfill Time Series
+// =============================================================================
+export const BackfillTimeSeriesSchema = z.object({
+  symbol: symbolSchema
+    .describe("Symbol to backfill"),
+  interval: intervalSchema
+    .describe("Candle interval (1min, 5min, 15min, 30min, 45min, 1h, 2h, 4h, 8h, 1day, 1week, 1month)"),
+  start_date: dateTimeSchema
+    .describe("Start of the range (YYYY-MM-DD or YYYY-MM-DD HH:mm:ss)"),
+  end_date: dateTimeSchema
+    .optional()
+    .describe("End of the range (YYYY-MM-DD or YYYY-MM-DD HH:mm:ss, default: now)"),
+  timezone: timezoneSchema,
+  max_requests: z.number()
+    .int()
+    .min(1)
+    .max(MAX_BACKFILL_REQUESTS)
+    .default(DEFAULT_BACKFILL_MAX_REQUESTS)
+    .describe(`Most time series requests to spend, 5000 bars and one credit each (1-${MAX_BACKFILL_REQUESTS}, default: ${DEFAULT_BACKFILL_MAX_REQUESTS})`),
+  offset: rowOffsetSchema,
+  cursor: cursorSchema,
+  export: exportSchema,
+  response_format: seriesResponseFormat
+}).strict();
+
+export type BackfillTimeSeriesInput = z.infer<typeof BackfillTimeSeriesSchema>;
+
+// =============================================================================
+// Schema: Candle Store
+// =============================================================================
+export const CandleStoreCoverageSchema = z.object({
+  symbol: symbolSchema
+    .optional()
+    .describe("Only show this symbol"),
+  interval: intervalSchema
+    .optional()
+    .describe("Only show this interval"),
+  response_format: responseFormat
+}).strict();
+
+export type CandleStoreCoverageInput = z.infer<typeof CandleStoreCoverageSchema>;
+
+export const PurgeCandleStoreSchema = z.object({
+  symbol: symbolSchema
+    .optional()
+    .describe("Only purge this symbol"),
+  interval: intervalSchema
+    .optional()
+    .describe("Only purge this interval"),
+  all: z.boolean()
+    .default(false)
+    .describe("Confirm purging every stored series; required when neither symbol nor interval is given"),
+  response_format: responseFormat
+}).strict();
+
+export type PurgeCandleStoreInput = z.infer<typeof PurgeCandleStoreSchema>;
+
+// =============================================================================
+// Schema: Analyze Series
+// =============================================================================
+export const AnalyzeSeriesSchema = z.object({
+  symbol: symbolSchema
+    .describe("Symbol to analyze"),
+  interval: intervalSchema
+    .default("1day")
+    .describe("Candle interval (1min, 5min, 15min, 30min, 1h, 4h, 1day, 1week)"),
+  outputsize: z.number()
+    .int()
+    .min(2)
+    .max(5000)
+    .default(250)
+    .describe("Number of candles to analyze (2-5000, default: 250)"),
   start_date: dateSchema
-    .describe("Start date for historical data (YYYY-MM-DD)"),
+    .describe("Start date for the analysis window (YYYY-MM-DD)"),
   end_date: dateSchema
-    .describe("End date for historical data (YYYY-MM-DD)"),
+    .describe("End date for the analysis window (YYYY-MM-DD)"),
+  atr_period: z.number()
+    .int()
+    .min(1)
+    .max(200)
+    .default(14)
+    .describe("Period for the average true range (default: 14)"),
+  periods_per_year: z.number()
+    .positive()
+    .optional()
+    .describe("Bars per year for annualizing volatility (default depends on interval, e.g. 252 for 1day)"),
   response_format: responseFormat
 }).strict();
 
-export type GetTimeSeriesInput = z.infer<typeof GetTimeSeriesSchema>;
+export type AnalyzeSeriesInput = z.infer<typeof AnalyzeSeriesSchema>;
 
 // =============================================================================
 // Schema: Convert Currency
@@ -103,6 +313,8 @@ export type GetExchangeRateInput = z.infer<typeof GetExchangeRateSchema>;
 // Schema: List Commodities
 // =============================================================================
 export const ListCommoditiesSchema = z.object({
+  limit: limitSchema,
+  offset: offsetSchema,
   response_format: responseFormat
 }).strict();
 
@@ -118,38 +330,460 @@ export const ListForexPairsSchema = z.object({
   currency_quote: z.string()
     .optional()
     .describe("Filter by quote currency (e.g., USD, JPY)"),
+  limit: limitSchema,
+  offset: offsetSchema,
   response_format: responseFormat
 }).strict();
 
 export type ListForexPairsInput = z.infer<typeof ListForexPairsSchema>;
 
+// =============================================================================
+// Schema: List Cryptocurrencies
+// =============================================================================
+export const ListCryptocurrenciesSchema = z.object({
+  currency_base: z.string()
+    .optional()
+    .describe("Filter by base currency (e.g., BTC, ETH)"),
+  currency_quote: z.string()
+    .optional()
+    .describe("Filter by quote currency (e.g., USD, USDT, EUR)"),
+  exchange: z.string()
+    .optional()
+    .describe("Filter by exchange (e.g., Binance, Coinbase Pro)"),
+  limit: limitSchema,
+  offset: offsetSchema,
+  response_format: responseFormat
+}).strict();
+
+export type ListCryptocurrenciesInput = z.infer<typeof ListCryptocurrenciesSchema>;
+
+// =============================================================================
+// Schema: List Stocks
+// =============================================================================
+export const ListStocksSchema = z.object({
+  symbol: z.string()
+    .optional()
+    .describe("Filter by ticker (e.g., AAPL)"),
+  exchange: z.string()
+    .optional()
+    .describe("Filter by exchange (e.g., NASDAQ, NYSE, LSE)"),
+  country: z.string()
+    .optional()
+    .describe("Filter by country name or alpha code (e.g., United States, US)"),
+  type: z.string()
+    .optional()
+    .describe("Filter by instrument type (e.g., Common Stock, REIT)"),
+  limit: limitSchema,
+  offset: offsetSchema,
+  response_format: responseFormat
+}).strict();
+
+export type ListStocksInput = z.infer<typeof ListStocksSchema>;
+
+// =============================================================================
+// Schema: List ETFs
+// =============================================================================
+export const ListEtfsSchema = z.object({
+  symbol: z.string()
+    .optional()
+    .describe("Filter by ticker (e.g., SPY)"),
+  exchange: z.string()
+    .optional()
+    .describe("Filter by exchange (e.g., NYSE, NASDAQ)"),
+  country: z.string()
+    .optional()
+    .describe("Filter by country name or alpha code (e.g., United States, US)"),
+  limit: limitSchema,
+  offset: offsetSchema,
+  response_format: responseFormat
+}).strict();
+
+export type ListEtfsInput = z.infer<typeof ListEtfsSchema>;
+
+// =============================================================================
+// Schema: Indicator Parameters (validated per indicator)
+// =============================================================================
+const periodSchema = (fallback: number, label: string) => z.number()
+  .int()
+  .min(1)
+  .max(500)
+  .default(fallback)
+  .describe(`${label} (default: ${fallback})`);
+
+const timePeriodSchema = periodSchema(14, "Time period");
+
+const seriesTypeSchema = z.enum(["close", "open", "high", "low", "hl2", "hlc3", "ohlc4"])
+  .default("close")
+  .describe("Price series to calculate on (default: close)");
+
+const maTypeSchema = z.enum(["SMA", "EMA", "WMA"])
+  .default("SMA")
+  .describe("Moving average type (default: SMA)");
+
+const singlePeriodIndicator = <T extends string>(name: T) => z.object({
+  indicator: z.literal(name),
+  time_period: timePeriodSchema,
+  series_type: seriesTypeSchema
+}).strict();
+
+const rangeIndicator = <T extends string>(name: T) => z.object({
+  indicator: z.literal(name),
+  time_period: timePeriodSchema
+}).strict();
+
+export const IndicatorParametersSchema = z.discriminatedUnion("indicator", [
+  singlePeriodIndicator("sma"),
+  singlePeriodIndicator("ema"),
+  singlePeriodIndicator("wma"),
+  singlePeriodIndicator("rsi"),
+  singlePeriodIndicator("mom"),
+  singlePeriodIndicator("roc"),
+  z.object({
+    indicator: z.literal("macd"),
+    fast_period: periodSchema(12, "Fast EMA period"),
+    slow_period: periodSchema(26, "Slow EMA period"),
+    signal_period: periodSchema(9, "Signal line period"),
+    series_type: seriesTypeSchema
+  }).strict(),
+  z.object({
+    indicator: z.literal("bbands"),
+    time_period: periodSchema(20, "Time period"),
+    sd: z.number()
+      .positive()
+      .max(10)
+      .default(2)
+      .describe("Standard deviation multiplier for the bands (default: 2)"),
+    ma_type: maTypeSchema,
+    series_type: seriesTypeSchema
+  }).strict(),
+  z.object({
+    indicator: z.literal("stoch"),
+    fast_k_period: periodSchema(14, "Fast %K period"),
+    slow_k_period: periodSchema(1, "Slow %K smoothing period"),
+    slow_d_period: periodSchema(3, "Slow %D period"),
+    slow_kma_type: maTypeSchema,
+    slow_dma_type: maTypeSchema
+  }).strict(),
+  rangeIndicator("adx"),
+  rangeIndicator("atr"),
+  rangeIndicator("cci"),
+  rangeIndicator("willr"),
+  z.object({
+    indicator: z.literal("obv"),
+    series_type: seriesTypeSchema
+  }).strict()
+]).superRefine((value, ctx) => {
+  if (value.indicator === "macd" && value.fast_period >= value.slow_period) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["fast_period"],
+      message: "fast_period must be shorter than slow_period"
+    });
+  }
+});
+
+export type IndicatorParameters = z.infer<typeof IndicatorParametersSchema>;
+
 // =============================================================================
 // Schema: Get Technical Indicator
 // =============================================================================
+// MCP tool listings need a flat object schema, so every indicator parameter
+// is optional here; IndicatorParametersSchema validates and defaults them
+// for the chosen indicator.
 export const GetTechnicalIndicatorSchema = z.object({
   symbol: symbolSchema
     .describe("Symbol for technical analysis"),
   interval: intervalSchema
     .default("1day")
     .describe("Time interval for indicator calculation"),
-  indicator: z.enum([
-    "sma", "ema", "wma", "rsi", "macd", "bbands", "stoch", 
-    "adx", "atr", "cci", "obv", "mom", "roc", "willr"
-  ])
+  indicator: z.enum(SUPPORTED_INDICATORS)
     .describe("Technical indicator type"),
-  time_period: z.number()
-    .int()
-    .min(1)
-    .max(200)
-    .default(14)
-    .describe("Time period for indicator (default: 14)"),
+  time_period: z.number().int().min(1).max(500).optional()
+    .describe("Time period (sma, ema, wma, rsi, mom, roc, bbands, adx, atr, cci, willr; default: 14, bbands: 20)"),
+  series_type: z.enum(["close", "open", "high", "low", "hl2", "hlc3", "ohlc4"]).optional()
+    .describe("Price series (sma, ema, wma, rsi, mom, roc, macd, bbands, obv; default: close)"),
+  fast_period: z.number().int().min(1).max(500).optional()
+    .describe("MACD fast EMA period (default: 12)"),
+  slow_period: z.number().int().min(1).max(500).optional()
+    .describe("MACD slow EMA period (default: 26)"),
+  signal_period: z.number().int().min(1).max(500).optional()
+    .describe("MACD signal line period (default: 9)"),
+  sd: z.number().positive().max(10).optional()
+    .describe("BBANDS standard deviation multiplier (default: 2)"),
+  ma_type: z.enum(["SMA", "EMA", "WMA"]).optional()
+    .describe("BBANDS middle band moving average type (default: SMA)"),
+  fast_k_period: z.number().int().min(1).max(500).optional()
+    .describe("STOCH fast %K period (default: 14)"),
+  slow_k_period: z.number().int().min(1).max(500).optional()
+    .describe("STOCH slow %K smoothing period (default: 1)"),
+  slow_d_period: z.number().int().min(1).max(500).optional()
+    .describe("STOCH slow %D period (default: 3)"),
+  slow_kma_type: z.enum(["SMA", "EMA", "WMA"]).optional()
+    .describe("STOCH slow %K moving average type (default: SMA)"),
+  slow_dma_type: z.enum(["SMA", "EMA", "WMA"]).optional()
+    .describe("STOCH slow %D moving average type (default: SMA)"),
   outputsize: z.number()
     .int()
     .min(1)
     .max(500)
     .default(30)
     .describe("Number of data points to return"),
-  response_format: responseFormat
+  source: z.enum(["api", "local", "auto"])
+    .default("auto")
+    .describe("Where to compute the indicator: 'api' (Twelve Data), 'local' (from time series candles), or 'auto' (API, falling back to local when the plan doesn't include the indicator)"),
+  offset: rowOffsetSchema,
+  cursor: cursorSchema,
+  export: exportSchema,
+  response_format: seriesResponseFormat
 }).strict();
 
 export type GetTechnicalIndicatorInput = z.infer<typeof GetTechnicalIndicatorSchema>;
+
+// =============================================================================
+// Schema: Technical Snapshot
+// =============================================================================
+export const TechnicalSnapshotSchema = z.object({
+  symbol: symbolSchema
+    .describe("Symbol for the snapshot"),
+  interval: intervalSchema
+    .default("1day")
+    .describe("Candle interval for every indicator"),
+  indicators: z.array(z.enum(SUPPORTED_INDICATORS))
+    .min(1)
+    .max(SUPPORTED_INDICATORS.length)
+    .default(["rsi", "macd", "bbands", "atr"])
+    .describe("Indicators to include, each with default parameters (default: rsi, macd, bbands, atr)"),
+  source: z.enum(["api", "local", "auto"])
+    .default("local")
+    .describe("Where to compute the indicators: 'local' (default, from one time series request), 'api' (one Twelve Data request per indicator), or 'auto' (API, falling back to local when the plan doesn't include an indicator)"),
+  response_format: responseFormat
+}).strict();
+
+export type TechnicalSnapshotInput = z.infer<typeof TechnicalSnapshotSchema>;
+
+// =============================================================================
+// Schema: Price Streaming
+// =============================================================================
+export const StreamSubscribeSchema = z.object({
+  symbols: symbolsSchema
+    .describe("Symbols to stream over the WebSocket (e.g., [\"XAU/USD\", \"EUR/USD\"])"),
+  response_format: responseFormat
+}).strict();
+
+export type StreamSubscribeInput = z.infer<typeof StreamSubscribeSchema>;
+
+export const StreamUnsubscribeSchema = z.object({
+  symbols: symbolsSchema
+    .optional()
+    .describe("Symbols to stop streaming (omit to stop all)"),
+  response_format: responseFormat
+}).strict();
+
+export type StreamUnsubscribeInput = z.infer<typeof StreamUnsubscribeSchema>;
+
+export const GetLivePricesSchema = z.object({
+  symbols: symbolsSchema
+    .optional()
+    .describe("Streamed symbols to show (default: all subscribed)"),
+  response_format: responseFormat
+}).strict();
+
+export type GetLivePricesInput = z.infer<typeof GetLivePricesSchema>;
+
+// =============================================================================
+// Schema: Price Alerts
+// =============================================================================
+const rsiAlertCondition = <T extends "rsi_above" | "rsi_below">(type: T) => z.object({
+  type: z.literal(type),
+  value: z.number().min(0).max(100)
+    .describe("RSI threshold (0-100)"),
+  interval: intervalSchema
+    .default("1h")
+    .describe("Candle interval the RSI is computed on (default: 1h)"),
+  time_period: z.number().int().min(2).max(200)
+    .default(14)
+    .describe("RSI period (default: 14)")
+}).strict();
+
+export const AlertConditionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("price_above"),
+    price: z.number().positive()
+      .describe("Trigger when the price rises to or through this level")
+  }).strict(),
+  z.object({
+    type: z.literal("price_below"),
+    price: z.number().positive()
+      .describe("Trigger when the price falls to or through this level")
+  }).strict(),
+  z.object({
+    type: z.literal("percent_change"),
+    percent: z.number().positive().max(100)
+      .describe("Trigger when the price moves at least this many percent"),
+    window_minutes: z.number().int().min(1).max(1440)
+      .default(60)
+      .describe("Window the move is measured over, in minutes (default: 60)"),
+    direction: z.enum(["up", "down", "either"])
+      .default("either")
+      .describe("Direction of the move (default: either)")
+  }).strict(),
+  rsiAlertCondition("rsi_above"),
+  rsiAlertCondition("rsi_below")
+]);
+
+export type AlertCondition = z.infer<typeof AlertConditionSchema>;
+
+export const CreateAlertSchema = z.object({
+  symbol: symbolSchema
+    .describe("Symbol to watch"),
+  condition: AlertConditionSchema
+    .describe("Condition that triggers the alert"),
+  note: z.string()
+    .max(200)
+    .optional()
+    .describe("Free-text note included in the notification"),
+  response_format: responseFormat
+}).strict();
+
+export type CreateAlertInput = z.infer<typeof CreateAlertSchema>;
+
+export const ListAlertsSchema = z.object({
+  status: z.enum(["active", "triggered", "all"])
+    .default("all")
+    .describe("Which alerts to list (default: all)"),
+  response_format: responseFormat
+}).strict();
+
+export type ListAlertsInput = z.infer<typeof ListAlertsSchema>;
+
+export const DeleteAlertSchema = z.object({
+  id: z.string()
+    .min(1)
+    .max(64)
+    .describe("Alert ID from twelvedata_create_alert or twelvedata_list_alerts"),
+  response_format: responseFormat
+}).strict();
+
+export type DeleteAlertInput = z.infer<typeof DeleteAlertSchema>;
+
+// =============================================================================
+// Schema: Watchlists
+// =============================================================================
+const watchlistNameSchema = z.string()
+  .min(1)
+  .max(50)
+  .regex(/^[A-Za-z0-9][A-Za-z0-9_-]*$/, "Use letters, digits, '-' and '_' (e.g. metals, g10-fx)")
+  .describe("Watchlist name (letters, digits, '-' and '_'; case-insensitive, e.g. \"metals\", \"g10-fx\")");
+
+export const SaveWatchlistSchema = z.object({
+  name: watchlistNameSchema,
+  symbols: symbolsSchema
+    .describe("Symbols or common names for the watchlist (e.g., [\"XAU/USD\", \"silver\"])"),
+  mode: z.enum(["replace", "add", "remove"])
+    .default("replace")
+    .describe("'replace' sets the list (creating it if needed), 'add' appends, 'remove' drops the given symbols"),
+  response_format: responseFormat
+}).strict();
+
+export type SaveWatchlistInput = z.infer<typeof SaveWatchlistSchema>;
+
+export const ListWatchlistsSchema = z.object({
+  response_format: responseFormat
+}).strict();
+
+export type ListWatchlistsInput = z.infer<typeof ListWatchlistsSchema>;
+
+export const DeleteWatchlistSchema = z.object({
+  name: watchlistNameSchema,
+  response_format: responseFormat
+}).strict();
+
+export type DeleteWatchlistInput = z.infer<typeof DeleteWatchlistSchema>;
+
+export const WatchlistQuotesSchema = z.object({
+  name: watchlistNameSchema,
+  sort: z.enum(["none", "percent_change_desc", "percent_change_asc", "symbol"])
+    .default("none")
+    .describe("Row order: 'none' (list order), 'percent_change_desc' (top gainers first), 'percent_change_asc' (top losers first), 'symbol'"),
+  response_format: responseFormat
+}).strict();
+
+export type WatchlistQuotesInput = z.infer<typeof WatchlistQuotesSchema>;
+
+// =============================================================================
+// Schema: Value Portfolio
+// =============================================================================
+const currencyCodeSchema = z.string()
+  .min(3)
+  .max(5)
+  .transform(code => code.toUpperCase());
+
+export const PortfolioPositionSchema = z.object({
+  symbol: symbolSchema
+    .describe("Instrument (e.g., AAPL, XAU/USD, gold) or a currency/metal/crypto code held directly (e.g., EUR, XAU, BTC)"),
+  quantity: z.number()
+    .positive()
+    .describe("Units held (shares, ounces for XAU, coins, or currency amount)"),
+  cost_basis: z.number()
+    .nonnegative()
+    .optional()
+    .describe("Total amount paid for the position (omit to skip P&L)"),
+  cost_currency: currencyCodeSchema
+    .optional()
+    .describe("Currency of cost_basis (default: the instrument's price currency)")
+}).strict();
+
+export type PortfolioPosition = z.infer<typeof PortfolioPositionSchema>;
+
+export const ValuePortfolioSchema = z.object({
+  positions: z.array(PortfolioPositionSchema)
+    .min(1)
+    .max(100)
+    .describe("Holdings to value"),
+  reporting_currency: currencyCodeSchema
+    .default("USD")
+    .describe("Currency to report values in (default: USD)"),
+  response_format: responseFormat
+}).strict();
+
+export type ValuePortfolioInput = z.infer<typeof ValuePortfolioSchema>;
+
+// =============================================================================
+// Schema: Correlation Matrix
+// =============================================================================
+export const CorrelationMatrixSchema = z.object({
+  symbols: z.array(symbolSchema)
+    .min(2)
+    .max(10)
+    .describe("Symbols to correlate (2-10, e.g., [\"XAU/USD\", \"XAG/USD\", \"EUR/USD\", \"BTC/USD\"])"),
+  interval: intervalSchema
+    .default("1day")
+    .describe("Candle interval (default: 1day)"),
+  outputsize: z.number()
+    .int()
+    .min(10)
+    .max(5000)
+    .default(250)
+    .describe("Candles fetched per symbol before alignment (10-5000, default: 250)"),
+  method: z.enum(["pearson", "spearman", "both"])
+    .default("both")
+    .describe("Correlation method (default: both)"),
+  rolling_window: z.number()
+    .int()
+    .min(5)
+    .max(1000)
+    .optional()
+    .describe("Also summarize the rolling Pearson correlation over windows of this many returns"),
+  response_format: responseFormat
+}).strict();
+
+export type CorrelationMatrixInput = z.infer<typeof CorrelationMatrixSchema>;
+
+// =============================================================================
+// Schema: Get Usage
+// =============================================================================
+export const GetUsageSchema = z.object({
+  response_format: responseFormat
+}).strict();
+
+export type GetUsageInput = z.infer<typeof GetUsageSchema>;
@@ -0,0 +1,390 @@
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import {
+  DEFAULT_ALERT_POLL_SECONDS,
+  ALERT_CREDIT_RESERVE,
+  MAX_ALERTS
+} from "../constants.js";
+import type { AlertCondition } from "../schemas/twelvedata.js";
+import type { AlertPollerStatus, PriceAlert } from "../types.js";
+import { findHttpClient, getClientScope, runAsClient } from "./clients.js";
+import { BadRequestError, toErrorPayload } from "./errors.js";
+import { getIndicator, parseIndicatorParams } from "./indicators.js";
+import { log } from "./logger.js";
+import { getUsage } from "./rateLimiter.js";
+import { getDataDir, readJsonFile, writeJsonFile } from "./store.js";
+import { formatAlertCondition, getPrices } from "./twelvedata.js";
+
+type AlertListener = (alert: PriceAlert) => void;
+
+interface PriceSample {
+  time: number;
+  price: number;
+}
+
+// Alerts of every client, loaded from disk on first use. Each client sees
+// only its own, and its alerts are polled with its API key and budget.
+let alerts: PriceAlert[] | null = null;
+let pollTimer: ReturnType<typeof setInterval> | undefined;
+let polling = false;
+const lastPollAt = new Map<string | undefined, number>();
+const lastSkipReason = new Map<string | undefined, string>();
+
+// Recent prices per client and symbol, for percent-change windows
+const samples = new Map<string, PriceSample[]>();
+const listeners = new Set<AlertListener>();
+
+function getAlertsFile(): string {
+  return process.env.TWELVEDATA_ALERTS_FILE || path.join(getDataDir(), "alerts.json");
+}
+
+function getPollSeconds(): number {
+  const value = Number(process.env.TWELVEDATA_ALERT_POLL_SECONDS);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_ALERT_POLL_SECONDS;
+}
+
+function getWebhookUrl(): string | undefined {
+  return process.env.TWELVEDATA_ALERT_WEBHOOK_URL || undefined;
+}
+
+async function loadAlerts(): Promise<PriceAlert[]> {
+  if (!alerts) {
+    const stored = await readJsonFile<{ alerts?: PriceAlert[] }>(getAlertsFile(), {});
+    alerts = stored.alerts ?? [];
+  }
+  return alerts;
+}
+
+async function saveAlerts(): Promise<void> {
+  await writeJsonFile(getAlertsFile(), { alerts: alerts ?? [] });
+}
+
+function isRsiCondition(
+  condition: AlertCondition
+): condition is Extract<AlertCondition, { type: "rsi_above" | "rsi_below" }> {
+  return condition.type === "rsi_above" || condition.type === "rsi_below";
+}
+
+function isOwnAlert(alert: PriceAlert): boolean {
+  return alert.client === getClientScope();
+}
+
+function sampleKey(client: string | undefined, symbol: string): string {
+  return `${client ?? ""}\n${symbol}`;
+}
+
+/**
+ * Create an alert for the current client and persist it
+ */
+export async function createAlert(
+  symbol: string,
+  condition: AlertCondition,
+  note?: string
+): Promise<PriceAlert> {
+  const list = await loadAlerts();
+  if (list.filter(isOwnAlert).length >= MAX_ALERTS) {
+    throw new BadRequestError(`At most ${MAX_ALERTS} alerts can be stored. Delete some first.`);
+  }
+
+  const client = getClientScope();
+  const alert: PriceAlert = {
+    id: randomUUID().slice(0, 8),
+    symbol,
+    condition,
+    ...(note ? { note } : {}),
+    ...(client !== undefined ? { client } : {}),
+    status: "active",
+    created_at: new Date().toISOString()
+  };
+  list.push(alert);
+  await saveAlerts();
+  return alert;
+}
+
+/**
+ * The current client's alerts
+ */
+export async function listAlerts(status: "active" | "triggered" | "all" = "all"): Promise<PriceAlert[]> {
+  const list = (await loadAlerts()).filter(isOwnAlert);
+  return status === "all" ? list : list.filter(alert => alert.status === status);
+}
+
+/**
+ * Delete one of the current client's alerts by ID, returning the removed alert
+ */
+export async function deleteAlert(id: string): Promise<PriceAlert> {
+  const list = await loadAlerts();
+  const index = list.findIndex(alert => alert.id === id && isOwnAlert(alert));
+  if (index < 0) {
+    throw new BadRequestError(`No alert with ID "${id}". Use twelvedata_list_alerts to see alert IDs.`);
+  }
+  const [removed] = list.splice(index, 1);
+  await saveAlerts();
+  return removed;
+}
+
+/**
+ * Register a callback for triggered alerts; returns an unsubscribe function
+ */
+export function onAlertTriggered(listener: AlertListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Poller state for the current client's alerts
+ */
+export function getAlertPollerStatus(): AlertPollerStatus {
+  const client = getClientScope();
+  const polledAt = lastPollAt.get(client);
+  const skipReason = lastSkipReason.get(client);
+  return {
+    interval_seconds: getPollSeconds(),
+    ...(polledAt !== undefined ? { last_poll_at: new Date(polledAt).toISOString() } : {}),
+    ...(skipReason ? { last_skip_reason: skipReason } : {}),
+    webhook: getWebhookUrl() !== undefined
+  };
+}
+
+/**
+ * Record a polled price and drop samples older than the longest window
+ */
+function recordSample(
+  client: string | undefined,
+  symbol: string,
+  price: number,
+  now: number,
+  active: PriceAlert[]
+): void {
+  const longest = Math.max(0, ...active
+    .filter(alert => alert.symbol === symbol && alert.condition.type === "percent_change")
+    .map(alert => (alert.condition as { window_minutes: number }).window_minutes));
+  const keepFrom = now - (longest * 60 + getPollSeconds() * 2) * 1000;
+
+  const key = sampleKey(client, symbol);
+  const history = (samples.get(key) ?? []).filter(sample => sample.time >= keepFrom);
+  history.push({ time: now, price });
+  samples.set(key, history);
+}
+
+/**
+ * Percent move from the last sample at or before the window start, or
+ * undefined while the window is still filling
+ */
+function percentChange(
+  alert: PriceAlert,
+  windowMinutes: number,
+  price: number,
+  now: number
+): number | undefined {
+  const start = now - windowMinutes * 60 * 1000;
+  const baseline = (samples.get(sampleKey(alert.client, alert.symbol)) ?? [])
+    .filter(sample => sample.time <= start)
+    .pop();
+  if (!baseline) return undefined;
+  return ((price - baseline.price) / baseline.price) * 100;
+}
+
+/**
+ * Check one alert against the latest observation; returns the value the
+ * condition was compared with and whether it fired. Price levels fire when
+ * the price crosses them since the last poll, so the first poll only
+ * records where the price starts.
+ */
+function evaluate(
+  alert: PriceAlert,
+  price: number | undefined,
+  rsi: number | undefined,
+  now: number
+): { value?: number; fired: boolean } {
+  const { condition } = alert;
+  switch (condition.type) {
+    case "price_above": {
+      const previous = alert.last_value;
+      const fired = price !== undefined && previous !== undefined &&
+        previous < condition.price && price >= condition.price;
+      return { value: price, fired };
+    }
+    case "price_below": {
+      const previous = alert.last_value;
+      const fired = price !== undefined && previous !== undefined &&
+        previous > condition.price && price <= condition.price;
+      return { value: price, fired };
+    }
+    case "percent_change": {
+      if (price === undefined) return { fired: false };
+      const change = percentChange(alert, condition.window_minutes, price, now);
+      if (change === undefined) return { fired: false };
+      const fired =
+        (condition.direction !== "down" && change >= condition.percent) ||
+        (condition.direction !== "up" && change <= -condition.percent);
+      return { value: Number(change.toFixed(4)), fired };
+    }
+    case "rsi_above":
+      return { value: rsi, fired: rsi !== undefined && rsi >= condition.value };
+    case "rsi_below":
+      return { value: rsi, fired: rsi !== undefined && rsi <= condition.value };
+  }
+}
+
+/**
+ * POST a triggered alert to TWELVEDATA_ALERT_WEBHOOK_URL, if configured
+ */
+async function notifyWebhook(alert: PriceAlert): Promise<void> {
+  const url = getWebhookUrl();
+  if (!url) return;
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ event: "alert.triggered", alert })
+    });
+    if (!response.ok) {
+      log("warn", "alert.webhook_failed", { alert_id: alert.id, http_status: response.status });
+    }
+  } catch (error) {
+    log("warn", "alert.webhook_failed", {
+      alert_id: alert.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * Evaluate one client's active alerts, as that client. Prices come from one
+ * batch request and each RSI alert costs one indicator request; the poll is
+ * skipped (returning undefined) when that would eat into the credits left
+ * for the client's interactive calls.
+ */
+async function pollClientAlerts(
+  client: string | undefined,
+  active: PriceAlert[],
+  now: number
+): Promise<PriceAlert[] | undefined> {
+  const priceSymbols = [...new Set(
+    active.filter(alert => !isRsiCondition(alert.condition)).map(alert => alert.symbol)
+  )];
+  const rsiAlerts = active.filter(alert => isRsiCondition(alert.condition));
+  const needed = priceSymbols.length + rsiAlerts.length;
+
+  const usage = getUsage();
+  if (usage.minute.available < needed + ALERT_CREDIT_RESERVE || usage.day.remaining < needed + ALERT_CREDIT_RESERVE) {
+    lastSkipReason.set(client, `Skipped at ${new Date(now).toISOString()}: needs ${needed} credits plus a reserve of ${ALERT_CREDIT_RESERVE}`);
+    return undefined;
+  }
+  lastSkipReason.delete(client);
+  lastPollAt.set(client, now);
+
+  const prices = new Map<string, number>();
+  const errors = new Map<string, string>();
+  if (priceSymbols.length > 0) {
+    for (const item of await getPrices(priceSymbols)) {
+      const price = item.data ? parseFloat(item.data.price) : NaN;
+      if (Number.isFinite(price)) {
+        prices.set(item.symbol, price);
+        recordSample(client, item.symbol, price, now, active);
+      } else {
+        errors.set(item.symbol, item.error?.message ?? "No price returned");
+      }
+    }
+  }
+
+  const triggered: PriceAlert[] = [];
+  for (const alert of active) {
+    let rsi: number | undefined;
+    alert.last_error = undefined;
+
+    if (isRsiCondition(alert.condition)) {
+      try {
+        const { interval, time_period } = alert.condition;
+        const params = parseIndicatorParams("rsi", { time_period });
+        const { data } = await getIndicator(alert.symbol, interval, "rsi", 1, params, "auto");
+        const value = parseFloat(data.values[0]?.rsi ?? "");
+        if (Number.isFinite(value)) rsi = value;
+      } catch (error) {
+        alert.last_error = toErrorPayload(error).message;
+      }
+    } else if (errors.has(alert.symbol)) {
+      alert.last_error = errors.get(alert.symbol);
+    }
+
+    const { value, fired } = evaluate(alert, prices.get(alert.symbol), rsi, now);
+    alert.last_checked_at = new Date(now).toISOString();
+    if (value !== undefined) alert.last_value = value;
+
+    if (fired && value !== undefined) {
+      alert.status = "triggered";
+      alert.triggered_at = alert.last_checked_at;
+      alert.triggered_value = value;
+      alert.message = `${alert.symbol}: ${formatAlertCondition(alert.condition)} (value ${value})` +
+        (alert.note ? ` - ${alert.note}` : "");
+      triggered.push(alert);
+    }
+  }
+  return triggered;
+}
+
+/**
+ * Evaluate every active alert once, client by client. Alerts of clients no
+ * longer configured are kept but not polled, and a client whose poll fails
+ * is skipped until the next one.
+ */
+export async function pollAlerts(now: number = Date.now()): Promise<PriceAlert[]> {
+  if (polling) return [];
+  polling = true;
+  try {
+    const byClient = new Map<string | undefined, PriceAlert[]>();
+    for (const alert of await loadAlerts()) {
+      if (alert.status !== "active") continue;
+      byClient.set(alert.client, [...byClient.get(alert.client) ?? [], alert]);
+    }
+
+    let polled = false;
+    const triggered: PriceAlert[] = [];
+    for (const [name, active] of byClient) {
+      const client = findHttpClient(name);
+      if (name !== undefined && !client) continue;
+      let fired: PriceAlert[] | undefined;
+      try {
+        fired = await runAsClient(client, () => pollClientAlerts(name, active, now));
+      } catch (error) {
+        // One client's failure (e.g. a revoked API key) leaves the others' polls alone
+        log("error", "alert.poll_failed", {
+          client: name,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        continue;
+      }
+      if (!fired) continue;
+      polled = true;
+      triggered.push(...fired);
+    }
+    if (!polled) return [];
+
+    await saveAlerts();
+    for (const alert of triggered) {
+      for (const listener of listeners) listener(alert);
+      await notifyWebhook(alert);
+    }
+    return triggered;
+  } finally {
+    polling = false;
+  }
+}
+
+/**
+ * Load stored alerts and poll them every TWELVEDATA_ALERT_POLL_SECONDS
+ */
+export function startAlertPoller(): void {
+  if (pollTimer) return;
+  pollTimer = setInterval(() => {
+    pollAlerts().catch(error => {
+      log("error", "alert.poll_failed", { error: error instanceof Error ? error.message : String(error) });
+    });
+  }, getPollSeconds() * 1000);
+  pollTimer.unref?.();
+
+  loadAlerts().catch(error => {
+    log("error", "alert.load_failed", { error: error instanceof Error ? error.message : String(error) });
+  });
+}
@@ -0,0 +1,182 @@
+import { PERIODS_PER_YEAR } from "../constants.js";
+import type {
+  TimeSeriesResponse,
+  TimeSeriesValue,
+  SeriesAnalytics,
+  CandlePoint
+} from "../types.js";
+import { BadRequestError } from "./errors.js";
+
+export interface Candle {
+  datetime: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+export interface AnalyzeOptions {
+  atrPeriod?: number;
+  periodsPerYear?: number;
+}
+
+/**
+ * Parse API candles into numbers, oldest first (Twelve Data returns newest first)
+ */
+export function toCandles(values: TimeSeriesValue[]): Candle[] {
+  return values
+    .map(v => ({
+      datetime: v.datetime,
+      open: parseFloat(v.open),
+      high: parseFloat(v.high),
+      low: parseFloat(v.low),
+      close: parseFloat(v.close),
+      volume: v.volume !== undefined ? parseFloat(v.volume) : undefined
+    }))
+    .filter(c => [c.open, c.high, c.low, c.close].every(Number.isFinite))
+    .sort((a, b) => a.datetime.localeCompare(b.datetime));
+}
+
+/**
+ * Natural log returns between consecutive closes
+ */
+export function logReturns(candles: Candle[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    returns.push(Math.log(candles[i].close / candles[i - 1].close));
+  }
+  return returns;
+}
+
+/**
+ * Sample standard deviation
+ */
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * True range of each candle after the first
+ */
+export function trueRanges(candles: Candle[]): number[] {
+  const ranges: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    const prevClose = candles[i - 1].close;
+    ranges.push(Math.max(
+      candles[i].high - candles[i].low,
+      Math.abs(candles[i].high - prevClose),
+      Math.abs(candles[i].low - prevClose)
+    ));
+  }
+  return ranges;
+}
+
+/**
+ * Latest Wilder-smoothed average true range, or null with too few candles
+ */
+export function averageTrueRange(candles: Candle[], period: number): number | null {
+  const ranges = trueRanges(candles);
+  if (ranges.length < period) return null;
+
+  let atr = ranges.slice(0, period).reduce((sum, r) => sum + r, 0) / period;
+  for (let i = period; i < ranges.length; i++) {
+    atr = (atr * (period - 1) + ranges[i]) / period;
+  }
+  return atr;
+}
+
+/**
+ * Largest peak-to-trough decline in closes
+ */
+export function maxDrawdown(candles: Candle[]): SeriesAnalytics["max_drawdown"] {
+  let peak = candles[0];
+  let worst = { pct: 0, peak: candles[0], trough: candles[0] };
+
+  candles.forEach(candle => {
+    if (candle.close > peak.close) peak = candle;
+    const drawdown = (candle.close - peak.close) / peak.close;
+    if (drawdown < worst.pct) worst = { pct: drawdown, peak, trough: candle };
+  });
+
+  return {
+    pct: worst.pct * 100,
+    peak: { datetime: worst.peak.datetime, value: worst.peak.close },
+    trough: { datetime: worst.trough.datetime, value: worst.trough.close }
+  };
+}
+
+/**
+ * Count opens beyond the previous candle's range (gap up: open above the
+ * previous high; gap down: open below the previous low)
+ */
+export function countGaps(candles: Candle[]): SeriesAnalytics["gaps"] {
+  let up = 0;
+  let down = 0;
+  let largest = 0;
+
+  for (let i = 1; i < candles.length; i++) {
+    const prev = candles[i - 1];
+    const open = candles[i].open;
+    if (open > prev.high) {
+      up++;
+      largest = Math.max(largest, (open - prev.high) / prev.high);
+    } else if (open < prev.low) {
+      down++;
+      largest = Math.max(largest, (prev.low - open) / prev.low);
+    }
+  }
+
+  return { up, down, largest_pct: largest * 100 };
+}
+
+/**
+ * Compute summary statistics for a time series without returning its candles
+ */
+export function analyzeSeries(
+  data: TimeSeriesResponse,
+  options: AnalyzeOptions = {}
+): SeriesAnalytics {
+  const candles = toCandles(data.values);
+  if (candles.length < 2) {
+    throw new BadRequestError("At least 2 candles are needed to analyze a series");
+  }
+
+  const first = candles[0];
+  const last = candles[candles.length - 1];
+  const atrPeriod = options.atrPeriod ?? 14;
+  const periodsPerYear = options.periodsPerYear ?? PERIODS_PER_YEAR[data.meta.interval] ?? 252;
+  const perBar = standardDeviation(logReturns(candles));
+  const atr = averageTrueRange(candles, atrPeriod);
+
+  const highest = candles.reduce((best, c) => (c.high > best.high ? c : best));
+  const lowest = candles.reduce((best, c) => (c.low < best.low ? c : best));
+  const point = (candle: Candle, value: number): CandlePoint => ({ datetime: candle.datetime, value });
+
+  return {
+    symbol: data.meta.symbol,
+    interval: data.meta.interval,
+    bars: candles.length,
+    start: first.datetime,
+    end: last.datetime,
+    first_close: first.close,
+    last_close: last.close,
+    change: last.close - first.close,
+    period_return_pct: (last.close / first.close - 1) * 100,
+    volatility: {
+      per_bar_pct: perBar * 100,
+      annualized_pct: perBar * Math.sqrt(periodsPerYear) * 100,
+      periods_per_year: periodsPerYear
+    },
+    max_drawdown: maxDrawdown(candles),
+    atr: atr === null
+      ? null
+      : { period: atrPeriod, value: atr, pct_of_close: (atr / last.close) * 100 },
+    highest: point(highest, highest.high),
+    lowest: point(lowest, lowest.low),
+    gaps: countGaps(candles)
+  };
+}
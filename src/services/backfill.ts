@@ -0,0 +1,205 @@
+import { MAX_TIME_SERIES_OUTPUTSIZE } from "../constants.js";
+import type {
+  ApiResult,
+  BackfillInfo,
+  BackfillResponse,
+  CacheInfo,
+  TimeSeriesResponse,
+  TimeSeriesValue
+} from "../types.js";
+import {
+  addBars,
+  coveredBefore,
+  emptySeries,
+  findRange,
+  isCandleStoreEnabled,
+  loadSeries,
+  normalizeDatetime,
+  nowInExchangeTime,
+  readBars,
+  saveSeries
+} from "./candleStore.js";
+import { BadRequestError, toErrorPayload } from "./errors.js";
+import { getUsage } from "./rateLimiter.js";
+import { getTimeSeries } from "./twelvedata.js";
+
+export interface RangeOptions {
+  timezone?: string;
+  maxRequests: number;
+  // Stop once this many bars (newest first) are available
+  limit?: number;
+}
+
+export interface RangeResult {
+  data: TimeSeriesResponse;
+  cache: CacheInfo;
+  requests: number;
+  fromStore: number;
+  duplicates: number;
+  complete: boolean;
+  stoppedReason?: string;
+  resumeEndDate?: string;
+}
+
+// Twelve Data's answer for a window without bars (weekend, holiday)
+function isNoDataError(error: unknown): boolean {
+  return error instanceof BadRequestError && /no data is available/i.test(error.message);
+}
+
+/**
+ * Fetch a date range by walking backwards from the end: each request takes
+ * the newest 5000 bars up to the oldest bar seen so far. Spans the candle
+ * store already covers are read from disk and skipped, so only the gaps
+ * cost credits. Stops early (with a resume end date) when max_requests or
+ * the daily credit budget runs out, or when a later request fails.
+ */
+export async function fetchCandleRange(
+  symbol: string,
+  interval: string,
+  startDate: string,
+  endDate: string | undefined,
+  options: RangeOptions
+): Promise<RangeResult> {
+  if (endDate && normalizeDatetime(startDate) >= normalizeDatetime(endDate)) {
+    throw new BadRequestError(`start_date (${startDate}) must be before end_date (${endDate})`);
+  }
+
+  // Stored bars are in exchange time, so other time zones bypass the store
+  const useStore = isCandleStoreEnabled() && (!options.timezone || options.timezone === "Exchange");
+  const series = useStore ? await loadSeries(symbol, interval) : emptySeries(symbol, interval, false);
+
+  const start = normalizeDatetime(startDate);
+  const end = endDate ? normalizeDatetime(endDate) : undefined;
+  const fetched = new Set<string>();
+  let cache: CacheInfo | undefined;
+  let windowEnd = end ?? nowInExchangeTime(series);
+  let requests = 0;
+  let duplicates = 0;
+  let complete = false;
+  let stoppedReason: string | undefined;
+
+  while (!complete) {
+    // Skip the stored span the window ends in
+    const covered = windowEnd ? findRange(series, windowEnd) : undefined;
+    if (covered) {
+      if (covered.from <= start) {
+        complete = true;
+        break;
+      }
+      windowEnd = covered.from;
+    }
+    if (options.limit !== undefined && windowEnd && readBars(series, windowEnd, end).length >= options.limit) {
+      complete = true;
+      break;
+    }
+    if (requests >= options.maxRequests) {
+      stoppedReason = `Reached max_requests (${options.maxRequests})`;
+      break;
+    }
+    if (getUsage().day.remaining < 1) {
+      stoppedReason = "Daily credit budget used up";
+      break;
+    }
+
+    // Only ask for the gap down to the next stored span
+    const below = windowEnd ? coveredBefore(series, windowEnd) : undefined;
+    const gapStart = below && below > start ? below : start;
+
+    let page: TimeSeriesValue[] = [];
+    try {
+      const result = await getTimeSeries(
+        symbol,
+        interval,
+        MAX_TIME_SERIES_OUTPUTSIZE,
+        gapStart === start ? startDate : gapStart,
+        windowEnd === end ? endDate : windowEnd,
+        options.timezone
+      );
+      series.meta = result.data.meta;
+      cache ??= result.cache;
+      page = result.data.values ?? [];
+    } catch (error) {
+      if (!isNoDataError(error)) {
+        // Without any bars there is nothing to return; later failures keep what was fetched
+        if (requests === 0 && series.bars.size === 0) throw error;
+        stoppedReason = `Request ${requests + 1} failed: ${toErrorPayload(error).message}`;
+        break;
+      }
+    }
+    requests++;
+
+    const full = page.length >= MAX_TIME_SERIES_OUTPUTSIZE;
+    if (series.meta) {
+      duplicates += addBars(series, series.meta, page, { from: gapStart, to: windowEnd }, full);
+    }
+    page.forEach(bar => fetched.add(bar.datetime));
+
+    const oldest = page.reduce<string | undefined>(
+      (min, bar) => (!min || normalizeDatetime(bar.datetime) < min ? normalizeDatetime(bar.datetime) : min),
+      undefined
+    );
+    if (full && oldest && (!windowEnd || oldest < windowEnd)) {
+      windowEnd = oldest;
+    } else if (gapStart === start) {
+      complete = true;
+    } else {
+      windowEnd = gapStart;
+    }
+  }
+
+  if (!series.meta) {
+    throw new BadRequestError(`No data for ${symbol} between ${startDate} and ${endDate ?? "now"}`);
+  }
+  if (requests > 0) await saveSeries(series);
+
+  const bars = readBars(series, start, end);
+  const values = options.limit !== undefined ? bars.slice(0, options.limit) : bars;
+  const storedAge = series.updated_at ? Math.round((Date.now() - Date.parse(series.updated_at)) / 1000) : 0;
+
+  return {
+    data: { meta: series.meta, values, status: "ok" },
+    cache: cache ?? { hit: true, age_seconds: storedAge, ttl_seconds: 0, store: true },
+    requests,
+    fromStore: values.filter(bar => !fetched.has(bar.datetime)).length,
+    duplicates,
+    complete,
+    ...(stoppedReason ? { stoppedReason } : {}),
+    ...(!complete && windowEnd ? { resumeEndDate: windowEnd } : {})
+  };
+}
+
+/**
+ * Fetch a date range longer than one request allows. With the candle store
+ * enabled, spans fetched before are served from disk.
+ */
+export async function backfillTimeSeries(
+  symbol: string,
+  interval: string,
+  startDate: string,
+  endDate: string | undefined,
+  options: RangeOptions
+): Promise<ApiResult<BackfillResponse>> {
+  const range = await fetchCandleRange(symbol, interval, startDate, endDate, options);
+  const { values } = range.data;
+
+  const backfill: BackfillInfo = {
+    start_date: startDate,
+    ...(endDate ? { end_date: endDate } : {}),
+    ...(options.timezone ? { timezone: options.timezone } : {}),
+    requests: range.requests,
+    bars: values.length,
+    from_store: range.fromStore,
+    duplicates_removed: range.duplicates,
+    complete: range.complete,
+    ...(values.length > 0
+      ? { first_datetime: values[values.length - 1].datetime, last_datetime: values[0].datetime }
+      : {}),
+    ...(range.stoppedReason ? { stopped_reason: range.stoppedReason } : {}),
+    ...(range.resumeEndDate ? { resume_end_date: range.resumeEndDate } : {})
+  };
+
+  return {
+    data: { ...range.data, backfill },
+    cache: range.cache
+  };
+}
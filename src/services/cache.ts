@@ -0,0 +1,150 @@
+import {
+  CACHE_DEFAULT_TTL_SECONDS,
+  CACHE_TIME_SERIES_TTL_SECONDS,
+  CACHE_DEFAULT_MAX_ENTRIES
+} from "../constants.js";
+import type { CacheInfo } from "../types.js";
+
+interface CacheEntry {
+  data: unknown;
+  storedAt: number;
+  ttlSeconds: number;
+}
+
+type CacheParams = Record<string, string | number | undefined>;
+
+const entries = new Map<string, CacheEntry>();
+
+/**
+ * Read a non-negative number of seconds from an environment variable
+ */
+function readSeconds(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+/**
+ * Whether caching is enabled (TWELVEDATA_CACHE_ENABLED, default: true)
+ */
+export function isCacheEnabled(): boolean {
+  const raw = process.env.TWELVEDATA_CACHE_ENABLED;
+  return raw === undefined || !["0", "false", "no", "off"].includes(raw.toLowerCase());
+}
+
+function getMaxEntries(): number {
+  const raw = Number(process.env.TWELVEDATA_CACHE_MAX_ENTRIES);
+  return Number.isInteger(raw) && raw > 0 ? raw : CACHE_DEFAULT_MAX_ENTRIES;
+}
+
+/**
+ * Map an endpoint to its TTL category (indicators share one category)
+ */
+function getCategory(endpoint: string): string {
+  const name = endpoint.replace(/^\//, "");
+  return name in CACHE_DEFAULT_TTL_SECONDS ? name : "indicator";
+}
+
+/**
+ * Resolve the TTL for an endpoint. Environment overrides:
+ * - TWELVEDATA_CACHE_TTL_<CATEGORY> (e.g. TWELVEDATA_CACHE_TTL_PRICE)
+ * - TWELVEDATA_CACHE_TTL_TIME_SERIES_<INTERVAL> (e.g. TWELVEDATA_CACHE_TTL_TIME_SERIES_1H)
+ */
+export function getTtlSeconds(endpoint: string, params: CacheParams): number {
+  const category = getCategory(endpoint);
+  const envName = `TWELVEDATA_CACHE_TTL_${category.toUpperCase()}`;
+
+  if (category === "time_series" && params.interval !== undefined) {
+    const interval = String(params.interval);
+    const perInterval = readSeconds(`${envName}_${interval.toUpperCase()}`);
+    if (perInterval !== undefined) return perInterval;
+    if (interval in CACHE_TIME_SERIES_TTL_SECONDS) {
+      return readSeconds(envName) ?? CACHE_TIME_SERIES_TTL_SECONDS[interval];
+    }
+  }
+
+  return readSeconds(envName) ?? CACHE_DEFAULT_TTL_SECONDS[category];
+}
+
+/**
+ * Build a cache key from the endpoint and normalized params
+ * (sorted keys, undefined values dropped, symbols upper-cased). A scope,
+ * the HTTP client's name, keeps each client's responses apart.
+ */
+export function buildCacheKey(endpoint: string, params: CacheParams, scope?: string): string {
+  const normalized = Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      const text = String(value).trim();
+      return [key, key === "symbol" ? text.toUpperCase() : text] as const;
+    })
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+  const key = `${endpoint}?${normalized}`;
+  return scope === undefined ? key : `${encodeURIComponent(scope)}:${key}`;
+}
+
+/**
+ * Look up a fresh cache entry. Expired entries are removed.
+ */
+export function getCached<T>(
+  key: string,
+  now: number = Date.now()
+): { data: T; cache: CacheInfo } | undefined {
+  const entry = entries.get(key);
+  if (!entry) return undefined;
+
+  const ageSeconds = (now - entry.storedAt) / 1000;
+  if (ageSeconds >= entry.ttlSeconds) {
+    entries.delete(key);
+    return undefined;
+  }
+
+  return {
+    data: entry.data as T,
+    cache: {
+      hit: true,
+      age_seconds: Math.round(ageSeconds),
+      ttl_seconds: entry.ttlSeconds
+    }
+  };
+}
+
+/**
+ * Store a response. A TTL of 0 means the response is not cached.
+ */
+export function setCached(
+  key: string,
+  data: unknown,
+  ttlSeconds: number,
+  now: number = Date.now()
+): void {
+  if (ttlSeconds <= 0) return;
+
+  // Re-insert so Map order reflects recency, then evict the oldest entries
+  entries.delete(key);
+  entries.set(key, { data, storedAt: now, ttlSeconds });
+
+  const maxEntries = getMaxEntries();
+  while (entries.size > maxEntries) {
+    const oldest = entries.keys().next().value;
+    if (oldest === undefined) break;
+    entries.delete(oldest);
+  }
+}
+
+/**
+ * Remove all cached responses
+ */
+export function clearCache(): void {
+  entries.clear();
+}
+
+/**
+ * Number of cached responses (including not-yet-evicted expired ones)
+ */
+export function getCacheSize(): number {
+  return entries.size;
+}
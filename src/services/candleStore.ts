@@ -0,0 +1,288 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type {
+  CandleCoverage,
+  CoveredRange,
+  TimeSeriesMeta,
+  TimeSeriesValue
+} from "../types.js";
+import { timeZoneOffsetMs } from "./correlation.js";
+import { getClientMode } from "./fixtures.js";
+import { getDataDir, readJsonFile, writeJsonFile } from "./store.js";
+
+// Bars fetched for one symbol and interval, and the spans known to be complete
+export interface CandleSeries {
+  symbol: string;
+  interval: string;
+  meta?: TimeSeriesMeta;
+  bars: Map<string, TimeSeriesValue>;
+  ranges: CoveredRange[];
+  updated_at?: string;
+  persisted: boolean;
+}
+
+interface StoredSeries {
+  symbol: string;
+  interval: string;
+  meta?: TimeSeriesMeta;
+  bars: TimeSeriesValue[];
+  ranges: CoveredRange[];
+  updated_at: string;
+}
+
+const INTERVAL_MINUTES: Record<string, number> = {
+  "1min": 1, "5min": 5, "15min": 15, "30min": 30, "45min": 45,
+  "1h": 60, "2h": 120, "4h": 240, "8h": 480
+};
+
+// Series already read from disk, by file
+const loaded = new Map<string, CandleSeries>();
+
+/**
+ * Whether history requests go through the on-disk candle store
+ * (TWELVEDATA_CANDLE_STORE, default: true in live mode). Record, replay and
+ * mock default to off, so the requests a run makes don't depend on what
+ * an earlier run stored.
+ */
+export function isCandleStoreEnabled(): boolean {
+  const raw = process.env.TWELVEDATA_CANDLE_STORE;
+  if (raw === undefined) return getClientMode() === "live";
+  return !["0", "false", "no", "off"].includes(raw.toLowerCase());
+}
+
+export function getCandleStoreDir(): string {
+  return process.env.TWELVEDATA_CANDLE_STORE_DIR || path.join(getDataDir(), "candles");
+}
+
+function seriesFile(symbol: string, interval: string): string {
+  const slug = `${symbol}_${interval}`.replace(/[^A-Za-z0-9._]+/g, "-");
+  return path.join(getCandleStoreDir(), `${slug}.json`);
+}
+
+/**
+ * Full "YYYY-MM-DD HH:mm:ss" form, so dates and datetimes compare as strings
+ */
+export function normalizeDatetime(value: string): string {
+  const [date, time = "00:00:00"] = value.trim().split(" ");
+  return `${date} ${time.length === 5 ? `${time}:00` : time}`;
+}
+
+function wallClock(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 19).replace("T", " ");
+}
+
+function wallClockMs(datetime: string): number {
+  return Date.parse(`${normalizeDatetime(datetime).replace(" ", "T")}Z`);
+}
+
+/**
+ * Current exchange-local time, or undefined before the exchange is known
+ */
+export function nowInExchangeTime(series: CandleSeries): string | undefined {
+  const timeZone = series.meta?.exchange_timezone;
+  if (!timeZone) return undefined;
+  const now = Date.now();
+  try {
+    return wallClock(now + timeZoneOffsetMs(now, timeZone));
+  } catch {
+    return wallClock(now);
+  }
+}
+
+/**
+ * Whether a bar's period has ended; the bar still forming can change
+ */
+function isClosed(datetime: string, interval: string, now: string): boolean {
+  const start = new Date(wallClockMs(datetime));
+  let end: number;
+  if (INTERVAL_MINUTES[interval]) {
+    end = start.getTime() + INTERVAL_MINUTES[interval] * 60000;
+  } else if (interval === "1month") {
+    end = Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, start.getUTCDate());
+  } else {
+    end = start.getTime() + (interval === "1week" ? 7 : 1) * 86400000;
+  }
+  return wallClock(end) <= now;
+}
+
+export function emptySeries(symbol: string, interval: string, persisted: boolean): CandleSeries {
+  return { symbol, interval, bars: new Map(), ranges: [], persisted };
+}
+
+/**
+ * Stored bars for a symbol and interval. With the store disabled this is
+ * an empty series that lives only for the current request.
+ */
+export async function loadSeries(symbol: string, interval: string): Promise<CandleSeries> {
+  if (!isCandleStoreEnabled()) return emptySeries(symbol, interval, false);
+
+  const file = seriesFile(symbol, interval);
+  let series = loaded.get(file);
+  if (!series) {
+    const stored = await readJsonFile<StoredSeries | null>(file, null);
+    series = stored
+      ? {
+        symbol,
+        interval,
+        meta: stored.meta,
+        bars: new Map(stored.bars.map(bar => [bar.datetime, bar])),
+        ranges: stored.ranges,
+        updated_at: stored.updated_at,
+        persisted: true
+      }
+      : emptySeries(symbol, interval, true);
+    loaded.set(file, series);
+  }
+  return series;
+}
+
+export async function saveSeries(series: CandleSeries): Promise<void> {
+  if (!series.persisted) return;
+  series.updated_at = new Date().toISOString();
+  const stored: StoredSeries = {
+    symbol: series.symbol,
+    interval: series.interval,
+    meta: series.meta,
+    bars: [...series.bars.values()].sort((a, b) => a.datetime.localeCompare(b.datetime)),
+    ranges: series.ranges,
+    updated_at: series.updated_at
+  };
+  await writeJsonFile(seriesFile(series.symbol, series.interval), stored);
+}
+
+/**
+ * Covered range containing a datetime
+ */
+export function findRange(series: CandleSeries, datetime: string): CoveredRange | undefined {
+  return series.ranges.find(range => range.from <= datetime && datetime <= range.to);
+}
+
+/**
+ * End of the nearest covered range before a datetime
+ */
+export function coveredBefore(series: CandleSeries, datetime: string): string | undefined {
+  return series.ranges
+    .filter(range => range.to < datetime)
+    .reduce<string | undefined>((latest, range) => (!latest || range.to > latest ? range.to : latest), undefined);
+}
+
+function addRange(series: CandleSeries, range: CoveredRange): void {
+  const ranges = [...series.ranges, range].sort((a, b) => a.from.localeCompare(b.from));
+  const merged: CoveredRange[] = [];
+  for (const next of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && next.from <= last.to) {
+      if (next.to > last.to) last.to = next.to;
+    } else {
+      merged.push({ ...next });
+    }
+  }
+  series.ranges = merged;
+}
+
+/**
+ * Store the bars of one fetched window and mark the span they cover. A full
+ * page only covers back to its oldest bar. Coverage stops before the bar
+ * still forming, so the next request refreshes it. Returns how many bars
+ * were already stored.
+ */
+export function addBars(
+  series: CandleSeries,
+  meta: TimeSeriesMeta,
+  values: TimeSeriesValue[],
+  window: { from: string; to?: string },
+  full: boolean
+): number {
+  series.meta = meta;
+  let duplicates = 0;
+  for (const bar of values) {
+    if (series.bars.has(bar.datetime)) duplicates++;
+    series.bars.set(bar.datetime, bar);
+  }
+
+  const sorted = values.map(bar => normalizeDatetime(bar.datetime)).sort();
+  const newest = sorted[sorted.length - 1];
+  const now = nowInExchangeTime(series) ?? wallClock(Date.now());
+
+  const from = full && sorted.length > 0 ? sorted[0] : window.from;
+  let to = window.to ?? newest ?? now;
+  if (to > now) to = now;
+  if (newest && !isClosed(newest, series.interval, now)) {
+    const previous = sorted[sorted.length - 2];
+    if (!previous) return duplicates;
+    if (previous < to) to = previous;
+  }
+  if (from <= to) addRange(series, { from, to });
+  return duplicates;
+}
+
+/**
+ * Stored bars between two datetimes, newest first
+ */
+export function readBars(series: CandleSeries, from: string, to?: string): TimeSeriesValue[] {
+  return [...series.bars.values()]
+    .filter(bar => {
+      const datetime = normalizeDatetime(bar.datetime);
+      return datetime >= from && (!to || datetime <= to);
+    })
+    .sort((a, b) => b.datetime.localeCompare(a.datetime));
+}
+
+function toCoverage(stored: StoredSeries): CandleCoverage {
+  return {
+    symbol: stored.symbol,
+    interval: stored.interval,
+    ...(stored.meta?.exchange_timezone ? { exchange_timezone: stored.meta.exchange_timezone } : {}),
+    bars: stored.bars.length,
+    ...(stored.bars.length > 0
+      ? { first_datetime: stored.bars[0].datetime, last_datetime: stored.bars[stored.bars.length - 1].datetime }
+      : {}),
+    ranges: stored.ranges,
+    updated_at: stored.updated_at
+  };
+}
+
+async function readStore(): Promise<{ file: string; stored: StoredSeries }[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(getCandleStoreDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+  const files = names.filter(name => name.endsWith(".json")).map(name => path.join(getCandleStoreDir(), name));
+  const entries = await Promise.all(files.map(async file => ({
+    file,
+    stored: await readJsonFile<StoredSeries | null>(file, null)
+  })));
+  return entries.filter((entry): entry is { file: string; stored: StoredSeries } => entry.stored !== null);
+}
+
+function matches(stored: StoredSeries, symbol?: string, interval?: string): boolean {
+  return (!symbol || stored.symbol === symbol) && (!interval || stored.interval === interval);
+}
+
+/**
+ * What the store holds, optionally for one symbol and/or interval
+ */
+export async function getStoreCoverage(symbol?: string, interval?: string): Promise<CandleCoverage[]> {
+  return (await readStore())
+    .filter(entry => matches(entry.stored, symbol, interval))
+    .map(entry => toCoverage(entry.stored))
+    .sort((a, b) => a.symbol.localeCompare(b.symbol) || a.interval.localeCompare(b.interval));
+}
+
+/**
+ * Delete stored series, optionally only one symbol and/or interval.
+ * Returns what was removed.
+ */
+export async function purgeCandleStore(symbol?: string, interval?: string): Promise<CandleCoverage[]> {
+  const removed: CandleCoverage[] = [];
+  for (const { file, stored } of await readStore()) {
+    if (!matches(stored, symbol, interval)) continue;
+    await fs.rm(file, { force: true });
+    loaded.delete(file);
+    removed.push(toCoverage(stored));
+  }
+  return removed;
+}
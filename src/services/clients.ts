@@ -0,0 +1,134 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
+
+// A caller of the HTTP server, identified by its token. Clients with their
+// own api_key or credit limits get a separate rate limiter budget.
+export interface HttpClient {
+  name: string;
+  token: string;
+  api_key?: string;
+  credits_per_minute?: number;
+  credits_per_day?: number;
+}
+
+// Client whose request is being handled; unset for stdio and background work
+const requestClient = new AsyncLocalStorage<HttpClient>();
+
+let clients: HttpClient[] | undefined;
+
+function isPositiveInt(value: unknown): boolean {
+  return value === undefined || (Number.isInteger(value) && (value as number) > 0);
+}
+
+function readClientsFile(file: string): HttpClient[] {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(`Cannot read TWELVEDATA_HTTP_CLIENTS_FILE ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error(`TWELVEDATA_HTTP_CLIENTS_FILE ${file} must contain a JSON array of clients`);
+  }
+
+  return entries.map((entry, index) => {
+    const client = entry as Partial<HttpClient>;
+    if (typeof client.name !== "string" || !client.name || typeof client.token !== "string" || !client.token) {
+      throw new Error(`Client ${index} in ${file} needs a non-empty "name" and "token"`);
+    }
+    if (client.api_key !== undefined && (typeof client.api_key !== "string" || !client.api_key)) {
+      throw new Error(`Client "${client.name}" in ${file} has an empty "api_key"`);
+    }
+    if (!isPositiveInt(client.credits_per_minute) || !isPositiveInt(client.credits_per_day)) {
+      throw new Error(`Client "${client.name}" in ${file}: credit limits must be positive integers`);
+    }
+    return client as HttpClient;
+  });
+}
+
+/**
+ * Clients allowed to call the HTTP server, read once from:
+ * - TWELVEDATA_HTTP_AUTH_TOKENS: comma-separated tokens sharing the server's key and budget
+ * - TWELVEDATA_HTTP_CLIENTS_FILE: JSON array of { name, token, api_key?, credits_per_minute?, credits_per_day? }
+ * An empty list means authentication is off.
+ */
+export function getHttpClients(): HttpClient[] {
+  if (clients) return clients;
+
+  const fromTokens = (process.env.TWELVEDATA_HTTP_AUTH_TOKENS ?? "")
+    .split(",")
+    .map(token => token.trim())
+    .filter(Boolean)
+    .map((token, index) => ({ name: `token-${index + 1}`, token }));
+  const file = process.env.TWELVEDATA_HTTP_CLIENTS_FILE;
+  const loaded = [...fromTokens, ...(file ? readClientsFile(file) : [])];
+
+  const names = new Set<string>();
+  const tokens = new Set<string>();
+  for (const client of loaded) {
+    if (names.has(client.name)) throw new Error(`Duplicate HTTP client name "${client.name}"`);
+    if (tokens.has(client.token)) throw new Error(`HTTP client "${client.name}" reuses another client's token`);
+    names.add(client.name);
+    tokens.add(client.token);
+  }
+
+  clients = loaded;
+  return clients;
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/**
+ * Client for an "Authorization: Bearer <token>" or "X-API-Key: <token>"
+ * header value, compared in constant time
+ */
+export function authenticateClient(authorization?: string, apiKeyHeader?: string): HttpClient | undefined {
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const presented = (bearer ?? apiKeyHeader)?.trim();
+  if (!presented) return undefined;
+
+  const presentedDigest = digest(presented);
+  return getHttpClients().find(client => timingSafeEqual(digest(client.token), presentedDigest));
+}
+
+/**
+ * Run a request handler as a client, so upstream calls use its API key and
+ * credit budget
+ */
+export function runAsClient<T>(client: HttpClient | undefined, fn: () => T): T {
+  return client ? requestClient.run(client, fn) : fn();
+}
+
+export function getRequestClient(): HttpClient | undefined {
+  return requestClient.getStore();
+}
+
+/**
+ * Name of the client the current request runs as. It scopes alerts,
+ * watchlists, exports, the price stream and cached responses; stdio and
+ * servers without authentication share one unnamed scope.
+ */
+export function getClientScope(): string | undefined {
+  return getRequestClient()?.name;
+}
+
+/**
+ * Configured client by name, for background work done on its behalf
+ */
+export function findHttpClient(name: string | undefined): HttpClient | undefined {
+  return name === undefined ? undefined : getHttpClients().find(client => client.name === name);
+}
+
+/**
+ * Origins allowed to call the HTTP server from a browser
+ * (TWELVEDATA_CORS_ORIGINS, comma-separated; "*" allows any). Unset allows none.
+ */
+export function getCorsOrigins(): string[] {
+  return (process.env.TWELVEDATA_CORS_ORIGINS ?? "")
+    .split(",")
+    .map(origin => origin.trim().replace(/\/+$/, ""))
+    .filter(Boolean);
+}
@@ -0,0 +1,211 @@
+import type {
+  CorrelationMatrix,
+  RollingCorrelation,
+  TimeSeriesResponse
+} from "../types.js";
+import { toCandles, logReturns, type Candle } from "./analytics.js";
+import { BadRequestError, toErrorPayload } from "./errors.js";
+import { getTimeSeries } from "./twelvedata.js";
+
+export type CorrelationMethod = "pearson" | "spearman" | "both";
+
+// Intervals whose bars are whole days, aligned by date rather than instant
+const DAILY_INTERVALS = new Set(["1day", "1week", "1month"]);
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+export function timeZoneOffsetMs(utcMs: number, timeZone: string): number {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit"
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(new Date(utcMs));
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const local = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return local - utcMs;
+}
+
+/**
+ * Convert an exchange-local "YYYY-MM-DD HH:mm:ss" to a UTC timestamp.
+ * Unknown time zones are treated as UTC.
+ */
+export function toUtcMs(datetime: string, timeZone: string = "UTC"): number {
+  const [date, time = "00:00:00"] = datetime.trim().split(" ");
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour = 0, minute = 0, second = 0] = time.split(":").map(Number);
+  const local = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  try {
+    // Second pass settles instants next to a DST change
+    const first = local - timeZoneOffsetMs(local, timeZone);
+    return local - timeZoneOffsetMs(first, timeZone);
+  } catch {
+    return local;
+  }
+}
+
+/**
+ * Keep only the bars every series has, matched by date for daily intervals
+ * and by UTC instant (from each exchange's time zone) for intraday ones
+ */
+export function alignSeries(series: TimeSeriesResponse[], interval: string): Candle[][] {
+  const daily = DAILY_INTERVALS.has(interval);
+  const keyed = series.map(data => {
+    const timeZone = data.meta.exchange_timezone || "UTC";
+    return new Map(toCandles(data.values).map(candle => [
+      daily ? candle.datetime.slice(0, 10) : String(toUtcMs(candle.datetime, timeZone)),
+      candle
+    ]));
+  });
+
+  const [first, ...rest] = keyed;
+  const shared = [...first.keys()]
+    .filter(key => rest.every(map => map.has(key)))
+    .sort((a, b) => (daily ? a.localeCompare(b) : Number(a) - Number(b)));
+
+  return keyed.map(map => shared.map(key => map.get(key) as Candle));
+}
+
+/**
+ * Pearson correlation coefficient, or null when either side is constant
+ */
+export function pearson(x: number[], y: number[]): number | null {
+  const n = Math.min(x.length, y.length);
+  if (n < 2) return null;
+  const meanX = x.slice(0, n).reduce((sum, v) => sum + v, 0) / n;
+  const meanY = y.slice(0, n).reduce((sum, v) => sum + v, 0) / n;
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = x[i] - meanX;
+    const dy = y[i] - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+/**
+ * Ranks starting at 1, ties sharing their average rank
+ */
+export function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+  for (let i = 0; i < order.length;) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) result[order[k].index] = rank;
+    i = j + 1;
+  }
+  return result;
+}
+
+export function spearman(x: number[], y: number[]): number | null {
+  return pearson(ranks(x), ranks(y));
+}
+
+function round(value: number | null): number | null {
+  return value === null ? null : Number(value.toFixed(4));
+}
+
+function buildMatrix(
+  returns: number[][],
+  correlate: (x: number[], y: number[]) => number | null
+): (number | null)[][] {
+  return returns.map((x, i) => returns.map((y, j) => (i === j ? 1 : round(correlate(x, y)))));
+}
+
+/**
+ * Pearson correlation over each trailing window, summarized per pair
+ */
+function rollingCorrelations(symbols: string[], returns: number[][], window: number): RollingCorrelation[] {
+  const pairs: RollingCorrelation[] = [];
+  for (let i = 0; i < symbols.length; i++) {
+    for (let j = i + 1; j < symbols.length; j++) {
+      const values: number[] = [];
+      for (let end = window; end <= returns[i].length; end++) {
+        const value = pearson(returns[i].slice(end - window, end), returns[j].slice(end - window, end));
+        if (value !== null) values.push(value);
+      }
+      pairs.push({
+        symbols: [symbols[i], symbols[j]],
+        latest: round(values.length > 0 ? values[values.length - 1] : null),
+        min: round(values.length > 0 ? Math.min(...values) : null),
+        max: round(values.length > 0 ? Math.max(...values) : null),
+        mean: round(values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null)
+      });
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Correlation of log returns across symbols. Each symbol costs one time
+ * series request; symbols that fail are reported and left out.
+ */
+export async function getCorrelationMatrix(
+  symbols: string[],
+  interval: string,
+  outputsize: number,
+  method: CorrelationMethod,
+  rollingWindow?: number
+): Promise<CorrelationMatrix> {
+  const fetched = await Promise.all(symbols.map(async symbol => {
+    try {
+      return { symbol, data: (await getTimeSeries(symbol, interval, outputsize)).data };
+    } catch (error) {
+      return { symbol, error: toErrorPayload(error) };
+    }
+  }));
+
+  const loaded = fetched.filter((item): item is { symbol: string; data: TimeSeriesResponse } => "data" in item);
+  const failed = fetched.flatMap(item => ("error" in item && item.error ? [{ symbol: item.symbol, error: item.error }] : []));
+  if (loaded.length < 2) {
+    const reasons = failed.map(item => `${item.symbol}: ${item.error.message}`).join("; ");
+    throw new BadRequestError(`Need at least two symbols with data to correlate. ${reasons}`);
+  }
+
+  const aligned = alignSeries(loaded.map(item => item.data), interval);
+  const observations = aligned[0].length;
+  if (observations < 3) {
+    throw new BadRequestError(
+      `Only ${observations} bars are shared by all symbols at ${interval}. Use a longer outputsize or a different interval.`
+    );
+  }
+
+  const names = loaded.map(item => item.symbol);
+  const returns = aligned.map(candles => logReturns(candles));
+
+  return {
+    symbols: names,
+    interval,
+    observations: returns[0].length,
+    start: aligned[0][0].datetime,
+    end: aligned[0][observations - 1].datetime,
+    bars: Object.fromEntries(loaded.map(item => [item.symbol, item.data.values.length])),
+    ...(method !== "spearman" ? { pearson: buildMatrix(returns, pearson) } : {}),
+    ...(method !== "pearson" ? { spearman: buildMatrix(returns, spearman) } : {}),
+    ...(rollingWindow !== undefined
+      ? { rolling: { window: rollingWindow, pairs: rollingCorrelations(names, returns, rollingWindow) } }
+      : {}),
+    ...(failed.length > 0 ? { failed } : {})
+  };
+}
@@ -0,0 +1,245 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { SUPPORTED_INDICATORS, type IndicatorName } from "../constants.js";
+import type {
+  QuoteResponse,
+  TechnicalIndicatorResponse,
+  TimeSeriesMeta,
+  TimeSeriesResponse,
+  TimeSeriesValue
+} from "../types.js";
+import { normalizeDatetime } from "./candleStore.js";
+import { timeZoneOffsetMs } from "./correlation.js";
+import { BadRequestError, InvalidSymbolError } from "./errors.js";
+import { buildIndicatorResponse, warmupBars } from "./indicators.js";
+import type { IndicatorRequest, MarketDataProvider, TimeSeriesRequest } from "./providers.js";
+import { getDataDir } from "./store.js";
+
+// Bars returned when a request gives neither outputsize nor start_date (as Twelve Data)
+const DEFAULT_OUTPUTSIZE = 30;
+
+const REQUIRED_COLUMNS = ["datetime", "open", "high", "low", "close"];
+
+/**
+ * Directory of candle files (TWELVEDATA_CSV_DIR, default: <data dir>/csv)
+ */
+export function getCsvDir(): string {
+  return process.env.TWELVEDATA_CSV_DIR || path.join(getDataDir(), "csv");
+}
+
+// EUR/USD daily bars live in EUR-USD_1day.csv
+function filePrefix(symbol: string): string {
+  return `${symbol.trim().toUpperCase().replace(/[^A-Za-z0-9.]+/g, "-")}_`;
+}
+
+function csvFile(symbol: string, interval: string): string {
+  return path.join(getCsvDir(), `${filePrefix(symbol)}${interval}.csv`);
+}
+
+/**
+ * Bars from a CSV file, oldest first, or undefined when there is no file.
+ * The header row names the columns: datetime, open, high, low, close and
+ * optionally volume, in any order; other columns are ignored.
+ */
+async function readBars(file: string): Promise<TimeSeriesValue[] | undefined> {
+  let text: string;
+  try {
+    text = await fs.readFile(file, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+
+  const [header = "", ...rows] = text.split(/\r?\n/).filter(line => line.trim() !== "");
+  const columns = header.split(",").map(column => column.trim().toLowerCase());
+  const missing = REQUIRED_COLUMNS.filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new BadRequestError(`${file} has no ${missing.join(", ")} column in its header row`);
+  }
+
+  return rows
+    .map(row => {
+      const cells = row.split(",").map(cell => cell.trim());
+      const cell = (column: string) => cells[columns.indexOf(column)] ?? "";
+      return {
+        datetime: cell("datetime"),
+        open: cell("open"),
+        high: cell("high"),
+        low: cell("low"),
+        close: cell("close"),
+        ...(columns.includes("volume") ? { volume: cell("volume") } : {})
+      };
+    })
+    .sort((a, b) => a.datetime.localeCompare(b.datetime));
+}
+
+/**
+ * The symbol's series whose last bar is newest, across all its intervals
+ */
+async function latestBars(symbol: string): Promise<TimeSeriesValue[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(getCsvDir());
+  } catch {
+    files = [];
+  }
+
+  const prefix = filePrefix(symbol);
+  let latest: TimeSeriesValue[] = [];
+  for (const file of files.filter(name => name.startsWith(prefix) && name.endsWith(".csv"))) {
+    const bars = await readBars(path.join(getCsvDir(), file)) ?? [];
+    if (bars.length > 0 && (latest.length === 0 || bars[bars.length - 1].datetime > latest[latest.length - 1].datetime)) {
+      latest = bars;
+    }
+  }
+
+  if (latest.length === 0) {
+    throw new InvalidSymbolError(`No local CSV data for ${symbol} in ${getCsvDir()}`);
+  }
+  return latest;
+}
+
+// Datetimes are read as UTC
+function timestampOf(datetime: string): number {
+  const ms = Date.parse(datetime.includes(" ") ? `${datetime.replace(" ", "T")}Z` : `${datetime}T00:00:00Z`);
+  return Number.isNaN(ms) ? 0 : Math.floor(ms / 1000);
+}
+
+function quoteCurrency(symbol: string): string {
+  return symbol.includes("/") ? symbol.split("/")[1].trim().toUpperCase() : "";
+}
+
+// Change figures with Twelve Data's precision
+function changeText(value: number): string {
+  return value.toFixed(5);
+}
+
+function meta(symbol: string, interval: string, timeZone: string): TimeSeriesMeta {
+  return {
+    symbol: symbol.toUpperCase(),
+    interval,
+    currency: quoteCurrency(symbol),
+    exchange_timezone: timeZone,
+    exchange: "CSV",
+    type: "Local data"
+  };
+}
+
+/**
+ * Intraday bars moved from UTC to a time zone's wall clock; daily and
+ * longer bars keep their dates
+ */
+function inTimeZone(bars: TimeSeriesValue[], timeZone: string): TimeSeriesValue[] {
+  if (timeZone === "UTC") return bars;
+  return bars.map(bar => {
+    if (!bar.datetime.includes(" ")) return bar;
+    const utcMs = timestampOf(bar.datetime) * 1000;
+    const local = new Date(utcMs + timeZoneOffsetMs(utcMs, timeZone));
+    return { ...bar, datetime: local.toISOString().slice(0, 19).replace("T", " ") };
+  });
+}
+
+// A date-only end_date takes in that whole day
+function endOfRange(endDate: string): string {
+  return endDate.includes(" ") ? normalizeDatetime(endDate) : `${endDate} 23:59:59`;
+}
+
+/**
+ * Bars in the requested range. Dates in and datetimes out are in the
+ * request's time zone; "Exchange" means the files' own, UTC.
+ */
+async function getTimeSeries(request: TimeSeriesRequest): Promise<TimeSeriesResponse> {
+  const file = csvFile(request.symbol, request.interval);
+  const stored = await readBars(file);
+  if (!stored) {
+    throw new InvalidSymbolError(`No local CSV data for ${request.symbol} at ${request.interval} (expected ${file})`);
+  }
+
+  const timeZone = !request.timezone || request.timezone === "Exchange" ? "UTC" : request.timezone;
+  const bars = inTimeZone(stored, timeZone);
+  const start = request.start_date ? normalizeDatetime(request.start_date) : undefined;
+  const end = request.end_date ? endOfRange(request.end_date) : undefined;
+  const inRange = bars.filter(bar => {
+    const datetime = normalizeDatetime(bar.datetime);
+    return (!start || datetime >= start) && (!end || datetime <= end);
+  });
+  const outputsize = request.outputsize ?? (request.start_date ? inRange.length : DEFAULT_OUTPUTSIZE);
+  const values = inRange.slice(-outputsize).reverse();
+  if (values.length === 0) {
+    throw new BadRequestError(`No local CSV data for ${request.symbol} at ${request.interval} on the specified dates`);
+  }
+
+  return { meta: meta(request.symbol, request.interval, timeZone), values, status: "ok" };
+}
+
+/**
+ * Quote from the daily bars when there are any, else the newest series
+ */
+async function getQuote(symbol: string): Promise<QuoteResponse> {
+  const bars = await readBars(csvFile(symbol, "1day")) ?? await latestBars(symbol);
+  if (bars.length === 0) throw new InvalidSymbolError(`No local CSV data for ${symbol} in ${getCsvDir()}`);
+
+  const last = bars[bars.length - 1];
+  const previous = bars[bars.length - 2] ?? last;
+  const previousClose = Number(previous.close);
+  const change = Number(last.close) - previousClose;
+
+  return {
+    symbol: symbol.toUpperCase(),
+    name: symbol.toUpperCase(),
+    exchange: "CSV",
+    currency: quoteCurrency(symbol),
+    datetime: last.datetime,
+    timestamp: timestampOf(last.datetime),
+    open: last.open,
+    high: last.high,
+    low: last.low,
+    close: last.close,
+    ...(last.volume !== undefined ? { volume: last.volume } : {}),
+    previous_close: previous.close,
+    change: changeText(change),
+    percent_change: changeText(previousClose !== 0 ? (change / previousClose) * 100 : 0),
+    is_market_open: false
+  };
+}
+
+async function latestClose(symbol: string): Promise<{ rate: number; timestamp: number }> {
+  const bars = await latestBars(symbol);
+  const last = bars[bars.length - 1];
+  return { rate: Number(last.close), timestamp: timestampOf(last.datetime) };
+}
+
+/**
+ * Indicators computed locally from the CSV candles, like source "local"
+ */
+async function getTechnicalIndicator(request: IndicatorRequest): Promise<TechnicalIndicatorResponse> {
+  if (!(SUPPORTED_INDICATORS as readonly string[]).includes(request.indicator)) {
+    throw new BadRequestError(`${request.indicator} can't be computed from local CSV data`);
+  }
+  const indicator = request.indicator as IndicatorName;
+  const outputsize = request.outputsize ?? DEFAULT_OUTPUTSIZE;
+  const series = await getTimeSeries({
+    symbol: request.symbol,
+    interval: request.interval,
+    outputsize: outputsize + warmupBars(indicator, request.params)
+  });
+  return buildIndicatorResponse(series, indicator, outputsize, request.params);
+}
+
+/**
+ * Candles from local CSV files, one file per symbol and interval, for
+ * offline use or as a fallback when Twelve Data refuses a request. Prices,
+ * quotes and rates come from the newest bar.
+ */
+export const csvProvider: MarketDataProvider = {
+  name: "csv",
+  getPrice: async symbol => ({ price: (await latestBars(symbol)).slice(-1)[0].close }),
+  getQuote,
+  getTimeSeries,
+  getExchangeRate: async symbol => ({ symbol: symbol.toUpperCase(), ...await latestClose(symbol) }),
+  convertCurrency: async (symbol, amount) => {
+    const { rate, timestamp } = await latestClose(symbol);
+    return { symbol: symbol.toUpperCase(), rate, amount: Number((rate * amount).toFixed(8)), timestamp };
+  },
+  getTechnicalIndicator
+};
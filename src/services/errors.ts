@@ -0,0 +1,200 @@
+import type { ApiError } from "../types.js";
+
+// Machine-readable error codes surfaced in tool results
+export type TwelveDataErrorCode =
+  | "rate_limited"
+  | "invalid_symbol"
+  | "plan_restricted"
+  | "auth"
+  | "network"
+  | "upstream"
+  | "bad_request";
+
+interface ErrorDetails {
+  status?: number;
+  apiCode?: number;
+  retryAfterMs?: number;
+}
+
+/**
+ * Base class for all Twelve Data client errors
+ */
+export class TwelveDataError extends Error {
+  readonly code: TwelveDataErrorCode;
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly apiCode?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    code: TwelveDataErrorCode,
+    message: string,
+    retryable: boolean,
+    details: ErrorDetails = {}
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.retryable = retryable;
+    this.status = details.status;
+    this.apiCode = details.apiCode;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+/**
+ * Minute or day credit budget exceeded, locally or upstream (429)
+ */
+export class RateLimitError extends TwelveDataError {
+  constructor(message: string, details: ErrorDetails = {}) {
+    super("rate_limited", message, true, details);
+  }
+}
+
+/**
+ * Client-side credit budget exceeded. Not retried automatically: the
+ * limiter has already waited as long as it is allowed to.
+ */
+export class CreditBudgetError extends RateLimitError {}
+
+/**
+ * Symbol not found or not recognised by Twelve Data
+ */
+export class InvalidSymbolError extends TwelveDataError {
+  constructor(message: string, details: ErrorDetails = {}) {
+    super("invalid_symbol", message, false, details);
+  }
+}
+
+/**
+ * Endpoint or data not available on the current plan (403)
+ */
+export class PlanRestrictedError extends TwelveDataError {
+  constructor(message: string, details: ErrorDetails = {}) {
+    super("plan_restricted", message, false, details);
+  }
+}
+
+/**
+ * Missing or invalid API key (401)
+ */
+export class AuthError extends TwelveDataError {
+  constructor(message: string, details: ErrorDetails = {}) {
+    super("auth", message, false, details);
+  }
+}
+
+/**
+ * Request never reached Twelve Data or the connection failed
+ */
+export class NetworkError extends TwelveDataError {
+  constructor(message: string, details: ErrorDetails = {}) {
+    super("network", message, true, details);
+  }
+}
+
+/**
+ * Twelve Data server-side failure (5xx)
+ */
+export class UpstreamError extends TwelveDataError {
+  constructor(message: string, details: ErrorDetails = {}) {
+    super("upstream", message, true, details);
+  }
+}
+
+/**
+ * Any other rejected request (bad parameters, unsupported interval, ...)
+ */
+export class BadRequestError extends TwelveDataError {
+  constructor(message: string, details: ErrorDetails = {}) {
+    super("bad_request", message, false, details);
+  }
+}
+
+/**
+ * Map a status code (HTTP or ApiError.code) and message to a typed error
+ */
+function classify(
+  status: number,
+  message: string,
+  details: ErrorDetails
+): TwelveDataError {
+  if (status === 429) return new RateLimitError(message, details);
+  if (status === 401) return new AuthError(message, details);
+  if (status === 403) return new PlanRestrictedError(message, details);
+  if (status >= 500) return new UpstreamError(message, details);
+  if (status === 404 || /symbol/i.test(message)) {
+    return new InvalidSymbolError(message, details);
+  }
+  return new BadRequestError(message, details);
+}
+
+/**
+ * Build a typed error from an error payload returned in the response body
+ */
+export function errorFromApiError(data: ApiError, retryAfterMs?: number): TwelveDataError {
+  return classify(
+    data.code,
+    `Twelve Data API error: ${data.message} (code: ${data.code})`,
+    { apiCode: data.code, retryAfterMs }
+  );
+}
+
+/**
+ * Build a typed error from a non-2xx HTTP response
+ */
+export function errorFromHttpStatus(
+  status: number,
+  statusText: string,
+  retryAfterMs?: number
+): TwelveDataError {
+  return classify(
+    status,
+    `Twelve Data API HTTP error: ${status} ${statusText}`,
+    { status, retryAfterMs }
+  );
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (value === null || value.trim() === "") return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Error details included in tool results' structuredContent
+export interface ToolErrorPayload {
+  [key: string]: unknown;
+  code: TwelveDataErrorCode | "internal";
+  message: string;
+  retryable: boolean;
+  retry_after_seconds?: number;
+}
+
+/**
+ * Describe any thrown value as a machine-readable error payload
+ */
+export function toErrorPayload(error: unknown): ToolErrorPayload {
+  if (error instanceof TwelveDataError) {
+    return {
+      code: error.code,
+      message: error.message,
+      retryable: error.retryable,
+      ...(error.retryAfterMs !== undefined
+        ? { retry_after_seconds: Math.ceil(error.retryAfterMs / 1000) }
+        : {})
+    };
+  }
+
+  return {
+    code: "internal",
+    message: error instanceof Error ? error.message : "Unknown error",
+    retryable: false
+  };
+}
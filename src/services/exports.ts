@@ -0,0 +1,141 @@
+import { randomBytes } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { ExportFile, TimeSeriesValue } from "../types.js";
+import { getClientScope } from "./clients.js";
+import { BadRequestError } from "./errors.js";
+import { clientDirName, getDataDir } from "./store.js";
+import { formatRowsAsCsv } from "./twelvedata.js";
+
+export type ExportFormat = "csv" | "json";
+
+// File names handed out as resource names; anything else is rejected on read
+const EXPORT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*\.(csv|json)$/;
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  json: "application/json"
+};
+
+/**
+ * Directory the current client's export files are written to: each HTTP
+ * client has a client-<name> directory inside it. Override with
+ * TWELVEDATA_EXPORT_DIR.
+ */
+export function getExportDir(): string {
+  const dir = process.env.TWELVEDATA_EXPORT_DIR || path.join(getDataDir(), "exports");
+  const client = getClientScope();
+  return client === undefined ? dir : path.join(dir, clientDirName(client));
+}
+
+function exportPath(name: string): string {
+  if (!EXPORT_NAME_PATTERN.test(name)) {
+    throw new BadRequestError(`Invalid export name "${name}"`);
+  }
+  return path.join(getExportDir(), name);
+}
+
+/**
+ * File name from its parts, e.g. XAU-USD_1h_rsi_20240105T143000123Z_3f9a1c.csv.
+ * The random suffix keeps exports written in the same millisecond apart.
+ */
+function exportName(parts: string[], format: ExportFormat, now: Date): string {
+  const stamp = now.toISOString().replace(/[-:.]/g, "");
+  const slug = parts
+    .map(part => part.replace(/[^A-Za-z0-9.]+/g, "-").replace(/^-+|-+$/g, ""))
+    .filter(Boolean)
+    .join("_");
+  return `${slug}_${stamp}_${randomBytes(3).toString("hex")}.${format}`;
+}
+
+/**
+ * Join indicator columns onto candles by datetime. Every candle is kept;
+ * candles without an indicator value (the warm-up period) get empty cells.
+ */
+export function joinByDatetime(
+  candles: TimeSeriesValue[],
+  rows: Record<string, string>[]
+): Record<string, unknown>[] {
+  const byDatetime = new Map(rows.map(row => [row.datetime, row]));
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))].filter(column => column !== "datetime");
+  return candles.map(candle => {
+    const row = byDatetime.get(candle.datetime);
+    return {
+      ...candle,
+      ...Object.fromEntries(columns.map(column => [column, row?.[column] ?? ""]))
+    };
+  });
+}
+
+/**
+ * Write rows to the export directory as CSV, or as JSON with the metadata
+ * alongside. Returns the stored file's details.
+ */
+export async function writeExport(
+  parts: string[],
+  rows: Record<string, unknown>[],
+  format: ExportFormat,
+  meta: Record<string, unknown> = {}
+): Promise<ExportFile> {
+  const now = new Date();
+  const name = exportName(parts, format, now);
+  const file = exportPath(name);
+  const text = format === "csv"
+    ? `${formatRowsAsCsv(rows)}\n`
+    : JSON.stringify({ meta, values: rows }, null, 2);
+
+  await fs.mkdir(getExportDir(), { recursive: true });
+  // Never overwrite an earlier export
+  await fs.writeFile(file, text, { flag: "wx" });
+
+  return {
+    name,
+    format,
+    mime_type: MIME_TYPES[format],
+    rows: rows.length,
+    columns: [...new Set(rows.flatMap(row => Object.keys(row)))],
+    bytes: Buffer.byteLength(text),
+    created_at: now.toISOString()
+  };
+}
+
+/**
+ * Export files currently in the export directory, newest first
+ */
+export async function listExports(): Promise<{ name: string; mime_type: string; bytes: number; modified_at: string }[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(getExportDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const files = await Promise.all(names.filter(name => EXPORT_NAME_PATTERN.test(name)).map(async name => {
+    const stat = await fs.stat(path.join(getExportDir(), name));
+    return {
+      name,
+      mime_type: MIME_TYPES[path.extname(name).slice(1) as ExportFormat],
+      bytes: stat.size,
+      modified_at: stat.mtime.toISOString()
+    };
+  }));
+  return files.sort((a, b) => b.modified_at.localeCompare(a.modified_at));
+}
+
+/**
+ * Contents of an export file by name
+ */
+export async function readExport(name: string): Promise<{ text: string; mimeType: string }> {
+  try {
+    return {
+      text: await fs.readFile(exportPath(name), "utf8"),
+      mimeType: MIME_TYPES[path.extname(name).slice(1) as ExportFormat]
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new BadRequestError(`No export named "${name}". It may have been removed from the export directory.`);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,119 @@
+import { createHash } from "node:crypto";
+import path from "node:path";
+import { BadRequestError } from "./errors.js";
+import { getDataDir, readJsonFile, writeJsonFile } from "./store.js";
+
+export type ClientMode = "live" | "record" | "replay" | "mock";
+
+type RequestParams = Record<string, string | number | undefined>;
+
+// One recorded upstream exchange
+interface Fixture {
+  endpoint: string;
+  params: Record<string, string>;
+  status: number;
+  body: unknown;
+  recorded_at: string;
+}
+
+const MODES: ClientMode[] = ["live", "record", "replay", "mock"];
+
+/**
+ * Where upstream responses come from (TWELVEDATA_MODE, default: live):
+ * - live: Twelve Data
+ * - record: Twelve Data, saving every response as a fixture
+ * - replay: saved fixtures only; a request without one fails
+ * - mock: deterministic synthetic data for any symbol
+ */
+export function getClientMode(): ClientMode {
+  const raw = process.env.TWELVEDATA_MODE?.toLowerCase() ?? "live";
+  if (!MODES.includes(raw as ClientMode)) {
+    throw new BadRequestError(`Unknown TWELVEDATA_MODE "${raw}". Use ${MODES.join(", ")}.`);
+  }
+  return raw as ClientMode;
+}
+
+/**
+ * Replay and mock answer without the network, an API key or credits
+ */
+export function isOfflineMode(): boolean {
+  const mode = getClientMode();
+  return mode === "replay" || mode === "mock";
+}
+
+export function getFixturesDir(): string {
+  return process.env.TWELVEDATA_FIXTURES_DIR || path.join(getDataDir(), "fixtures");
+}
+
+// Set parameters in key order, so equal requests share a fixture
+function canonicalParams(params: RequestParams): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(params)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, String(value)])
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+/**
+ * Fixture file for a request, e.g. time_series_3f1c2a9b0d4e5f67.json
+ */
+function fixtureFile(endpoint: string, params: RequestParams): string {
+  const canonical = JSON.stringify([endpoint, canonicalParams(params)]);
+  const hash = createHash("sha256").update(canonical).digest("hex").slice(0, 16);
+  const slug = endpoint.replace(/^\//, "").replace(/[^A-Za-z0-9]+/g, "-");
+  return path.join(getFixturesDir(), `${slug}_${hash}.json`);
+}
+
+function describeRequest(endpoint: string, params: RequestParams): string {
+  const query = new URLSearchParams(canonicalParams(params)).toString();
+  return `${endpoint}${query ? `?${query}` : ""}`;
+}
+
+/**
+ * Save a live response as the fixture for its request and hand back an
+ * unread copy for normal processing
+ */
+export async function recordFixture(
+  endpoint: string,
+  params: RequestParams,
+  response: Response
+): Promise<Response> {
+  const text = await response.text();
+  let body: unknown = text;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Kept as text; replay serves it back unchanged
+  }
+
+  const fixture: Fixture = {
+    endpoint,
+    params: canonicalParams(params),
+    status: response.status,
+    body,
+    recorded_at: new Date().toISOString()
+  };
+  await writeJsonFile(fixtureFile(endpoint, params), fixture);
+
+  return new Response(text, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers
+  });
+}
+
+/**
+ * The recorded response for a request. Fails when none was recorded.
+ */
+export async function replayFixture(endpoint: string, params: RequestParams): Promise<Response> {
+  const fixture = await readJsonFile<Fixture | null>(fixtureFile(endpoint, params), null);
+  if (!fixture) {
+    throw new BadRequestError(
+      `No recorded response for ${describeRequest(endpoint, params)} in ${getFixturesDir()}. ` +
+      "Record it with TWELVEDATA_MODE=record."
+    );
+  }
+  const text = typeof fixture.body === "string" ? fixture.body : JSON.stringify(fixture.body);
+  return new Response(text, { status: fixture.status, headers: { "content-type": "application/json" } });
+}
@@ -0,0 +1,65 @@
+import { READINESS_CACHE_MS, READINESS_TIMEOUT_MS } from "../constants.js";
+import type { ReadinessCheck, ReadinessReport } from "../types.js";
+import { getHttpClients } from "./clients.js";
+import { getClientMode, isOfflineMode } from "./fixtures.js";
+import { getApiBaseUrl } from "./twelvedata.js";
+
+let lastProbe: { at: number; check: ReadinessCheck } | undefined;
+
+/**
+ * Whether Twelve Data answers at all. Requests the API base URL without a key,
+ * which costs no credits; any response below 500 counts as reachable.
+ */
+async function probeUpstream(): Promise<ReadinessCheck> {
+  if (lastProbe && Date.now() - lastProbe.at < READINESS_CACHE_MS) return lastProbe.check;
+
+  const started = Date.now();
+  let check: ReadinessCheck;
+  try {
+    const response = await fetch(getApiBaseUrl(), { signal: AbortSignal.timeout(READINESS_TIMEOUT_MS) });
+    check = response.status < 500
+      ? { ok: true }
+      : { ok: false, message: `Twelve Data answered HTTP ${response.status}` };
+  } catch (error) {
+    check = { ok: false, message: `Cannot reach Twelve Data: ${error instanceof Error ? error.message : error}` };
+  }
+
+  check = { ...check, latency_ms: Date.now() - started, checked_at: new Date(started).toISOString() };
+  lastProbe = { at: started, check };
+  return check;
+}
+
+/**
+ * Whether every request has an API key: the server's, or failing that each
+ * HTTP client's own
+ */
+function checkApiKey(): ReadinessCheck {
+  if (process.env.TWELVEDATA_API_KEY) return { ok: true };
+
+  const clients = getHttpClients();
+  const keyless = clients.filter(client => !client.api_key).map(client => client.name);
+  if (clients.length === 0) return { ok: false, message: "TWELVEDATA_API_KEY is not set" };
+  if (keyless.length > 0) {
+    return { ok: false, message: `TWELVEDATA_API_KEY is not set and clients without an api_key need it: ${keyless.join(", ")}` };
+  }
+  return { ok: true, message: "TWELVEDATA_API_KEY is not set; every HTTP client has its own api_key" };
+}
+
+/**
+ * Readiness: every request has an API key and the upstream is reachable.
+ * The probe needs no key, so client keys alone count as ready.
+ */
+export async function checkReadiness(): Promise<ReadinessReport> {
+  if (isOfflineMode()) {
+    const offline = { ok: true, message: `Not used in ${getClientMode()} mode` };
+    return { status: "ready", checks: { api_key: offline, upstream: offline } };
+  }
+
+  const apiKey = checkApiKey();
+  const upstream = await probeUpstream();
+
+  return {
+    status: apiKey.ok && upstream.ok ? "ready" : "not_ready",
+    checks: { api_key: apiKey, upstream }
+  };
+}
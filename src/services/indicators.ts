@@ -0,0 +1,482 @@
+import type { IndicatorName } from "../constants.js";
+import type {
+  ApiResult,
+  TimeSeriesResponse,
+  TechnicalIndicatorResponse
+} from "../types.js";
+import { toCandles, type Candle } from "./analytics.js";
+import { IndicatorParametersSchema } from "../schemas/twelvedata.js";
+import { PlanRestrictedError, BadRequestError } from "./errors.js";
+import { getTimeSeries, getTechnicalIndicator } from "./twelvedata.js";
+
+// Indicator values aligned with the input candles; null during warm-up
+type Series = (number | null)[];
+
+export type IndicatorParams = Record<string, string | number | undefined>;
+
+export type IndicatorSource = "api" | "local" | "auto";
+
+// Indicator data plus where it was computed
+export interface IndicatorResult extends ApiResult<TechnicalIndicatorResponse> {
+  source: "api" | "local";
+  fallback_reason?: string;
+}
+
+type SeriesType = "open" | "high" | "low" | "close" | "hl2" | "hlc3" | "ohlc4";
+
+// Maximum candles Twelve Data returns in one time series request
+const MAX_OUTPUTSIZE = 5000;
+
+/**
+ * Validate and default the parameters for one indicator. Keys that are
+ * unset are ignored; keys that don't apply to the indicator are rejected.
+ */
+export function parseIndicatorParams(
+  indicator: IndicatorName,
+  input: Record<string, unknown>
+): IndicatorParams {
+  const provided = Object.fromEntries(
+    Object.entries(input).filter(([, value]) => value !== undefined)
+  );
+  const parsed = IndicatorParametersSchema.safeParse({ ...provided, indicator });
+  if (!parsed.success) {
+    const details = parsed.error.issues
+      .map(issue => `${issue.path.join(".") || "parameters"}: ${issue.message}`)
+      .join("; ");
+    throw new BadRequestError(`Invalid parameters for ${indicator.toUpperCase()}: ${details}`);
+  }
+
+  const { indicator: _indicator, ...params } = parsed.data;
+  return params;
+}
+
+// =============================================================================
+// Building blocks
+// =============================================================================
+
+function num(params: IndicatorParams, key: string, fallback: number): number {
+  const value = Number(params[key]);
+  return params[key] !== undefined && Number.isFinite(value) ? value : fallback;
+}
+
+// time_period when none is given, as Twelve Data defaults it
+function defaultPeriod(indicator: IndicatorName): number {
+  return indicator === "bbands" ? 20 : 14;
+}
+
+/**
+ * Price series selected by `series_type` (default: close)
+ */
+function priceSeries(candles: Candle[], type: SeriesType): number[] {
+  return candles.map(c => {
+    switch (type) {
+      case "open": return c.open;
+      case "high": return c.high;
+      case "low": return c.low;
+      case "hl2": return (c.high + c.low) / 2;
+      case "hlc3": return (c.high + c.low + c.close) / 3;
+      case "ohlc4": return (c.open + c.high + c.low + c.close) / 4;
+      default: return c.close;
+    }
+  });
+}
+
+/**
+ * Apply a calculation to the defined tail of a series and re-align it
+ */
+function onDefined(values: Series, calc: (defined: number[]) => Series): Series {
+  const start = values.findIndex(v => v !== null);
+  if (start === -1) return values.map(() => null);
+  const tail = calc(values.slice(start) as number[]);
+  return [...values.slice(0, start).map(() => null), ...tail];
+}
+
+export function sma(values: number[], period: number): Series {
+  let sum = 0;
+  return values.map((v, i) => {
+    sum += v;
+    if (i >= period) sum -= values[i - period];
+    return i >= period - 1 ? sum / period : null;
+  });
+}
+
+/**
+ * Exponential moving average seeded with the SMA of the first `period` values
+ */
+export function ema(values: number[], period: number): Series {
+  const alpha = 2 / (period + 1);
+  let prev: number | null = null;
+  return values.map((v, i) => {
+    if (i < period - 1) return null;
+    if (prev === null) {
+      prev = values.slice(0, period).reduce((sum, x) => sum + x, 0) / period;
+    } else {
+      prev = alpha * v + (1 - alpha) * prev;
+    }
+    return prev;
+  });
+}
+
+export function wma(values: number[], period: number): Series {
+  const weightSum = (period * (period + 1)) / 2;
+  return values.map((_, i) => {
+    if (i < period - 1) return null;
+    let total = 0;
+    for (let j = 0; j < period; j++) {
+      total += values[i - period + 1 + j] * (j + 1);
+    }
+    return total / weightSum;
+  });
+}
+
+function movingAverage(values: number[], period: number, type: string): Series {
+  switch (type.toUpperCase()) {
+    case "EMA": return ema(values, period);
+    case "WMA": return wma(values, period);
+    default: return sma(values, period);
+  }
+}
+
+/**
+ * Wilder smoothing of `values` starting at index `start`, seeded with their mean
+ */
+function wilder(values: number[], period: number, start: number): Series {
+  const out: Series = values.map(() => null);
+  if (values.length < start + period) return out;
+
+  let avg = values.slice(start, start + period).reduce((sum, v) => sum + v, 0) / period;
+  out[start + period - 1] = avg;
+  for (let i = start + period; i < values.length; i++) {
+    avg = (avg * (period - 1) + values[i]) / period;
+    out[i] = avg;
+  }
+  return out;
+}
+
+function highest(values: number[], end: number, period: number): number {
+  return Math.max(...values.slice(end - period + 1, end + 1));
+}
+
+function lowest(values: number[], end: number, period: number): number {
+  return Math.min(...values.slice(end - period + 1, end + 1));
+}
+
+function trueRange(candles: Candle[]): number[] {
+  return candles.map((c, i) => {
+    if (i === 0) return c.high - c.low;
+    const prevClose = candles[i - 1].close;
+    return Math.max(c.high - c.low, Math.abs(c.high - prevClose), Math.abs(c.low - prevClose));
+  });
+}
+
+// =============================================================================
+// Indicators
+// =============================================================================
+
+export function rsi(values: number[], period: number): Series {
+  const gains = values.map((v, i) => (i === 0 ? 0 : Math.max(0, v - values[i - 1])));
+  const losses = values.map((v, i) => (i === 0 ? 0 : Math.max(0, values[i - 1] - v)));
+  const avgGain = wilder(gains, period, 1);
+  const avgLoss = wilder(losses, period, 1);
+
+  return values.map((_, i) => {
+    const gain = avgGain[i];
+    const loss = avgLoss[i];
+    if (gain === null || loss === null) return null;
+    if (loss === 0) return 100;
+    return 100 - 100 / (1 + gain / loss);
+  });
+}
+
+export function macd(
+  values: number[],
+  fast: number,
+  slow: number,
+  signal: number
+): Record<string, Series> {
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  const line = values.map((_, i) => {
+    const f = fastEma[i];
+    const s = slowEma[i];
+    return f === null || s === null ? null : f - s;
+  });
+  const signalLine = onDefined(line, defined => ema(defined, signal));
+  const hist = line.map((m, i) => {
+    const s = signalLine[i];
+    return m === null || s === null ? null : m - s;
+  });
+  return { macd: line, macd_signal: signalLine, macd_hist: hist };
+}
+
+export function bbands(
+  values: number[],
+  period: number,
+  sd: number,
+  maType: string
+): Record<string, Series> {
+  const middle = movingAverage(values, period, maType);
+  const width = values.map((_, i) => {
+    if (i < period - 1) return null;
+    const window = values.slice(i - period + 1, i + 1);
+    const mean = window.reduce((sum, v) => sum + v, 0) / period;
+    return Math.sqrt(window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / period);
+  });
+  return {
+    upper_band: middle.map((m, i) => (m === null || width[i] === null ? null : m + sd * (width[i] as number))),
+    middle_band: middle,
+    lower_band: middle.map((m, i) => (m === null || width[i] === null ? null : m - sd * (width[i] as number)))
+  };
+}
+
+export function stoch(
+  candles: Candle[],
+  fastK: number,
+  slowK: number,
+  slowD: number,
+  slowKMa: string,
+  slowDMa: string
+): Record<string, Series> {
+  const highs = candles.map(c => c.high);
+  const lows = candles.map(c => c.low);
+  const rawK = candles.map((c, i) => {
+    if (i < fastK - 1) return null;
+    const hh = highest(highs, i, fastK);
+    const ll = lowest(lows, i, fastK);
+    return hh === ll ? 0 : (100 * (c.close - ll)) / (hh - ll);
+  });
+  const k = onDefined(rawK, defined => movingAverage(defined, slowK, slowKMa));
+  const d = onDefined(k, defined => movingAverage(defined, slowD, slowDMa));
+  return { slow_k: k, slow_d: d };
+}
+
+export function atr(candles: Candle[], period: number): Series {
+  return wilder(trueRange(candles), period, 1);
+}
+
+export function adx(candles: Candle[], period: number): Series {
+  const tr = trueRange(candles);
+  const plusDm = candles.map((c, i) => {
+    if (i === 0) return 0;
+    const up = c.high - candles[i - 1].high;
+    const down = candles[i - 1].low - c.low;
+    return up > down && up > 0 ? up : 0;
+  });
+  const minusDm = candles.map((c, i) => {
+    if (i === 0) return 0;
+    const up = c.high - candles[i - 1].high;
+    const down = candles[i - 1].low - c.low;
+    return down > up && down > 0 ? down : 0;
+  });
+
+  const smoothTr = wilder(tr, period, 1);
+  const smoothPlus = wilder(plusDm, period, 1);
+  const smoothMinus = wilder(minusDm, period, 1);
+
+  const dx = candles.map((_, i) => {
+    const t = smoothTr[i];
+    const p = smoothPlus[i];
+    const m = smoothMinus[i];
+    if (t === null || p === null || m === null || t === 0) return null;
+    const plusDi = (100 * p) / t;
+    const minusDi = (100 * m) / t;
+    const total = plusDi + minusDi;
+    return total === 0 ? 0 : (100 * Math.abs(plusDi - minusDi)) / total;
+  });
+
+  const start = dx.findIndex(v => v !== null);
+  if (start === -1) return dx;
+  return wilder(dx.map(v => v ?? 0), period, start);
+}
+
+export function cci(candles: Candle[], period: number): Series {
+  const typical = candles.map(c => (c.high + c.low + c.close) / 3);
+  const mean = sma(typical, period);
+  return typical.map((tp, i) => {
+    const m = mean[i];
+    if (m === null) return null;
+    const window = typical.slice(i - period + 1, i + 1);
+    const deviation = window.reduce((sum, v) => sum + Math.abs(v - m), 0) / period;
+    return deviation === 0 ? 0 : (tp - m) / (0.015 * deviation);
+  });
+}
+
+export function obv(candles: Candle[], values: number[]): Series {
+  let total = 0;
+  return candles.map((c, i) => {
+    const volume = c.volume ?? 0;
+    if (i === 0) total = volume;
+    else if (values[i] > values[i - 1]) total += volume;
+    else if (values[i] < values[i - 1]) total -= volume;
+    return total;
+  });
+}
+
+export function mom(values: number[], period: number): Series {
+  return values.map((v, i) => (i < period ? null : v - values[i - period]));
+}
+
+export function roc(values: number[], period: number): Series {
+  return values.map((v, i) => (i < period ? null : ((v - values[i - period]) / values[i - period]) * 100));
+}
+
+export function willr(candles: Candle[], period: number): Series {
+  const highs = candles.map(c => c.high);
+  const lows = candles.map(c => c.low);
+  return candles.map((c, i) => {
+    if (i < period - 1) return null;
+    const hh = highest(highs, i, period);
+    const ll = lowest(lows, i, period);
+    return hh === ll ? 0 : (-100 * (hh - c.close)) / (hh - ll);
+  });
+}
+
+// =============================================================================
+// Engine
+// =============================================================================
+
+/**
+ * Compute an indicator's output columns (named as Twelve Data names them)
+ * for candles ordered oldest first
+ */
+export function computeIndicator(
+  indicator: IndicatorName,
+  candles: Candle[],
+  params: IndicatorParams = {}
+): Record<string, Series> {
+  const period = num(params, "time_period", defaultPeriod(indicator));
+  const seriesType = (params.series_type as SeriesType | undefined) ?? "close";
+  const values = priceSeries(candles, seriesType);
+
+  switch (indicator) {
+    case "sma": return { sma: sma(values, period) };
+    case "ema": return { ema: ema(values, period) };
+    case "wma": return { wma: wma(values, period) };
+    case "rsi": return { rsi: rsi(values, period) };
+    case "macd":
+      return macd(
+        values,
+        num(params, "fast_period", 12),
+        num(params, "slow_period", 26),
+        num(params, "signal_period", 9)
+      );
+    case "bbands":
+      return bbands(values, period, num(params, "sd", 2), String(params.ma_type ?? "SMA"));
+    case "stoch":
+      return stoch(
+        candles,
+        num(params, "fast_k_period", 14),
+        num(params, "slow_k_period", 1),
+        num(params, "slow_d_period", 3),
+        String(params.slow_kma_type ?? "SMA"),
+        String(params.slow_dma_type ?? "SMA")
+      );
+    case "adx": return { adx: adx(candles, period) };
+    case "atr": return { atr: atr(candles, period) };
+    case "cci": return { cci: cci(candles, period) };
+    case "obv": return { obv: obv(candles, values) };
+    case "mom": return { mom: mom(values, period) };
+    case "roc": return { roc: roc(values, period) };
+    case "willr": return { willr: willr(candles, period) };
+  }
+}
+
+/**
+ * Extra candles to fetch so smoothed indicators settle before the first
+ * returned value
+ */
+export function warmupBars(indicator: IndicatorName, params: IndicatorParams = {}): number {
+  const longest = Math.max(
+    num(params, "time_period", defaultPeriod(indicator)),
+    indicator === "macd" ? num(params, "slow_period", 26) + num(params, "signal_period", 9) : 0,
+    indicator === "stoch"
+      ? num(params, "fast_k_period", 14) + num(params, "slow_k_period", 1) + num(params, "slow_d_period", 3)
+      : 0
+  );
+  return Math.max(100, longest * 5);
+}
+
+/**
+ * Compute an indicator from a time series, shaped like Twelve Data's
+ * indicator response (newest first, values as strings)
+ */
+export function buildIndicatorResponse(
+  series: TimeSeriesResponse,
+  indicator: IndicatorName,
+  outputsize: number,
+  params: IndicatorParams = {}
+): TechnicalIndicatorResponse {
+  const candles = toCandles(series.values);
+  const columns = computeIndicator(indicator, candles, params);
+  const names = Object.keys(columns);
+
+  const values: Record<string, string>[] = [];
+  for (let i = candles.length - 1; i >= 0 && values.length < outputsize; i--) {
+    const row: Record<string, string> = { datetime: candles[i].datetime };
+    const complete = names.every(name => {
+      const value = columns[name][i];
+      if (value === null || !Number.isFinite(value)) return false;
+      row[name] = String(Number(value.toFixed(8)));
+      return true;
+    });
+    if (!complete) break;
+    values.push(row);
+  }
+
+  const indicatorMeta = Object.fromEntries(
+    Object.entries({ name: indicator.toUpperCase(), ...params })
+      .filter(([, value]) => value !== undefined)
+  );
+
+  return {
+    meta: { ...series.meta, indicator: indicatorMeta },
+    values,
+    status: "ok"
+  };
+}
+
+/**
+ * Fetch candles (with warm-up bars) and compute an indicator locally.
+ * Costs one time series request instead of an indicator request.
+ */
+export async function getLocalIndicator(
+  symbol: string,
+  interval: string,
+  indicator: IndicatorName,
+  outputsize: number,
+  params: IndicatorParams = {}
+): Promise<ApiResult<TechnicalIndicatorResponse>> {
+  const size = Math.min(MAX_OUTPUTSIZE, outputsize + warmupBars(indicator, params));
+  const { data, cache } = await getTimeSeries(symbol, interval, size);
+  return { data: buildIndicatorResponse(data, indicator, outputsize, params), cache };
+}
+
+/**
+ * Get an indicator from Twelve Data, the local engine, or (auto) the API
+ * with a local fallback when the plan doesn't include the indicator
+ */
+export async function getIndicator(
+  symbol: string,
+  interval: string,
+  indicator: IndicatorName,
+  outputsize: number,
+  params: IndicatorParams,
+  source: IndicatorSource
+): Promise<IndicatorResult> {
+  if (source === "local") {
+    return { ...await getLocalIndicator(symbol, interval, indicator, outputsize, params), source: "local" };
+  }
+
+  const apiParams = Object.fromEntries(
+    Object.entries(params).filter(([, value]) => value !== undefined)
+  ) as Record<string, string | number>;
+
+  try {
+    const result = await getTechnicalIndicator(symbol, interval, indicator, outputsize, apiParams);
+    return { ...result, source: "api" };
+  } catch (error) {
+    if (source !== "auto" || !(error instanceof PlanRestrictedError)) throw error;
+    const local = await getLocalIndicator(symbol, interval, indicator, outputsize, params);
+    return { ...local, source: "local", fallback_reason: error.message };
+  }
+}
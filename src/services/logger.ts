@@ -0,0 +1,63 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+
+type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVELS: Record<LogLevel | "silent", number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100
+};
+
+// Tool call being handled; its fields go on every log line it causes
+interface LogContext {
+  request_id: string;
+  tool: string;
+  client?: string;
+}
+
+const logContext = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Lowest level written (TWELVEDATA_LOG_LEVEL: debug, info, warn, error or
+ * silent; default: info)
+ */
+function getLogLevel(): number {
+  const raw = process.env.TWELVEDATA_LOG_LEVEL?.toLowerCase() ?? "info";
+  return raw in LEVELS ? LEVELS[raw as LogLevel] : LEVELS.info;
+}
+
+/**
+ * Write one JSON log line to stderr (stdout belongs to the stdio transport)
+ */
+export function log(level: LogLevel, event: string, fields: Record<string, unknown> = {}): void {
+  if (LEVELS[level] < getLogLevel()) return;
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    event,
+    ...logContext.getStore(),
+    ...fields
+  };
+  process.stderr.write(`${JSON.stringify(entry)}\n`);
+}
+
+/**
+ * Run a tool call under a new request ID, so its upstream requests can be
+ * traced back to it
+ */
+export function runWithRequestId<T>(tool: string, client: string | undefined, fn: () => T): T {
+  return logContext.run({ request_id: randomUUID(), tool, ...(client ? { client } : {}) }, fn);
+}
+
+/**
+ * URL as text with the apikey query parameter masked
+ */
+export function redactUrl(url: URL): string {
+  if (!url.searchParams.has("apikey")) return url.toString();
+  const copy = new URL(url);
+  copy.searchParams.set("apikey", "REDACTED");
+  return copy.toString();
+}
@@ -0,0 +1,149 @@
+type Labels = Record<string, string>;
+
+interface Series {
+  labels: Labels;
+  value: number;
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+// Latency buckets in seconds; upstream calls with retries can take a while
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+const counters = new Map<string, { help: string; series: Map<string, Series> }>();
+const histograms = new Map<string, { help: string; series: Map<string, HistogramSeries> }>();
+const gauges = new Map<string, { help: string; read: () => number }>();
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function increment(name: string, help: string, labels: Labels, by = 1): void {
+  let counter = counters.get(name);
+  if (!counter) {
+    counter = { help, series: new Map() };
+    counters.set(name, counter);
+  }
+  const key = labelKey(labels);
+  const series = counter.series.get(key) ?? { labels, value: 0 };
+  series.value += by;
+  counter.series.set(key, series);
+}
+
+function observe(name: string, help: string, labels: Labels, seconds: number): void {
+  let histogram = histograms.get(name);
+  if (!histogram) {
+    histogram = { help, series: new Map() };
+    histograms.set(name, histogram);
+  }
+  const key = labelKey(labels);
+  const series = histogram.series.get(key)
+    ?? { labels, counts: DURATION_BUCKETS.map(() => 0), sum: 0, count: 0 };
+  DURATION_BUCKETS.forEach((bound, index) => {
+    if (seconds <= bound) series.counts[index]++;
+  });
+  series.sum += seconds;
+  series.count++;
+  histogram.series.set(key, series);
+}
+
+/**
+ * Record a finished tool call
+ */
+export function recordToolCall(tool: string, ok: boolean, seconds: number): void {
+  increment("twelvedata_tool_calls_total", "Tool calls by tool and outcome", { tool, status: ok ? "ok" : "error" });
+  observe("twelvedata_tool_duration_seconds", "Tool call latency", { tool }, seconds);
+}
+
+/**
+ * Record one upstream request attempt. code is empty for a success, else
+ * the Twelve Data error code, HTTP status or "network".
+ */
+export function recordUpstreamRequest(endpoint: string, code: string | undefined, seconds: number): void {
+  increment("twelvedata_upstream_requests_total", "Requests sent to Twelve Data", { endpoint });
+  observe("twelvedata_upstream_duration_seconds", "Twelve Data request latency", { endpoint }, seconds);
+  if (code) {
+    increment("twelvedata_upstream_errors_total", "Failed Twelve Data requests by error code", { endpoint, code });
+  }
+}
+
+export function recordCacheLookup(endpoint: string, hit: boolean): void {
+  increment(
+    hit ? "twelvedata_cache_hits_total" : "twelvedata_cache_misses_total",
+    hit ? "Responses served from the cache" : "Cacheable responses fetched from Twelve Data",
+    { endpoint }
+  );
+}
+
+export function recordCredits(endpoint: string, budget: string, credits: number): void {
+  increment("twelvedata_credits_consumed_total", "API credits spent, by endpoint and budget", { endpoint, budget }, credits);
+}
+
+/**
+ * Record a request served by a fallback provider after the primary failed
+ */
+export function recordFailover(from: string, to: string): void {
+  increment("twelvedata_provider_failovers_total", "Requests served by a fallback provider", { from, to });
+}
+
+/**
+ * Expose a value read when /metrics is scraped, e.g. open sessions
+ */
+export function registerGauge(name: string, help: string, read: () => number): void {
+  gauges.set(name, { help, read });
+}
+
+function total(name: string): number {
+  return [...(counters.get(name)?.series.values() ?? [])].reduce((sum, series) => sum + series.value, 0);
+}
+
+function formatLabels(labels: Labels, extra: Labels = {}): string {
+  const pairs = Object.entries({ ...labels, ...extra })
+    .map(([key, value]) => `${key}="${value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n")}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+/**
+ * All metrics in the Prometheus text exposition format
+ */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+
+  for (const [name, counter] of counters) {
+    lines.push(`# HELP ${name} ${counter.help}`, `# TYPE ${name} counter`);
+    counter.series.forEach(series => lines.push(`${name}${formatLabels(series.labels)} ${series.value}`));
+  }
+
+  for (const [name, histogram] of histograms) {
+    lines.push(`# HELP ${name} ${histogram.help}`, `# TYPE ${name} histogram`);
+    histogram.series.forEach(series => {
+      DURATION_BUCKETS.forEach((bound, index) => {
+        lines.push(`${name}_bucket${formatLabels(series.labels, { le: String(bound) })} ${series.counts[index]}`);
+      });
+      lines.push(
+        `${name}_bucket${formatLabels(series.labels, { le: "+Inf" })} ${series.count}`,
+        `${name}_sum${formatLabels(series.labels)} ${series.sum}`,
+        `${name}_count${formatLabels(series.labels)} ${series.count}`
+      );
+    });
+  }
+
+  const hits = total("twelvedata_cache_hits_total");
+  const lookups = hits + total("twelvedata_cache_misses_total");
+  lines.push(
+    "# HELP twelvedata_cache_hit_ratio Share of cacheable lookups served from the cache",
+    "# TYPE twelvedata_cache_hit_ratio gauge",
+    `twelvedata_cache_hit_ratio ${lookups > 0 ? hits / lookups : 0}`
+  );
+
+  for (const [name, gauge] of gauges) {
+    lines.push(`# HELP ${name} ${gauge.help}`, `# TYPE ${name} gauge`, `${name} ${gauge.read()}`);
+  }
+
+  return `${lines.join("\n")}\n`;
+}
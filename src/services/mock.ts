@@ -0,0 +1,436 @@
+import { POPULAR_SYMBOLS, SUPPORTED_INDICATORS, type IndicatorName } from "../constants.js";
+import type {
+  CommodityInfo,
+  CryptocurrencyInfo,
+  EtfInfo,
+  ForexPair,
+  QuoteResponse,
+  StockInfo,
+  SymbolSearchResult,
+  TimeSeriesResponse,
+  TimeSeriesValue
+} from "../types.js";
+import { buildIndicatorResponse, warmupBars } from "./indicators.js";
+
+type RequestParams = Record<string, string | number | undefined>;
+
+type AssetClass = "forex" | "metal" | "crypto" | "stock";
+
+// Rough US dollar value of each currency, so any pair of them gets a plausible rate
+const USD_VALUES: Record<string, number> = {
+  USD: 1, EUR: 1.085, GBP: 1.27, JPY: 0.0066, CHF: 1.11, AUD: 0.66, CAD: 0.735, NZD: 0.61,
+  SGD: 0.74, HKD: 0.128, CNY: 0.138, INR: 0.012, SEK: 0.095, NOK: 0.093, MXN: 0.058, ZAR: 0.054,
+  XAU: 2350, XAG: 28, XPT: 950, XPD: 1000,
+  BTC: 65000, ETH: 3200, SOL: 150, XRP: 0.55, ADA: 0.45, DOGE: 0.15, LTC: 80, BNB: 580
+};
+
+const METALS = new Set(["XAU", "XAG", "XPT", "XPD"]);
+const CRYPTO = new Set(["BTC", "ETH", "SOL", "XRP", "ADA", "DOGE", "LTC", "BNB"]);
+
+// Typical daily volatility (standard deviation of log returns)
+const DAILY_VOLATILITY: Record<AssetClass, number> = {
+  forex: 0.005,
+  metal: 0.012,
+  crypto: 0.035,
+  stock: 0.018
+};
+
+const STOCKS: StockInfo[] = [
+  ["AAPL", "Apple Inc"], ["MSFT", "Microsoft Corporation"], ["GOOGL", "Alphabet Inc"],
+  ["AMZN", "Amazon.com Inc"], ["NVDA", "NVIDIA Corporation"], ["TSLA", "Tesla Inc"], ["META", "Meta Platforms Inc"]
+].map(([symbol, name]) => ({
+  symbol, name, currency: "USD", exchange: "NASDAQ", mic_code: "XNGS", country: "United States", type: "Common Stock"
+}));
+
+const ETFS: EtfInfo[] = [
+  ["SPY", "SPDR S&P 500 ETF Trust", "NYSE", "ARCX"], ["QQQ", "Invesco QQQ Trust", "NASDAQ", "XNMS"],
+  ["GLD", "SPDR Gold Shares", "NYSE", "ARCX"], ["IWM", "iShares Russell 2000 ETF", "NYSE", "ARCX"]
+].map(([symbol, name, exchange, mic_code]) => ({
+  symbol, name, currency: "USD", exchange, mic_code, country: "United States"
+}));
+
+const COMMODITIES: CommodityInfo[] = [
+  ["XAU/USD", "Gold Spot"], ["XAG/USD", "Silver Spot"], ["XPT/USD", "Platinum Spot"], ["XPD/USD", "Palladium Spot"]
+].map(([symbol, name]) => ({ symbol, name, category: "Precious Metal", description: `${name} / US Dollar` }));
+
+const INTERVAL_MINUTES: Record<string, number> = {
+  "1min": 1, "5min": 5, "15min": 15, "30min": 30, "45min": 45,
+  "1h": 60, "2h": 120, "4h": 240, "8h": 480, "1day": 1440
+};
+
+// Noise scales in minutes; each is 8x the previous
+const NOISE_SCALES = [15, 120, 960, 7680, 61440, 491520];
+
+/**
+ * Current time in mock mode: TWELVEDATA_MOCK_NOW (ISO date) pins it, so
+ * runs are repeatable
+ */
+export function mockNow(): number {
+  const pinned = process.env.TWELVEDATA_MOCK_NOW ? Date.parse(process.env.TWELVEDATA_MOCK_NOW) : NaN;
+  return Number.isNaN(pinned) ? Date.now() : pinned;
+}
+
+/**
+ * FNV-1a hash of the parts mapped to [0, 1)
+ */
+function hash(...parts: (string | number)[]): number {
+  let h = 0x811c9dc5;
+  for (const char of parts.join("|")) {
+    h ^= char.charCodeAt(0);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0) / 0x100000000;
+}
+
+function currencies(symbol: string): [string, string] | undefined {
+  const [base, quote] = symbol.toUpperCase().split("/");
+  return base && quote ? [base, quote] : undefined;
+}
+
+function assetClass(symbol: string): AssetClass {
+  const pair = currencies(symbol);
+  if (!pair) return "stock";
+  if (pair.some(code => CRYPTO.has(code))) return "crypto";
+  if (METALS.has(pair[0])) return "metal";
+  return "forex";
+}
+
+function usdValue(code: string): number {
+  return USD_VALUES[code] ?? 0.01 + hash("currency", code) * 10;
+}
+
+function basePrice(symbol: string): number {
+  const pair = currencies(symbol);
+  if (pair) return usdValue(pair[0]) / usdValue(pair[1]);
+  return 10 + hash("stock", symbol.toUpperCase()) * 490;
+}
+
+// Traded around the clock; everything else pauses at the weekend
+function tradesAt(symbol: string, ms: number): boolean {
+  const day = new Date(ms).getUTCDay();
+  return assetClass(symbol) === "crypto" || (day !== 0 && day !== 6);
+}
+
+/**
+ * Price at a moment: the base price moved by smoothed noise at several
+ * time scales, which looks like a random walk but is the same for every
+ * request that asks about that moment
+ */
+function priceAt(symbol: string, ms: number): number {
+  const key = symbol.toUpperCase();
+  const minutes = ms / 60000;
+  const dailyVolatility = DAILY_VOLATILITY[assetClass(symbol)];
+  let logMove = 0;
+  for (const scale of NOISE_SCALES) {
+    const position = minutes / scale;
+    const index = Math.floor(position);
+    const fraction = position - index;
+    const smooth = fraction * fraction * (3 - 2 * fraction);
+    const from = hash(key, scale, index) * 2 - 1;
+    const to = hash(key, scale, index + 1) * 2 - 1;
+    logMove += (from + (to - from) * smooth) * dailyVolatility * Math.sqrt(scale / 1440);
+  }
+  return basePrice(symbol) * Math.exp(logMove);
+}
+
+function decimals(price: number): number {
+  return price >= 1000 ? 2 : price >= 1 ? 4 : 6;
+}
+
+function fixed(value: number, price: number): string {
+  return value.toFixed(decimals(price));
+}
+
+function formatDatetime(ms: number, intraday: boolean): string {
+  const iso = new Date(ms).toISOString();
+  return intraday ? iso.slice(0, 19).replace("T", " ") : iso.slice(0, 10);
+}
+
+function parseDatetime(value: string): number {
+  const normalized = value.trim().replace(" ", "T");
+  return Date.parse(normalized.length === 10 ? `${normalized}T00:00:00Z` : `${normalized}Z`);
+}
+
+/**
+ * Start of the bar containing a moment, and the start of the next one
+ */
+function barBounds(interval: string, ms: number): { start: number; end: number } {
+  const date = new Date(ms);
+  if (interval === "1week") {
+    const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+    const start = day - ((date.getUTCDay() + 6) % 7) * 86400000;
+    return { start, end: start + 7 * 86400000 };
+  }
+  if (interval === "1month") {
+    return {
+      start: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1),
+      end: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)
+    };
+  }
+  const length = (INTERVAL_MINUTES[interval] ?? 1440) * 60000;
+  const start = Math.floor(ms / length) * length;
+  return { start, end: start + length };
+}
+
+function mockBar(symbol: string, start: number, end: number, now: number, intraday: boolean): TimeSeriesValue {
+  const close = Math.min(end, now);
+  const samples = [0, 0.2, 0.4, 0.6, 0.8, 1].map(step => priceAt(symbol, start + (close - start) * step));
+  const open = samples[0];
+  const last = samples[samples.length - 1];
+  const high = Math.max(...samples) * (1 + hash(symbol, "high", start) * 0.001);
+  const low = Math.min(...samples) * (1 - hash(symbol, "low", start) * 0.001);
+  const bar: TimeSeriesValue = {
+    datetime: formatDatetime(start, intraday),
+    open: fixed(open, open),
+    high: fixed(high, open),
+    low: fixed(low, open),
+    close: fixed(last, open)
+  };
+  if (assetClass(symbol) !== "forex" && assetClass(symbol) !== "metal") {
+    bar.volume = String(Math.round(((close - start) / 60000) * (500 + hash(symbol, "volume", start) * 5000)));
+  }
+  return bar;
+}
+
+function exchangeOf(symbol: string): string {
+  const type = assetClass(symbol);
+  if (type === "crypto") return "Binance";
+  if (type === "stock") return ETFS.find(etf => etf.symbol === symbol.toUpperCase())?.exchange ?? "NASDAQ";
+  return type === "metal" ? "Physical Currency" : "Forex";
+}
+
+function instrumentName(symbol: string): string {
+  const upper = symbol.toUpperCase();
+  return (POPULAR_SYMBOLS as Record<string, string>)[upper]
+    ?? [...STOCKS, ...ETFS].find(item => item.symbol === upper)?.name
+    ?? upper;
+}
+
+/**
+ * Synthetic candles, newest first, like /time_series. Bars run up to
+ * end_date (or now) and back to start_date or until outputsize is reached.
+ */
+function mockTimeSeries(params: RequestParams): TimeSeriesResponse | undefined {
+  const symbol = String(params.symbol);
+  const interval = String(params.interval ?? "1day");
+  const now = mockNow();
+  const intraday = interval in INTERVAL_MINUTES && interval !== "1day";
+  const outputsize = Number(params.outputsize ?? 30);
+  const from = params.start_date ? parseDatetime(String(params.start_date)) : -Infinity;
+  const until = params.end_date ? Math.min(parseDatetime(String(params.end_date)), now) : now;
+
+  const values: TimeSeriesValue[] = [];
+  let { start, end } = barBounds(interval, until);
+  while (start >= from && values.length < outputsize && start > now - 40 * 365 * 86400000) {
+    if (interval === "1week" || interval === "1month" || tradesAt(symbol, start)) {
+      values.push(mockBar(symbol, start, end, now, intraday));
+    }
+    ({ start, end } = barBounds(interval, start - 1));
+  }
+  if (values.length === 0) return undefined;
+
+  const pair = currencies(symbol);
+  return {
+    meta: {
+      symbol: symbol.toUpperCase(),
+      interval,
+      currency: pair ? pair[1] : "USD",
+      ...(pair ? { currency_base: pair[0], currency_quote: pair[1] } : {}),
+      exchange_timezone: "UTC",
+      exchange: exchangeOf(symbol),
+      type: { forex: "Physical Currency", metal: "Physical Currency", crypto: "Digital Currency", stock: "Common Stock" }[assetClass(symbol)]
+    },
+    values,
+    status: "ok"
+  };
+}
+
+function mockQuote(symbol: string): QuoteResponse {
+  const now = mockNow();
+  const day = barBounds("1day", now);
+  const today = mockBar(symbol, day.start, day.end, now, false);
+  const previousClose = priceAt(symbol, day.start);
+  const close = Number(today.close);
+  const yearly = Array.from({ length: 53 }, (_, week) => priceAt(symbol, now - week * 7 * 86400000));
+  const yearLow = Math.min(...yearly, Number(today.low));
+  const yearHigh = Math.max(...yearly, Number(today.high));
+  const pair = currencies(symbol);
+
+  return {
+    symbol: symbol.toUpperCase(),
+    name: instrumentName(symbol),
+    exchange: exchangeOf(symbol),
+    currency: pair ? pair[1] : "USD",
+    datetime: formatDatetime(day.start, false),
+    timestamp: Math.floor(now / 1000),
+    open: today.open,
+    high: today.high,
+    low: today.low,
+    close: today.close,
+    ...(today.volume ? { volume: today.volume, average_volume: today.volume } : {}),
+    previous_close: fixed(previousClose, close),
+    change: fixed(close - previousClose, close),
+    percent_change: ((close / previousClose - 1) * 100).toFixed(5),
+    is_market_open: tradesAt(symbol, now),
+    fifty_two_week: {
+      low: fixed(yearLow, close),
+      high: fixed(yearHigh, close),
+      low_change: fixed(close - yearLow, close),
+      high_change: fixed(close - yearHigh, close),
+      low_change_percent: ((close / yearLow - 1) * 100).toFixed(5),
+      high_change_percent: ((close / yearHigh - 1) * 100).toFixed(5),
+      range: `${fixed(yearLow, close)} - ${fixed(yearHigh, close)}`
+    }
+  };
+}
+
+function forexPairs(): ForexPair[] {
+  const codes = Object.keys(USD_VALUES).filter(code => !METALS.has(code) && !CRYPTO.has(code));
+  const majors = new Set(["EUR", "GBP", "JPY", "CHF", "AUD", "CAD", "NZD"]);
+  return codes.flatMap(base => codes.filter(quote => quote !== base).map(quote => ({
+    symbol: `${base}/${quote}`,
+    currency_group: (base === "USD" || quote === "USD") && (majors.has(base) || majors.has(quote)) ? "Major" : "Minor",
+    currency_base: base,
+    currency_quote: quote
+  })));
+}
+
+function cryptocurrencies(): CryptocurrencyInfo[] {
+  return [...CRYPTO].flatMap(base => ["USD", "EUR", "BTC"].filter(quote => quote !== base).map(quote => ({
+    symbol: `${base}/${quote}`,
+    available_exchanges: ["Binance", "Coinbase Pro", "Kraken"],
+    currency_base: base,
+    currency_quote: quote
+  })));
+}
+
+function matchesFilter(value: string, filter: string | number | undefined): boolean {
+  return filter === undefined || value.toUpperCase() === String(filter).toUpperCase();
+}
+
+function searchResult(symbol: string, name: string, type: string, exchange: string, mic_code: string): SymbolSearchResult {
+  const pair = currencies(symbol);
+  return {
+    symbol,
+    instrument_name: name,
+    exchange,
+    mic_code,
+    exchange_timezone: "UTC",
+    instrument_type: type,
+    country: pair ? "" : "United States",
+    currency: pair ? pair[1] : "USD"
+  };
+}
+
+function searchSymbols(query: string, outputsize: number): SymbolSearchResult[] {
+  const needle = query.trim().toUpperCase();
+  const candidates = [
+    ...STOCKS.map(stock => searchResult(stock.symbol, stock.name, stock.type, stock.exchange, stock.mic_code)),
+    ...ETFS.map(etf => searchResult(etf.symbol, etf.name, "ETF", etf.exchange, etf.mic_code)),
+    ...Object.entries(POPULAR_SYMBOLS).map(([symbol, name]) =>
+      searchResult(symbol, name, assetClass(symbol) === "crypto" ? "Digital Currency" : "Physical Currency", exchangeOf(symbol), ""))
+  ];
+  return candidates
+    .filter(item => item.symbol.toUpperCase().replace("/", "").startsWith(needle.replace("/", ""))
+      || item.instrument_name.toUpperCase().includes(needle))
+    .slice(0, outputsize);
+}
+
+function noData(): Record<string, unknown> {
+  return {
+    code: 400,
+    message: "No data is available on the specified dates. Try setting different start/end dates.",
+    status: "error"
+  };
+}
+
+function mockEndpoint(endpoint: string, params: RequestParams): unknown {
+  const now = mockNow();
+  const symbol = String(params.symbol ?? "");
+  const name = endpoint.replace(/^\//, "");
+
+  switch (endpoint) {
+    case "/price":
+      return { price: fixed(priceAt(symbol, now), priceAt(symbol, now)) };
+    case "/quote":
+      return mockQuote(symbol);
+    case "/time_series":
+      return mockTimeSeries(params) ?? noData();
+    case "/exchange_rate":
+      return { symbol: symbol.toUpperCase(), rate: Number(fixed(priceAt(symbol, now), priceAt(symbol, now))), timestamp: Math.floor(now / 1000) };
+    case "/currency_conversion": {
+      const rate = Number(fixed(priceAt(symbol, now), priceAt(symbol, now)));
+      return { symbol: symbol.toUpperCase(), rate, amount: Number((rate * Number(params.amount ?? 1)).toFixed(5)), timestamp: Math.floor(now / 1000) };
+    }
+    case "/forex_pairs":
+      return {
+        data: forexPairs().filter(pair => matchesFilter(pair.currency_base, params.currency_base) && matchesFilter(pair.currency_quote, params.currency_quote)),
+        status: "ok"
+      };
+    case "/cryptocurrencies":
+      return {
+        data: cryptocurrencies().filter(pair =>
+          matchesFilter(pair.currency_base, params.currency_base)
+          && matchesFilter(pair.currency_quote, params.currency_quote)
+          && (params.exchange === undefined || pair.available_exchanges.some(exchange => matchesFilter(exchange, params.exchange)))),
+        status: "ok"
+      };
+    case "/stocks":
+      return {
+        data: STOCKS.filter(stock => matchesFilter(stock.symbol, params.symbol) && matchesFilter(stock.exchange, params.exchange)
+          && matchesFilter(stock.country, params.country) && matchesFilter(stock.type, params.type)),
+        status: "ok"
+      };
+    case "/etfs":
+      return {
+        data: ETFS.filter(etf => matchesFilter(etf.symbol, params.symbol) && matchesFilter(etf.exchange, params.exchange)
+          && matchesFilter(etf.country, params.country)),
+        status: "ok"
+      };
+    case "/commodities":
+      return { data: COMMODITIES, status: "ok" };
+    case "/symbol_search":
+      return { data: searchSymbols(symbol, Number(params.outputsize ?? 30)), status: "ok" };
+  }
+
+  if ((SUPPORTED_INDICATORS as readonly string[]).includes(name)) {
+    const { symbol: _symbol, interval, outputsize, ...indicatorParams } = params;
+    const size = Number(outputsize ?? 30);
+    const series = mockTimeSeries({
+      symbol,
+      interval,
+      outputsize: size + warmupBars(name as IndicatorName, indicatorParams)
+    });
+    return series ? buildIndicatorResponse(series, name as IndicatorName, size, indicatorParams) : noData();
+  }
+
+  return { code: 404, message: `${endpoint} is not available in mock mode`, status: "error" };
+}
+
+/**
+ * Synthetic response body for an upstream request, shaped like Twelve
+ * Data's. Comma-separated symbols get a response keyed by symbol.
+ */
+export function mockResponse(endpoint: string, params: RequestParams): unknown {
+  const symbols = String(params.symbol ?? "").split(",").map(symbol => symbol.trim()).filter(Boolean);
+  if (symbols.length > 1) {
+    return Object.fromEntries(symbols.map(symbol => [symbol, mockEndpoint(endpoint, { ...params, symbol })]));
+  }
+  return mockEndpoint(endpoint, params);
+}
+
+/**
+ * A synthetic streaming tick, shaped like a Twelve Data "price" event
+ */
+export function mockPriceEvent(symbol: string): Record<string, unknown> {
+  const now = mockNow();
+  const price = priceAt(symbol, now);
+  return {
+    event: "price",
+    symbol,
+    price: Number(fixed(price, price)),
+    timestamp: Math.floor(now / 1000),
+    exchange: exchangeOf(symbol),
+    currency: currencies(symbol)?.[1] ?? "USD"
+  };
+}
@@ -0,0 +1,147 @@
+import { randomUUID } from "node:crypto";
+import {
+  CHARACTER_LIMIT,
+  DEFAULT_CURSOR_TTL_SECONDS,
+  MAX_STORED_CURSORS
+} from "../constants.js";
+import type { PageInfo } from "../types.js";
+
+export interface Page<T> {
+  items: T[];
+  page: PageInfo;
+}
+
+/**
+ * Slice one page out of a list
+ */
+export function paginate<T>(items: T[], offset: number, limit: number): Page<T> {
+  const pageItems = items.slice(offset, offset + limit);
+  return {
+    items: pageItems,
+    page: buildPageInfo(items.length, offset, pageItems.length, false)
+  };
+}
+
+function buildPageInfo(
+  total: number,
+  offset: number,
+  count: number,
+  truncated: boolean
+): PageInfo {
+  const hasMore = offset + count < total;
+  return {
+    total,
+    offset,
+    count,
+    has_more: hasMore,
+    ...(hasMore ? { next_offset: offset + count } : {}),
+    truncated
+  };
+}
+
+/**
+ * Drop rows from the end of a page until its rendered text fits within
+ * CHARACTER_LIMIT. The page info is updated so the next offset picks up
+ * exactly where the rendered rows stop.
+ */
+export function fitPage<T>(
+  page: Page<T>,
+  render: (page: Page<T>) => string,
+  limit: number = CHARACTER_LIMIT
+): { page: Page<T>; text: string } {
+  let current = page;
+  let text = render(current);
+
+  while (text.length > limit && current.items.length > 1) {
+    // Shrink proportionally to the overshoot, always by at least one row
+    const ratio = limit / text.length;
+    const keep = Math.max(
+      1,
+      Math.min(current.items.length - 1, Math.floor(current.items.length * ratio * 0.95))
+    );
+    const items = current.items.slice(0, keep);
+    current = {
+      items,
+      page: buildPageInfo(page.page.total, page.page.offset, items.length, true)
+    };
+    text = render(current);
+  }
+
+  return { page: current, text };
+}
+
+// =============================================================================
+// Cursors: full results kept server-side so later pages need no API call
+// =============================================================================
+
+interface StoredResult {
+  data: unknown;
+  expiresAt: number;
+}
+
+const storedResults = new Map<string, StoredResult>();
+
+function getCursorTtlMs(): number {
+  const value = Number(process.env.TWELVEDATA_CURSOR_TTL_SECONDS);
+  return (Number.isFinite(value) && value > 0 ? value : DEFAULT_CURSOR_TTL_SECONDS) * 1000;
+}
+
+/**
+ * Keep a full result and return a cursor that refers to it
+ * (TWELVEDATA_CURSOR_TTL_SECONDS, default: 600)
+ */
+export function saveCursor(
+  data: unknown,
+  cursor: string = randomUUID(),
+  now: number = Date.now()
+): string {
+  storedResults.forEach((entry, key) => {
+    if (entry.expiresAt <= now) storedResults.delete(key);
+  });
+  while (storedResults.size >= MAX_STORED_CURSORS) {
+    const oldest = storedResults.keys().next().value;
+    if (oldest === undefined) break;
+    storedResults.delete(oldest);
+  }
+
+  storedResults.set(cursor, { data, expiresAt: now + getCursorTtlMs() });
+  return cursor;
+}
+
+/**
+ * Look up a result saved by saveCursor. Returns undefined once it has expired.
+ */
+export function loadCursor<T>(cursor: string, now: number = Date.now()): T | undefined {
+  const entry = storedResults.get(cursor);
+  if (!entry) return undefined;
+  if (entry.expiresAt <= now) {
+    storedResults.delete(cursor);
+    return undefined;
+  }
+  return entry.data as T;
+}
+
+/**
+ * Page a full list within CHARACTER_LIMIT. If rows are left over, the full
+ * result is stored and the page info carries a cursor for the next call
+ * (an existing cursor is reused).
+ */
+export function pageWithCursor<T>(
+  items: T[],
+  offset: number,
+  render: (page: Page<T>) => string,
+  stored: { data: unknown; cursor?: string }
+): { page: Page<T>; text: string } {
+  // Render with the cursor in place while fitting, so it counts toward the limit
+  const cursor = stored.cursor ?? randomUUID();
+  const withCursor = (page: Page<T>): Page<T> =>
+    page.page.has_more ? { ...page, page: { ...page.page, cursor } } : page;
+
+  const fitted = fitPage(paginate(items, offset, items.length), page => render(withCursor(page)));
+  const page = withCursor(fitted.page);
+
+  if (page.page.has_more && !stored.cursor) {
+    saveCursor(stored.data, cursor);
+  }
+  return { page, text: fitted.text };
+}
@@ -0,0 +1,179 @@
+import { CURRENCY_CODES } from "../constants.js";
+import type { PortfolioPosition } from "../schemas/twelvedata.js";
+import type { PortfolioValuation, PositionValuation } from "../types.js";
+import { InvalidSymbolError, toErrorPayload } from "./errors.js";
+import { resolveSymbol } from "./symbols.js";
+import { getPrices, getQuotes } from "./twelvedata.js";
+
+// Currency used to cross rates Twelve Data doesn't quote directly
+const CROSS_CURRENCY = "USD";
+
+interface PricedPosition {
+  position: PortfolioPosition;
+  symbol: string;
+  price: number;
+  currency: string;
+}
+
+function round(value: number, digits: number = 4): number {
+  return Number(value.toFixed(digits));
+}
+
+/**
+ * Rates from each currency into the target. Direct pairs come from one
+ * batch request; pairs Twelve Data doesn't quote (e.g. XAU/SGD) are crossed
+ * through USD with a second batch.
+ */
+export async function getConversionRates(
+  currencies: string[],
+  target: string
+): Promise<{ rates: Map<string, number>; pairs: Record<string, number> }> {
+  const rates = new Map<string, number>([[target, 1]]);
+  const pairs: Record<string, number> = {};
+  const priceOf = (price?: string) => {
+    const value = parseFloat(price ?? "");
+    return Number.isFinite(value) && value > 0 ? value : undefined;
+  };
+
+  const needed = [...new Set(currencies)].filter(currency => currency !== target);
+  if (needed.length === 0) return { rates, pairs };
+
+  const direct = await getPrices(needed.map(currency => `${currency}/${target}`));
+  const missing: string[] = [];
+  direct.forEach((item, i) => {
+    const rate = priceOf(item.data?.price);
+    if (rate !== undefined) {
+      rates.set(needed[i], rate);
+      pairs[item.symbol] = rate;
+    } else if (needed[i] !== CROSS_CURRENCY && target !== CROSS_CURRENCY) {
+      missing.push(needed[i]);
+    }
+  });
+  if (missing.length === 0) return { rates, pairs };
+
+  const legs = [
+    ...missing.map(currency => `${currency}/${CROSS_CURRENCY}`),
+    `${CROSS_CURRENCY}/${target}`
+  ];
+  const crossed = await getPrices(legs);
+  const toCross = priceOf(crossed[crossed.length - 1].data?.price);
+  if (toCross === undefined) return { rates, pairs };
+  pairs[`${CROSS_CURRENCY}/${target}`] = toCross;
+
+  missing.forEach((currency, i) => {
+    const leg = priceOf(crossed[i].data?.price);
+    if (leg === undefined) return;
+    rates.set(currency, leg * toCross);
+    pairs[`${currency}/${CROSS_CURRENCY}`] = leg;
+  });
+  return { rates, pairs };
+}
+
+/**
+ * Value holdings in one reporting currency. Instruments are priced with one
+ * batch quote request, currency holdings (EUR, XAU, BTC) at 1 unit of
+ * themselves, and everything is converted with batched FX rates. Cost bases
+ * are converted at current rates, so P&L includes currency moves.
+ */
+export async function valuePortfolio(
+  positions: PortfolioPosition[],
+  reportingCurrency: string
+): Promise<PortfolioValuation> {
+  const results: PositionValuation[] = positions.map(position => ({
+    input: position.symbol,
+    quantity: position.quantity
+  }));
+  const priced = new Map<number, PricedPosition>();
+  const instruments = new Map<number, string>();
+
+  // Classify: currency codes are held directly, anything else is an instrument
+  await Promise.all(positions.map(async (position, i) => {
+    const code = position.symbol.trim().toUpperCase();
+    if (CURRENCY_CODES.has(code)) {
+      priced.set(i, { position, symbol: code, price: 1, currency: code });
+      return;
+    }
+    try {
+      const resolution = await resolveSymbol(position.symbol);
+      if (!resolution.symbol) {
+        const names = (resolution.candidates ?? []).map(c => c.symbol).join(", ");
+        throw new InvalidSymbolError(`Ambiguous symbol "${position.symbol}": ${names}`);
+      }
+      instruments.set(i, resolution.symbol);
+    } catch (error) {
+      results[i].error = toErrorPayload(error);
+    }
+  }));
+
+  if (instruments.size > 0) {
+    const quotes = await getQuotes([...instruments.values()]);
+    const bySymbol = new Map(quotes.map(item => [item.symbol, item]));
+    instruments.forEach((symbol, i) => {
+      const item = bySymbol.get(symbol);
+      const price = parseFloat(item?.data?.close ?? "");
+      // Pairs are priced in their quote currency
+      const currency = symbol.includes("/") ? symbol.split("/")[1] : item?.data?.currency;
+      if (item?.data && Number.isFinite(price) && currency) {
+        priced.set(i, { position: positions[i], symbol, price, currency: currency.toUpperCase() });
+      } else {
+        results[i].symbol = symbol;
+        results[i].error = item?.error ?? toErrorPayload(new InvalidSymbolError(`No price for ${symbol}`));
+      }
+    });
+  }
+
+  const currencies = [...priced.values()].flatMap(p => [p.currency, p.position.cost_currency ?? p.currency]);
+  const { rates, pairs } = await getConversionRates(currencies, reportingCurrency);
+
+  priced.forEach(({ position, symbol, price, currency }, i) => {
+    const result = results[i];
+    result.symbol = symbol;
+    result.price = price;
+    result.price_currency = currency;
+
+    const rate = rates.get(currency);
+    const costCurrency = position.cost_currency ?? currency;
+    const costRate = rates.get(costCurrency);
+    if (rate === undefined || (position.cost_basis !== undefined && costRate === undefined)) {
+      const pair = rate === undefined ? currency : costCurrency;
+      result.error = toErrorPayload(
+        new InvalidSymbolError(`No exchange rate for ${pair}/${reportingCurrency}`)
+      );
+      return;
+    }
+
+    result.fx_rate = rate;
+    result.market_value = round(position.quantity * price * rate);
+    if (position.cost_basis !== undefined && costRate !== undefined) {
+      result.cost_basis = round(position.cost_basis * costRate);
+      result.unrealized_pnl = round(result.market_value - result.cost_basis);
+      if (result.cost_basis > 0) {
+        result.pnl_pct = round((result.unrealized_pnl / result.cost_basis) * 100, 2);
+      }
+    }
+  });
+
+  const valued = results.filter(r => r.market_value !== undefined && !r.error);
+  const marketValue = valued.reduce((sum, r) => sum + (r.market_value as number), 0);
+  const withCost = valued.filter(r => r.cost_basis !== undefined);
+  const costBasis = withCost.reduce((sum, r) => sum + (r.cost_basis as number), 0);
+  const pnl = withCost.reduce((sum, r) => sum + (r.unrealized_pnl as number), 0);
+
+  valued.forEach(r => {
+    r.weight_pct = marketValue > 0 ? round(((r.market_value as number) / marketValue) * 100, 2) : 0;
+  });
+
+  return {
+    currency: reportingCurrency,
+    positions: results,
+    totals: {
+      market_value: round(marketValue),
+      cost_basis: round(costBasis),
+      unrealized_pnl: round(pnl),
+      pnl_pct: costBasis > 0 ? round((pnl / costBasis) * 100, 2) : null,
+      valued: valued.length,
+      failed: results.length - valued.length
+    },
+    fx_rates: pairs
+  };
+}
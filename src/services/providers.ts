@@ -0,0 +1,167 @@
+import { DEFAULT_FAILOVER_ERRORS } from "../constants.js";
+import type {
+  PriceResponse,
+  QuoteResponse,
+  TimeSeriesResponse,
+  ExchangeRateResponse,
+  CurrencyConversionResponse,
+  TechnicalIndicatorResponse
+} from "../types.js";
+import { BadRequestError, TwelveDataError, type TwelveDataErrorCode } from "./errors.js";
+import { csvProvider } from "./csvProvider.js";
+import { log } from "./logger.js";
+import { recordFailover } from "./metrics.js";
+import { twelveDataProvider } from "./twelvedata.js";
+
+export interface TimeSeriesRequest {
+  symbol: string;
+  interval: string;
+  outputsize?: number;
+  start_date?: string;
+  end_date?: string;
+  timezone?: string;
+}
+
+export interface IndicatorRequest {
+  symbol: string;
+  interval: string;
+  indicator: string;
+  outputsize?: number;
+  params?: Record<string, string | number>;
+}
+
+/**
+ * A source of market data. Responses are shaped like Twelve Data's, so
+ * caching, formatting and the local indicator engine treat every provider
+ * the same way.
+ */
+export interface MarketDataProvider {
+  // Name used in TWELVEDATA_PROVIDER and TWELVEDATA_FALLBACK_PROVIDERS
+  readonly name: string;
+  getPrice(symbol: string): Promise<PriceResponse>;
+  getQuote(symbol: string): Promise<QuoteResponse>;
+  getTimeSeries(request: TimeSeriesRequest): Promise<TimeSeriesResponse>;
+  getExchangeRate(symbol: string): Promise<ExchangeRateResponse>;
+  convertCurrency(symbol: string, amount: number): Promise<CurrencyConversionResponse>;
+  getTechnicalIndicator(request: IndicatorRequest): Promise<TechnicalIndicatorResponse>;
+}
+
+// Data plus the provider that served it
+export interface ProviderResult<T> {
+  data: T;
+  provider: string;
+  // Served by a fallback after the primary provider failed
+  fallback: boolean;
+}
+
+export type ProviderCall<T> = (provider: MarketDataProvider) => Promise<T>;
+
+// Providers by name; functions, since the modules import each other
+const PROVIDERS: Record<string, () => MarketDataProvider> = {
+  twelvedata: () => twelveDataProvider,
+  csv: () => csvProvider
+};
+
+const ERROR_CODES: TwelveDataErrorCode[] = [
+  "rate_limited", "invalid_symbol", "plan_restricted", "auth", "network", "upstream", "bad_request"
+];
+
+function providerByName(name: string, envName: string): MarketDataProvider {
+  const factory = PROVIDERS[name.toLowerCase()];
+  if (!factory) {
+    throw new BadRequestError(`Unknown provider "${name}" in ${envName}. Use ${Object.keys(PROVIDERS).join(", ")}.`);
+  }
+  return factory();
+}
+
+function readList(envName: string): string[] | undefined {
+  const raw = process.env[envName];
+  if (raw === undefined) return undefined;
+  return raw.split(",").map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Provider asked first (TWELVEDATA_PROVIDER, default: twelvedata)
+ */
+export function getPrimaryProvider(): MarketDataProvider {
+  return providerByName(process.env.TWELVEDATA_PROVIDER || "twelvedata", "TWELVEDATA_PROVIDER");
+}
+
+/**
+ * Providers tried in order when the primary fails with a failover error
+ * (TWELVEDATA_FALLBACK_PROVIDERS, default: none)
+ */
+export function getFallbackProviders(): MarketDataProvider[] {
+  const primary = getPrimaryProvider();
+  const fallbacks = (readList("TWELVEDATA_FALLBACK_PROVIDERS") ?? [])
+    .map(name => providerByName(name, "TWELVEDATA_FALLBACK_PROVIDERS"))
+    .filter(provider => provider !== primary);
+  return [...new Set(fallbacks)];
+}
+
+/**
+ * Error codes that send a request to the fallbacks (TWELVEDATA_FAILOVER_ON,
+ * default: plan_restricted and rate_limited)
+ */
+export function getFailoverErrors(): TwelveDataErrorCode[] {
+  const codes = readList("TWELVEDATA_FAILOVER_ON") ?? DEFAULT_FAILOVER_ERRORS;
+  const unknown = codes.filter(code => !ERROR_CODES.includes(code as TwelveDataErrorCode));
+  if (unknown.length > 0) {
+    throw new BadRequestError(`Unknown error code "${unknown[0]}" in TWELVEDATA_FAILOVER_ON. Use ${ERROR_CODES.join(", ")}.`);
+  }
+  return codes as TwelveDataErrorCode[];
+}
+
+/**
+ * Whether a failure of the primary provider should be retried on the fallbacks
+ */
+export function shouldFailover(error: unknown): boolean {
+  return (
+    error instanceof TwelveDataError &&
+    getFailoverErrors().includes(error.code) &&
+    getFallbackProviders().length > 0
+  );
+}
+
+/**
+ * Ask the primary provider, then the fallbacks when it fails with one of
+ * the failover errors
+ */
+export async function withFailover<T>(call: ProviderCall<T>): Promise<ProviderResult<T>> {
+  const primary = getPrimaryProvider();
+  try {
+    return { data: await call(primary), provider: primary.name, fallback: false };
+  } catch (error) {
+    if (!shouldFailover(error)) throw error;
+    return fromFallbacks(call, primary.name, error);
+  }
+}
+
+/**
+ * Ask the fallbacks in order after the primary failed. When none can serve
+ * the request, the primary's error is thrown: it says more than "no local
+ * data" would.
+ */
+export async function fromFallbacks<T>(
+  call: ProviderCall<T>,
+  failed: string,
+  primaryError: unknown
+): Promise<ProviderResult<T>> {
+  const errorCode = primaryError instanceof TwelveDataError ? primaryError.code : "internal";
+
+  for (const provider of getFallbackProviders()) {
+    try {
+      const data = await call(provider);
+      recordFailover(failed, provider.name);
+      log("warn", "provider.failover", { from: failed, to: provider.name, error_code: errorCode });
+      return { data, provider: provider.name, fallback: true };
+    } catch (error) {
+      log("warn", "provider.fallback_failed", {
+        provider: provider.name,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  throw primaryError;
+}
@@ -0,0 +1,261 @@
+import {
+  DEFAULT_CREDITS_PER_MINUTE,
+  DEFAULT_CREDITS_PER_DAY,
+  DEFAULT_RATE_LIMIT_MAX_WAIT_MS,
+  ENDPOINT_CREDIT_COSTS
+} from "../constants.js";
+import type { CreditUsage } from "../types.js";
+import { getRequestClient } from "./clients.js";
+import { CreditBudgetError } from "./errors.js";
+
+type LimiterParams = Record<string, string | number | undefined>;
+
+interface LimiterConfig {
+  perMinute: number;
+  perDay: number;
+  mode: "queue" | "reject";
+  maxWaitMs: number;
+}
+
+interface LimiterState {
+  tokens: number;
+  lastRefill: number;
+  dayUsed: number;
+  dayStart: number;
+  byEndpoint: Record<string, number>;
+  upstream?: CreditUsage["upstream"];
+}
+
+// Budget name used by stdio, background work and HTTP clients without their own
+const DEFAULT_BUDGET = "default";
+
+const states = new Map<string, LimiterState>();
+
+// Requests take credits one after another so queued calls are served in
+// order; each budget has its own queue
+const queues = new Map<string, Promise<void>>();
+
+function readPositiveInt(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Budget the current request spends: HTTP clients with their own API key or
+ * credit limits have a separate one
+ */
+export function currentBudget(): string {
+  const client = getRequestClient();
+  if (!client || (!client.api_key && !client.credits_per_minute && !client.credits_per_day)) {
+    return DEFAULT_BUDGET;
+  }
+  return `client:${client.name}`;
+}
+
+/**
+ * Read limiter settings from the environment:
+ * - TWELVEDATA_CREDITS_PER_MINUTE (default: 8)
+ * - TWELVEDATA_CREDITS_PER_DAY (default: 800)
+ * - TWELVEDATA_RATE_LIMIT_MODE: 'queue' waits for credits, 'reject' fails immediately (default: queue)
+ * - TWELVEDATA_RATE_LIMIT_MAX_WAIT_MS: longest a queued call waits (default: 65000)
+ * An HTTP client's credits_per_minute / credits_per_day override the budgets.
+ */
+function getLimiterConfig(): LimiterConfig {
+  const client = getRequestClient();
+  return {
+    perMinute: client?.credits_per_minute
+      ?? readPositiveInt("TWELVEDATA_CREDITS_PER_MINUTE", DEFAULT_CREDITS_PER_MINUTE),
+    perDay: client?.credits_per_day
+      ?? readPositiveInt("TWELVEDATA_CREDITS_PER_DAY", DEFAULT_CREDITS_PER_DAY),
+    mode: process.env.TWELVEDATA_RATE_LIMIT_MODE === "reject" ? "reject" : "queue",
+    maxWaitMs: readPositiveInt("TWELVEDATA_RATE_LIMIT_MAX_WAIT_MS", DEFAULT_RATE_LIMIT_MAX_WAIT_MS)
+  };
+}
+
+/**
+ * Credits the current budget allows per minute
+ */
+export function getMinuteCreditBudget(): number {
+  return getLimiterConfig().perMinute;
+}
+
+// Twelve Data resets daily credits at midnight UTC
+function startOfUtcDay(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+/**
+ * Bring the bucket up to date: refill minute tokens and roll over the day
+ */
+function syncState(config: LimiterConfig, now: number): LimiterState {
+  const budget = currentBudget();
+  let state = states.get(budget);
+  if (!state) {
+    state = {
+      tokens: config.perMinute,
+      lastRefill: now,
+      dayUsed: 0,
+      dayStart: startOfUtcDay(now),
+      byEndpoint: {}
+    };
+    states.set(budget, state);
+  }
+
+  const elapsed = now - state.lastRefill;
+  state.tokens = Math.min(
+    config.perMinute,
+    state.tokens + (elapsed * config.perMinute) / 60000
+  );
+  state.lastRefill = now;
+
+  const dayStart = startOfUtcDay(now);
+  if (dayStart !== state.dayStart) {
+    state.dayStart = dayStart;
+    state.dayUsed = 0;
+  }
+
+  return state;
+}
+
+function endpointName(endpoint: string): string {
+  return endpoint.replace(/^\//, "");
+}
+
+/**
+ * Credits a request will cost: the endpoint's per-symbol cost times the
+ * number of comma-separated symbols
+ */
+export function getCreditCost(endpoint: string, params: LimiterParams): number {
+  const perSymbol = ENDPOINT_CREDIT_COSTS[endpointName(endpoint)] ?? 1;
+  const symbols = params.symbol === undefined
+    ? 1
+    : String(params.symbol).split(",").filter(s => s.trim() !== "").length;
+  return perSymbol * Math.max(1, symbols);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function takeCredits(endpoint: string, cost: number): Promise<number> {
+  const config = getLimiterConfig();
+  let current = syncState(config, Date.now());
+
+  if (current.dayUsed + cost > config.perDay) {
+    const resetAt = current.dayStart + 86400000;
+    throw new CreditBudgetError(
+      `Daily API credit budget exhausted (${current.dayUsed}/${config.perDay} used). ` +
+      `Resets at ${new Date(resetAt).toISOString()}`,
+      { retryAfterMs: resetAt - Date.now() }
+    );
+  }
+
+  if (cost > config.perMinute) {
+    throw new CreditBudgetError(
+      `Request costs ${cost} credits, more than the ${config.perMinute} credits/minute budget`
+    );
+  }
+
+  if (current.tokens < cost) {
+    const waitMs = Math.ceil(((cost - current.tokens) * 60000) / config.perMinute);
+    if (config.mode === "reject" || waitMs > config.maxWaitMs) {
+      throw new CreditBudgetError(
+        `API credit budget exceeded: ${Math.floor(current.tokens)}/${config.perMinute} credits available this minute. ` +
+        `Retry in ${Math.ceil(waitMs / 1000)}s`,
+        { retryAfterMs: waitMs }
+      );
+    }
+    await sleep(waitMs);
+    current = syncState(config, Date.now());
+  }
+
+  current.tokens -= cost;
+  current.dayUsed += cost;
+  const name = endpointName(endpoint);
+  current.byEndpoint[name] = (current.byEndpoint[name] ?? 0) + cost;
+  return cost;
+}
+
+/**
+ * Reserve credits for a request. Depending on TWELVEDATA_RATE_LIMIT_MODE the
+ * call waits for minute credits or throws when the budget is exceeded.
+ * Returns the number of credits consumed.
+ */
+export function acquireCredits(endpoint: string, params: LimiterParams): Promise<number> {
+  const cost = getCreditCost(endpoint, params);
+  const budget = currentBudget();
+  const result = (queues.get(budget) ?? Promise.resolve()).then(() => takeCredits(endpoint, cost));
+  queues.set(budget, result.then(() => undefined, () => undefined));
+  return result;
+}
+
+function readHeaderNumber(headers: Headers, name: string): number | undefined {
+  const raw = headers.get(name);
+  if (raw === null) return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Sync the minute bucket with the api-credits-used / api-credits-left
+ * headers when Twelve Data sends them
+ */
+export function recordCreditHeaders(headers: Headers): void {
+  const used = readHeaderNumber(headers, "api-credits-used");
+  const left = readHeaderNumber(headers, "api-credits-left");
+  if (used === undefined && left === undefined) return;
+
+  const now = Date.now();
+  const current = syncState(getLimiterConfig(), now);
+  if (left !== undefined) {
+    current.tokens = Math.min(current.tokens, Math.max(0, left));
+  }
+  current.upstream = {
+    credits_used: used,
+    credits_left: left,
+    observed_at: new Date(now).toISOString()
+  };
+}
+
+/**
+ * Drain the minute bucket after Twelve Data reports a rate limit (429)
+ */
+export function exhaustMinuteCredits(): void {
+  syncState(getLimiterConfig(), Date.now()).tokens = 0;
+}
+
+/**
+ * Snapshot of the remaining minute and day budget of the current client
+ */
+export function getUsage(): CreditUsage {
+  const config = getLimiterConfig();
+  const current = syncState(config, Date.now());
+  const available = Math.floor(current.tokens);
+
+  return {
+    budget: currentBudget(),
+    mode: config.mode,
+    minute: {
+      limit: config.perMinute,
+      available,
+      used: config.perMinute - available
+    },
+    day: {
+      limit: config.perDay,
+      used: current.dayUsed,
+      remaining: Math.max(0, config.perDay - current.dayUsed),
+      resets_at: new Date(current.dayStart + 86400000).toISOString()
+    },
+    upstream: current.upstream,
+    by_endpoint: { ...current.byEndpoint }
+  };
+}
+
+/**
+ * Forget all recorded usage
+ */
+export function resetRateLimiter(): void {
+  states.clear();
+  queues.clear();
+}
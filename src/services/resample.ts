@@ -0,0 +1,211 @@
+import { SUPPORTED_INTERVALS, MAX_TIME_SERIES_OUTPUTSIZE } from "../constants.js";
+import type { ApiResult, TimeSeriesResponse, TimeSeriesValue } from "../types.js";
+import { BadRequestError } from "./errors.js";
+import { getTimeSeries } from "./twelvedata.js";
+
+type IntervalUnit = "min" | "h" | "day" | "week" | "month";
+
+interface ParsedInterval {
+  count: number;
+  unit: IntervalUnit;
+}
+
+// Native intraday intervals by length in minutes, finest first
+const INTRADAY_INTERVALS: [number, string][] = [
+  [1, "1min"], [5, "5min"], [15, "15min"], [30, "30min"], [45, "45min"],
+  [60, "1h"], [120, "2h"], [240, "4h"], [480, "8h"]
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isNativeInterval(interval: string): boolean {
+  return (SUPPORTED_INTERVALS as readonly string[]).includes(interval);
+}
+
+function parseInterval(interval: string): ParsedInterval {
+  const match = /^(\d+)(min|h|day|week|month)$/.exec(interval);
+  if (!match || Number(match[1]) < 1) {
+    throw new BadRequestError(`Unsupported interval "${interval}". Use <n><unit> with unit min, h, day, week or month.`);
+  }
+  return { count: Number(match[1]), unit: match[2] as IntervalUnit };
+}
+
+/**
+ * Native interval to build a custom one from: the coarsest one that divides
+ * it evenly, so every candle is made of whole source bars
+ */
+export function chooseSourceInterval(interval: string): { source: string; factor: number } {
+  const { count, unit } = parseInterval(interval);
+  if (unit === "day" || unit === "week" || unit === "month") {
+    return { source: `1${unit}`, factor: count };
+  }
+  const minutes = unit === "h" ? count * 60 : count;
+  const [length, source] = [...INTRADAY_INTERVALS].reverse().find(([length]) => minutes % length === 0) ?? INTRADAY_INTERVALS[0];
+  return { source, factor: minutes / length };
+}
+
+/**
+ * Exchange-local wall-clock time as a UTC timestamp. Twelve Data reports
+ * datetimes in the exchange time zone, so bucketing on wall-clock time keeps
+ * candles on session boundaries across DST changes.
+ */
+function wallClockMs(datetime: string): number {
+  const [date, time = "00:00:00"] = datetime.trim().split(" ");
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour = 0, minute = 0, second = 0] = time.split(":").map(Number);
+  return Date.UTC(year, month - 1, day, hour, minute, second);
+}
+
+function formatWallClock(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 19).replace("T", " ");
+}
+
+function formatMinuteOfDay(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Bucket key for a bar, the bucket start for intraday candles. Intraday
+ * candles shorter than a day restart at the session open each day; longer
+ * ones and day/week/month candles count from fixed calendar boundaries.
+ */
+function bucketOf(
+  ms: number,
+  { count, unit }: ParsedInterval,
+  sessionOpen: number
+): number {
+  switch (unit) {
+    case "min":
+    case "h": {
+      const minutes = unit === "h" ? count * 60 : count;
+      if (minutes >= 24 * 60) {
+        return Math.floor(ms / (minutes * 60000)) * minutes * 60000;
+      }
+      const dayStart = Math.floor(ms / DAY_MS) * DAY_MS;
+      const minuteOfDay = (ms - dayStart) / 60000;
+      const index = Math.floor((minuteOfDay - sessionOpen) / minutes);
+      return dayStart + (sessionOpen + index * minutes) * 60000;
+    }
+    case "day":
+      return Math.floor(Math.floor(ms / DAY_MS) / count) * count;
+    case "week":
+      // 1970-01-01 was a Thursday; shift so weeks start on Monday
+      return Math.floor(Math.floor((Math.floor(ms / DAY_MS) + 3) / 7) / count);
+    case "month": {
+      const date = new Date(ms);
+      return Math.floor((date.getUTCFullYear() * 12 + date.getUTCMonth()) / count);
+    }
+  }
+}
+
+function aggregate(bars: TimeSeriesValue[], datetime: string): TimeSeriesValue {
+  let high = bars[0].high;
+  let low = bars[0].low;
+  let volume: number | undefined;
+  for (const bar of bars) {
+    if (parseFloat(bar.high) > parseFloat(high)) high = bar.high;
+    if (parseFloat(bar.low) < parseFloat(low)) low = bar.low;
+    if (bar.volume !== undefined) volume = (volume ?? 0) + (parseFloat(bar.volume) || 0);
+  }
+  return {
+    datetime,
+    open: bars[0].open,
+    high,
+    low,
+    close: bars[bars.length - 1].close,
+    ...(volume !== undefined ? { volume: String(volume) } : {})
+  };
+}
+
+/**
+ * Aggregate native candles into a custom interval: first open, highest
+ * high, lowest low, last close and summed volume. Returns candles newest
+ * first like the API; intraday candles are labelled with their bucket start,
+ * longer ones with their first trading day.
+ */
+export function resampleValues(
+  values: TimeSeriesValue[],
+  interval: string
+): { values: TimeSeriesValue[]; anchor: string } {
+  const parsed = parseInterval(interval);
+  const intraday = parsed.unit === "min" || parsed.unit === "h";
+  const bars = [...values]
+    .filter(bar => Number.isFinite(parseFloat(bar.open)) && Number.isFinite(parseFloat(bar.close)))
+    .sort((a, b) => a.datetime.localeCompare(b.datetime));
+
+  // Earliest time of day in the data: the open for exchange sessions,
+  // midnight for markets that trade around the clock
+  const sessionOpen = intraday
+    ? Math.min(...bars.map(bar => (wallClockMs(bar.datetime) % DAY_MS) / 60000))
+    : 0;
+
+  const buckets = new Map<number, TimeSeriesValue[]>();
+  for (const bar of bars) {
+    const key = bucketOf(wallClockMs(bar.datetime), parsed, sessionOpen);
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(bar);
+    else buckets.set(key, [bar]);
+  }
+
+  const resampled = [...buckets.entries()].map(([key, group]) =>
+    aggregate(group, intraday ? formatWallClock(key) : group[0].datetime)
+  );
+
+  const anchor = intraday
+    ? `session open ${formatMinuteOfDay(Number.isFinite(sessionOpen) ? sessionOpen : 0)}`
+    : parsed.unit === "day"
+      ? "calendar days"
+      : parsed.unit === "week"
+        ? "weeks starting Monday"
+        : "months counted from January";
+  return { values: resampled.reverse(), anchor };
+}
+
+/**
+ * Time series at an interval Twelve Data doesn't offer (3h, 10min, 2day,
+ * 3month, ...), built from the coarsest native interval that divides it.
+ * Costs one time series request.
+ */
+export async function getResampledTimeSeries(
+  symbol: string,
+  interval: string,
+  outputsize: number,
+  startDate?: string,
+  endDate?: string,
+  timezone?: string
+): Promise<ApiResult<TimeSeriesResponse>> {
+  const { source, factor } = chooseSourceInterval(interval);
+  if (factor === 1) {
+    // Another spelling of a native interval, e.g. 60min
+    const result = await getTimeSeries(symbol, source, outputsize, startDate, endDate, timezone);
+    return { ...result, data: { ...result.data, meta: { ...result.data.meta, interval } } };
+  }
+
+  // One spare candle's worth, since the oldest bucket may be cut short
+  const sourceSize = Math.min(MAX_TIME_SERIES_OUTPUTSIZE, (outputsize + 1) * factor);
+  const result = await getTimeSeries(symbol, source, sourceSize, startDate, endDate, timezone);
+  const { meta } = result.data;
+  const sourceValues = result.data.values ?? [];
+
+  const { values, anchor } = resampleValues(sourceValues, interval);
+  // A full source page may start mid-candle; drop that partial oldest candle
+  const complete = sourceValues.length >= sourceSize && values.length > 1 ? values.slice(0, -1) : values;
+
+  return {
+    ...result,
+    data: {
+      ...result.data,
+      meta: {
+        ...meta,
+        interval,
+        resampled: {
+          from_interval: source,
+          bars_per_candle: factor,
+          source_bars: sourceValues.length,
+          anchor: `${anchor} (${timezone && timezone !== "Exchange" ? timezone : meta.exchange_timezone || "exchange time"})`
+        }
+      },
+      values: complete.slice(0, outputsize)
+    }
+  };
+}
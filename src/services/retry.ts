@@ -0,0 +1,79 @@
+import {
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_RETRY_BASE_DELAY_MS,
+  DEFAULT_RETRY_MAX_DELAY_MS
+} from "../constants.js";
+import { TwelveDataError, CreditBudgetError } from "./errors.js";
+
+interface RetryConfig {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+function readNonNegativeInt(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isInteger(value) && value >= 0
+    ? value
+    : fallback;
+}
+
+function getRetryConfig(): RetryConfig {
+  return {
+    maxRetries: readNonNegativeInt("TWELVEDATA_MAX_RETRIES", DEFAULT_MAX_RETRIES),
+    baseDelayMs: readNonNegativeInt("TWELVEDATA_RETRY_BASE_DELAY_MS", DEFAULT_RETRY_BASE_DELAY_MS),
+    maxDelayMs: readNonNegativeInt("TWELVEDATA_RETRY_MAX_DELAY_MS", DEFAULT_RETRY_MAX_DELAY_MS)
+  };
+}
+
+/**
+ * Whether an error is worth another attempt
+ */
+function isRetryable(error: unknown): error is TwelveDataError {
+  return (
+    error instanceof TwelveDataError &&
+    error.retryable &&
+    !(error instanceof CreditBudgetError)
+  );
+}
+
+/**
+ * Delay before the next attempt: full-jitter exponential backoff, never
+ * shorter than the server's Retry-After
+ */
+export function getRetryDelayMs(
+  error: TwelveDataError,
+  attempt: number,
+  config: RetryConfig = getRetryConfig(),
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+  const jittered = Math.round(random() * ceiling);
+  return Math.max(jittered, error.retryAfterMs ?? 0);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Run an operation, retrying transient Twelve Data failures
+ * (rate limits, network errors, 5xx)
+ */
+export async function withRetry<T>(operation: () => Promise<T>): Promise<T> {
+  const config = getRetryConfig();
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (!isRetryable(error) || attempt >= config.maxRetries) throw error;
+
+      const delayMs = getRetryDelayMs(error, attempt, config);
+      // Don't sit on a request the server asked us to hold off longer than we'd wait
+      if (delayMs > config.maxDelayMs) throw error;
+
+      await sleep(delayMs);
+    }
+  }
+}
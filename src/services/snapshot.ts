@@ -0,0 +1,231 @@
+import type { IndicatorName } from "../constants.js";
+import type {
+  ApiResult,
+  SnapshotRow,
+  TechnicalIndicatorResponse,
+  TechnicalSnapshot,
+  TimeSeriesResponse
+} from "../types.js";
+import { toCandles } from "./analytics.js";
+import { BadRequestError, PlanRestrictedError, toErrorPayload } from "./errors.js";
+import {
+  buildIndicatorResponse,
+  getIndicator,
+  parseIndicatorParams,
+  warmupBars,
+  type IndicatorParams,
+  type IndicatorSource
+} from "./indicators.js";
+import { getTimeSeries } from "./twelvedata.js";
+
+// Moving averages used for the price trend rows
+const TREND_PERIODS = [50, 200] as const;
+
+// Maximum candles Twelve Data returns in one time series request
+const MAX_OUTPUTSIZE = 5000;
+
+type Values = Record<string, number>;
+
+/**
+ * Label an indicator with its numeric parameters, e.g. "MACD(12,26,9)"
+ */
+function indicatorLabel(indicator: string, params: IndicatorParams): string {
+  const numbers = Object.values(params).filter(value => typeof value === "number");
+  return numbers.length > 0
+    ? `${indicator.toUpperCase()}(${numbers.join(",")})`
+    : indicator.toUpperCase();
+}
+
+/**
+ * Read the newest two rows of an indicator response as numbers
+ */
+function latestRows(
+  data: TechnicalIndicatorResponse
+): { datetime?: string; latest?: Values; previous?: Values } {
+  const toValues = (row?: Record<string, string>): Values | undefined => {
+    if (!row) return undefined;
+    const entries = Object.entries(row)
+      .filter(([key]) => key !== "datetime")
+      .map(([key, value]) => [key, parseFloat(value)] as const)
+      .filter(([, value]) => Number.isFinite(value));
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  };
+  return {
+    datetime: data.values[0]?.datetime,
+    latest: toValues(data.values[0]),
+    previous: toValues(data.values[1])
+  };
+}
+
+/**
+ * Describe a crossing between two lines from their previous and latest gap
+ */
+function crossing(latestGap: number, previousGap?: number): "above" | "below" | null {
+  if (previousGap === undefined) return null;
+  if (previousGap <= 0 && latestGap > 0) return "above";
+  if (previousGap >= 0 && latestGap < 0) return "below";
+  return null;
+}
+
+/**
+ * Derive a signal for indicators with a conventional reading
+ */
+function indicatorSignal(
+  indicator: IndicatorName,
+  close: number,
+  latest: Values,
+  previous?: Values
+): string | undefined {
+  switch (indicator) {
+    case "rsi":
+      if (latest.rsi >= 70) return "Overbought (≥70)";
+      if (latest.rsi <= 30) return "Oversold (≤30)";
+      return "Neutral";
+    case "macd": {
+      const gap = latest.macd - latest.macd_signal;
+      const cross = crossing(gap, previous ? previous.macd - previous.macd_signal : undefined);
+      if (cross === "above") return "Bullish crossover (MACD crossed above signal)";
+      if (cross === "below") return "Bearish crossover (MACD crossed below signal)";
+      return gap >= 0 ? "MACD above signal" : "MACD below signal";
+    }
+    case "bbands": {
+      const width = latest.upper_band - latest.lower_band;
+      if (!(width > 0)) return undefined;
+      const percentB = ((close - latest.lower_band) / width).toFixed(2);
+      if (close > latest.upper_band) return `Above upper band (%B ${percentB})`;
+      if (close < latest.lower_band) return `Below lower band (%B ${percentB})`;
+      return close >= latest.middle_band
+        ? `Upper half of bands (%B ${percentB})`
+        : `Lower half of bands (%B ${percentB})`;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Build one snapshot row from the API (or locally from the shared series
+ * when the source is local, or auto and the plan doesn't include it)
+ */
+async function snapshotRow(
+  symbol: string,
+  interval: string,
+  series: TimeSeriesResponse,
+  close: number,
+  indicator: IndicatorName,
+  source: IndicatorSource
+): Promise<SnapshotRow> {
+  const params = parseIndicatorParams(indicator, {});
+  const row: SnapshotRow = { name: indicatorLabel(indicator, params), indicator };
+
+  let data: TechnicalIndicatorResponse | undefined;
+  try {
+    if (source !== "local") {
+      data = (await getIndicator(symbol, interval, indicator, 2, params, "api")).data;
+      row.source = "api";
+    }
+  } catch (error) {
+    if (source !== "auto" || !(error instanceof PlanRestrictedError)) {
+      return { ...row, error: toErrorPayload(error) };
+    }
+    row.fallback_reason = error.message;
+  }
+  if (!data) {
+    data = buildIndicatorResponse(series, indicator, 2, params);
+    row.source = "local";
+  }
+
+  const { datetime, latest, previous } = latestRows(data);
+  if (!latest) return { ...row, signal: "Not enough history" };
+  return {
+    ...row,
+    datetime,
+    latest,
+    previous,
+    signal: indicatorSignal(indicator, close, latest, previous)
+  };
+}
+
+/**
+ * Price against SMA50 and SMA200, computed from the shared series, with
+ * golden/death cross detection on the longer average
+ */
+function trendRows(series: TimeSeriesResponse, close: number, previousClose: number | null): SnapshotRow[] {
+  const averages = TREND_PERIODS.map(period => {
+    const params = parseIndicatorParams("sma", { time_period: period });
+    return { params, ...latestRows(buildIndicatorResponse(series, "sma", 2, params)) };
+  });
+
+  return averages.map(({ params, datetime, latest, previous }, i): SnapshotRow => {
+    const row: SnapshotRow = { name: indicatorLabel("sma", params), indicator: "sma", source: "local" };
+    if (!latest) return { ...row, signal: "Not enough history" };
+
+    const period = TREND_PERIODS[i];
+    const cross = crossing(
+      close - latest.sma,
+      previous && previousClose !== null ? previousClose - previous.sma : undefined
+    );
+    const signals = [
+      cross
+        ? `Price crossed ${cross} SMA${period}`
+        : `Price ${close >= latest.sma ? "above" : "below"} SMA${period}`
+    ];
+
+    if (i > 0) {
+      const shorter = averages[0];
+      if (shorter.latest) {
+        const averageCross = crossing(
+          shorter.latest.sma - latest.sma,
+          shorter.previous && previous ? shorter.previous.sma - previous.sma : undefined
+        );
+        if (averageCross === "above") signals.push(`golden cross (SMA${TREND_PERIODS[0]} crossed above)`);
+        if (averageCross === "below") signals.push(`death cross (SMA${TREND_PERIODS[0]} crossed below)`);
+      }
+    }
+
+    return { ...row, datetime, latest, previous, signal: signals.join("; ") };
+  });
+}
+
+/**
+ * Latest and previous values for several indicators on one symbol, with
+ * derived signals. One time series request covers the price, the trend
+ * rows and every locally computed indicator.
+ */
+export async function getTechnicalSnapshot(
+  symbol: string,
+  interval: string,
+  indicators: IndicatorName[],
+  source: IndicatorSource
+): Promise<ApiResult<TechnicalSnapshot>> {
+  const warmup = Math.max(
+    ...indicators.map(indicator => warmupBars(indicator, parseIndicatorParams(indicator, {})))
+  );
+  const size = Math.min(MAX_OUTPUTSIZE, Math.max(TREND_PERIODS[TREND_PERIODS.length - 1], warmup) + 2);
+  const { data: series, cache } = await getTimeSeries(symbol, interval, size);
+
+  const candles = toCandles(series.values);
+  const last = candles[candles.length - 1];
+  if (!last) {
+    throw new BadRequestError(`No candles returned for ${symbol} at ${interval}`);
+  }
+  const previousClose = candles.length > 1 ? candles[candles.length - 2].close : null;
+
+  const rows: SnapshotRow[] = [];
+  for (const indicator of new Set(indicators)) {
+    rows.push(await snapshotRow(symbol, interval, series, last.close, indicator, source));
+  }
+
+  return {
+    data: {
+      symbol: series.meta.symbol,
+      interval: series.meta.interval,
+      datetime: last.datetime,
+      close: last.close,
+      previous_close: previousClose,
+      indicators: rows,
+      trend: trendRows(series, last.close, previousClose)
+    },
+    cache
+  };
+}
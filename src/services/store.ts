@@ -0,0 +1,51 @@
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+/**
+ * Directory for state that outlives the process (alerts, ...).
+ * Override with TWELVEDATA_DATA_DIR.
+ */
+export function getDataDir(): string {
+  return process.env.TWELVEDATA_DATA_DIR || path.join(os.homedir(), ".twelvedata-mcp");
+}
+
+/**
+ * Directory name for an HTTP client's own state, safe for any client name
+ */
+export function clientDirName(client: string): string {
+  return `client-${encodeURIComponent(client)}`;
+}
+
+/**
+ * A client's own copy of a state file: the same name inside a client-<name>
+ * directory beside it. Without a client, the shared file.
+ */
+export function scopedPath(file: string, client: string | undefined): string {
+  return client === undefined ? file : path.join(path.dirname(file), clientDirName(client), path.basename(file));
+}
+
+/**
+ * Read a JSON file, or return the fallback when it doesn't exist yet
+ */
+export async function readJsonFile<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw error;
+  }
+}
+
+/**
+ * Write a JSON file atomically (temp file + rename), creating the directory.
+ * Each write has its own temp file, so concurrent writes to one file don't
+ * collide; the last rename wins.
+ */
+export async function writeJsonFile(file: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.${randomUUID()}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(data, null, 2));
+  await fs.rename(temp, file);
+}
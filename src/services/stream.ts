@@ -0,0 +1,392 @@
+import {
+  TWELVEDATA_WS_URL,
+  STREAM_HEARTBEAT_INTERVAL_MS,
+  STREAM_RECONNECT_BASE_DELAY_MS,
+  STREAM_RECONNECT_MAX_DELAY_MS,
+  STREAM_OFFLINE_TICK_MS
+} from "../constants.js";
+import WebSocket from "ws";
+import type { LivePrice, StreamStatus } from "../types.js";
+import { getClientScope, getRequestClient, type HttpClient } from "./clients.js";
+import { isOfflineMode } from "./fixtures.js";
+import { mockPriceEvent } from "./mock.js";
+import { getServerApiKey } from "./twelvedata.js";
+
+type PriceListener = (price: LivePrice, client: string | undefined) => void;
+
+// One connection per client, using the client's API key. stdio and servers
+// without authentication share the unnamed client's connection.
+interface ClientStream {
+  client: HttpClient | undefined;
+  socket: WebSocket | null;
+  state: StreamStatus["state"];
+  heartbeatTimer?: ReturnType<typeof setInterval>;
+  reconnectTimer?: ReturnType<typeof setTimeout>;
+  attempt: number;
+  reconnects: number;
+  lastMessageAt?: number;
+  lastError?: string;
+  // Replay and mock modes tick from a timer instead of a connection
+  offlineTimer?: ReturnType<typeof setInterval>;
+  // Sessions streaming each symbol. A symbol stays subscribed while any
+  // session still wants it, and the connection closes when none remain.
+  owners: Map<string, Set<string>>;
+  failed: Set<string>;
+  prices: Map<string, LivePrice>;
+}
+
+const streams = new Map<string | undefined, ClientStream>();
+const listeners = new Set<PriceListener>();
+
+/**
+ * The current client's stream, created on first use
+ */
+function clientStream(): ClientStream {
+  const name = getClientScope();
+  let stream = streams.get(name);
+  if (!stream) {
+    stream = {
+      client: getRequestClient(),
+      socket: null,
+      state: "idle",
+      attempt: 0,
+      reconnects: 0,
+      owners: new Map(),
+      failed: new Set(),
+      prices: new Map()
+    };
+    streams.set(name, stream);
+  }
+  return stream;
+}
+
+/**
+ * WebSocket endpoint, overridable so a local mock server can stand in
+ */
+export function getStreamUrl(): string {
+  return process.env.TWELVEDATA_WS_URL || TWELVEDATA_WS_URL;
+}
+
+function buildStreamUrl(stream: ClientStream): URL {
+  const url = new URL(getStreamUrl());
+  url.searchParams.set("apikey", stream.client?.api_key ?? getServerApiKey());
+  return url;
+}
+
+function send(stream: ClientStream, message: Record<string, unknown>): void {
+  if (stream.socket?.readyState === WebSocket.OPEN) {
+    stream.socket.send(JSON.stringify(message));
+  }
+}
+
+function sendSubscription(stream: ClientStream, action: "subscribe" | "unsubscribe", list: string[]): void {
+  if (list.length > 0) {
+    send(stream, { action, params: { symbols: list.join(",") } });
+  }
+}
+
+function toNumber(value: unknown): number | undefined {
+  const parsed = Number(value);
+  return value !== undefined && value !== null && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Symbols named in a subscribe-status list ({ symbol } objects or strings)
+ */
+function statusSymbols(list: unknown): string[] {
+  if (!Array.isArray(list)) return [];
+  return list
+    .map(entry => (typeof entry === "string" ? entry : (entry as { symbol?: unknown })?.symbol))
+    .filter((symbol): symbol is string => typeof symbol === "string");
+}
+
+function handleMessage(stream: ClientStream, raw: string): void {
+  let message: Record<string, unknown>;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return;
+  }
+
+  switch (message.event) {
+    case "price": {
+      const symbol = String(message.symbol ?? "");
+      const price = toNumber(message.price);
+      if (!stream.owners.has(symbol) || price === undefined) return;
+
+      const timestamp = toNumber(message.timestamp);
+      const live: LivePrice = {
+        symbol,
+        price,
+        timestamp: new Date(timestamp !== undefined ? timestamp * 1000 : Date.now()).toISOString(),
+        exchange: typeof message.exchange === "string" ? message.exchange : undefined,
+        currency: typeof message.currency === "string" ? message.currency : undefined,
+        day_volume: toNumber(message.day_volume),
+        received_at: new Date().toISOString()
+      };
+      stream.prices.set(symbol, live);
+      for (const listener of listeners) listener(live, stream.client?.name);
+      return;
+    }
+    case "subscribe-status": {
+      for (const symbol of statusSymbols(message.success)) stream.failed.delete(symbol);
+      for (const symbol of statusSymbols(message.fails)) {
+        stream.failed.add(symbol);
+        stream.owners.delete(symbol);
+      }
+      return;
+    }
+    default:
+      if (message.status === "error" && typeof message.message === "string") {
+        stream.lastError = message.message;
+      }
+  }
+}
+
+function stopHeartbeat(stream: ClientStream): void {
+  if (stream.heartbeatTimer) clearInterval(stream.heartbeatTimer);
+  stream.heartbeatTimer = undefined;
+}
+
+/**
+ * Send heartbeats and drop the connection when the server goes quiet
+ */
+function startHeartbeat(stream: ClientStream): void {
+  stopHeartbeat(stream);
+  stream.heartbeatTimer = setInterval(() => {
+    if (stream.lastMessageAt !== undefined && Date.now() - stream.lastMessageAt > 2 * STREAM_HEARTBEAT_INTERVAL_MS) {
+      stream.lastError = "No messages within two heartbeat intervals";
+      dropConnection(stream);
+      scheduleReconnect(stream);
+      return;
+    }
+    send(stream, { action: "heartbeat" });
+  }, STREAM_HEARTBEAT_INTERVAL_MS);
+  stream.heartbeatTimer.unref?.();
+}
+
+function dropConnection(stream: ClientStream): void {
+  stopHeartbeat(stream);
+  const closing = stream.socket;
+  stream.socket = null;
+  closing?.close();
+}
+
+/**
+ * Reconnect with jittered exponential backoff while symbols remain
+ */
+function scheduleReconnect(stream: ClientStream): void {
+  if (stream.owners.size === 0) {
+    stream.state = "idle";
+    return;
+  }
+
+  stream.state = "reconnecting";
+  const ceiling = Math.min(STREAM_RECONNECT_MAX_DELAY_MS, STREAM_RECONNECT_BASE_DELAY_MS * 2 ** stream.attempt);
+  const delay = Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+  stream.attempt++;
+  stream.reconnects++;
+
+  stream.reconnectTimer = setTimeout(() => {
+    stream.reconnectTimer = undefined;
+    try {
+      connect(stream, buildStreamUrl(stream));
+    } catch (error) {
+      stream.lastError = error instanceof Error ? error.message : String(error);
+      scheduleReconnect(stream);
+    }
+  }, delay);
+  stream.reconnectTimer.unref?.();
+}
+
+function connect(stream: ClientStream, url: URL): void {
+  const ws = new WebSocket(url);
+  stream.socket = ws;
+  if (stream.state !== "reconnecting") stream.state = "connecting";
+
+  ws.on("open", () => {
+    if (stream.socket !== ws) return;
+    stream.state = "open";
+    stream.attempt = 0;
+    stream.lastMessageAt = Date.now();
+    sendSubscription(stream, "subscribe", [...stream.owners.keys()]);
+    startHeartbeat(stream);
+  });
+
+  ws.on("message", data => {
+    if (stream.socket !== ws) return;
+    stream.lastMessageAt = Date.now();
+    handleMessage(stream, data.toString());
+  });
+
+  // A close event always follows, and reconnects
+  ws.on("error", error => {
+    if (stream.socket !== ws) return;
+    stream.lastError = error.message;
+  });
+
+  ws.on("close", (code, reason) => {
+    if (stream.socket !== ws) return;
+    stream.socket = null;
+    stopHeartbeat(stream);
+    stream.lastError = `Connection closed (code ${code}${reason.length > 0 ? `: ${reason.toString()}` : ""})`;
+    scheduleReconnect(stream);
+  });
+}
+
+/**
+ * Synthetic ticks for every subscribed symbol every STREAM_OFFLINE_TICK_MS,
+ * for replay and mock modes
+ */
+function startOfflineFeed(stream: ClientStream): void {
+  stream.state = "open";
+  const tick = () => {
+    stream.lastMessageAt = Date.now();
+    for (const symbol of stream.owners.keys()) handleMessage(stream, JSON.stringify(mockPriceEvent(symbol)));
+  };
+  stream.offlineTimer = setInterval(tick, STREAM_OFFLINE_TICK_MS);
+  stream.offlineTimer.unref?.();
+  setTimeout(tick, 0).unref?.();
+}
+
+function addOwner(stream: ClientStream, symbol: string, owner: string): void {
+  const sessions = stream.owners.get(symbol) ?? new Set<string>();
+  sessions.add(owner);
+  stream.owners.set(symbol, sessions);
+}
+
+/**
+ * Start streaming symbols for a session of the current client, opening the
+ * client's connection on first use
+ */
+export function subscribePrices(list: string[], owner: string): StreamStatus {
+  const stream = clientStream();
+  if (isOfflineMode()) {
+    for (const symbol of list) addOwner(stream, symbol, owner);
+    if (!stream.offlineTimer) startOfflineFeed(stream);
+    return statusOf(stream);
+  }
+
+  const url = buildStreamUrl(stream);
+  const added = list.filter(symbol => !stream.owners.has(symbol));
+  for (const symbol of list) addOwner(stream, symbol, owner);
+  for (const symbol of added) stream.failed.delete(symbol);
+
+  if (!stream.socket && !stream.reconnectTimer) {
+    stream.attempt = 0;
+    connect(stream, url);
+  } else {
+    sendSubscription(stream, "subscribe", added);
+  }
+  return statusOf(stream);
+}
+
+function removeOwner(stream: ClientStream, list: string[], owner: string): void {
+  const removed = list.filter(symbol => {
+    const sessions = stream.owners.get(symbol);
+    if (!sessions?.delete(owner) || sessions.size > 0) return false;
+    stream.owners.delete(symbol);
+    return true;
+  });
+  for (const symbol of removed) stream.prices.delete(symbol);
+
+  if (stream.owners.size === 0) {
+    stopStream(stream);
+  } else {
+    sendSubscription(stream, "unsubscribe", removed);
+  }
+}
+
+/**
+ * Stop streaming symbols for a session of the current client. Symbols
+ * other sessions still stream stay subscribed; the connection closes when
+ * none remain.
+ */
+export function unsubscribePrices(list: string[], owner: string): StreamStatus {
+  const stream = clientStream();
+  removeOwner(stream, list, owner);
+  return statusOf(stream);
+}
+
+/**
+ * Stop every symbol a session streams, e.g. when the session ends
+ */
+export function releasePrices(owner: string): void {
+  for (const stream of streams.values()) {
+    removeOwner(stream, sessionSymbols(stream, owner), owner);
+  }
+}
+
+function sessionSymbols(stream: ClientStream, owner: string): string[] {
+  return [...stream.owners].filter(([, sessions]) => sessions.has(owner)).map(([symbol]) => symbol);
+}
+
+/**
+ * Symbols a session streams
+ */
+export function getSessionSymbols(owner: string): string[] {
+  return [...streams.values()].flatMap(stream => sessionSymbols(stream, owner));
+}
+
+/**
+ * Close the connection and forget every subscription
+ */
+function stopStream(stream: ClientStream): void {
+  if (stream.reconnectTimer) clearTimeout(stream.reconnectTimer);
+  stream.reconnectTimer = undefined;
+  if (stream.offlineTimer) clearInterval(stream.offlineTimer);
+  stream.offlineTimer = undefined;
+  dropConnection(stream);
+  stream.owners.clear();
+  stream.failed.clear();
+  stream.prices.clear();
+  stream.state = "idle";
+  stream.attempt = 0;
+}
+
+export function isStreaming(symbol: string): boolean {
+  return clientStream().owners.has(symbol);
+}
+
+export function getLivePrice(symbol: string): LivePrice | undefined {
+  return clientStream().prices.get(symbol);
+}
+
+/**
+ * Latest price per symbol the current client streams (symbols still
+ * waiting for their first tick are left out)
+ */
+export function listLivePrices(): LivePrice[] {
+  const stream = clientStream();
+  return [...stream.owners.keys()]
+    .map(symbol => stream.prices.get(symbol))
+    .filter((price): price is LivePrice => price !== undefined);
+}
+
+/**
+ * Register a callback for every price tick, told which client's stream it
+ * came from; returns an unsubscribe function
+ */
+export function onPriceUpdate(listener: PriceListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function statusOf(stream: ClientStream): StreamStatus {
+  return {
+    url: getStreamUrl(),
+    state: stream.state,
+    symbols: [...stream.owners.keys()],
+    failed: [...stream.failed],
+    reconnects: stream.reconnects,
+    ...(stream.lastMessageAt !== undefined ? { last_message_at: new Date(stream.lastMessageAt).toISOString() } : {}),
+    ...(stream.lastError ? { last_error: stream.lastError } : {})
+  };
+}
+
+/**
+ * State of the current client's stream
+ */
+export function getStreamStatus(): StreamStatus {
+  return statusOf(clientStream());
+}
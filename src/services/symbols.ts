@@ -0,0 +1,138 @@
+import {
+  POPULAR_SYMBOLS,
+  SYMBOL_NAME_ALIASES,
+  CURRENCY_CODES
+} from "../constants.js";
+import type { BatchItem, SymbolResolution, SymbolSearchResult } from "../types.js";
+import { InvalidSymbolError, toErrorPayload } from "./errors.js";
+import { searchSymbols } from "./twelvedata.js";
+
+// Maximum candidates returned for an ambiguous symbol
+const MAX_CANDIDATES = 10;
+
+// Slashless forms of POPULAR_SYMBOLS keys (XAUUSD -> XAU/USD)
+const popularAliases = new Map(
+  Object.keys(POPULAR_SYMBOLS).map(symbol => [symbol.replace("/", ""), symbol])
+);
+
+/**
+ * Split a slashless pair (EURUSD, BTCUSDT) into BASE/QUOTE when both
+ * halves are known currency codes
+ */
+export function splitCurrencyPair(compact: string): string | undefined {
+  if (!/^[A-Z]{6,8}$/.test(compact)) return undefined;
+
+  for (let i = 3; i <= compact.length - 3; i++) {
+    const base = compact.slice(0, i);
+    const quote = compact.slice(i);
+    if (CURRENCY_CODES.has(base) && CURRENCY_CODES.has(quote)) {
+      return `${base}/${quote}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolve what a user typed ("gold", "XAUUSD", "eurusd", "Apple") to a
+ * symbol the API accepts. Local rules are tried first; only free-text
+ * names fall through to /symbol_search. Ambiguous input resolves to a
+ * list of candidates instead of a symbol.
+ */
+export async function resolveSymbol(input: string): Promise<SymbolResolution> {
+  const trimmed = input.trim();
+  const upper = trimmed.toUpperCase();
+  const compact = upper.replace(/[\s/_-]/g, "");
+
+  const named = SYMBOL_NAME_ALIASES[trimmed.toLowerCase()];
+  if (named) return { input, symbol: named, method: "name" };
+
+  if (upper.includes("/")) {
+    return { input, symbol: upper.replace(/\s+/g, ""), method: "exact" };
+  }
+
+  const popular = popularAliases.get(compact);
+  if (popular) return { input, symbol: popular, method: "alias" };
+
+  const pair = splitCurrencyPair(compact);
+  if (pair) return { input, symbol: pair, method: "pair" };
+
+  // Typed as an upper-case ticker (AAPL, BRK.B): take it as given
+  if (/^[A-Z0-9.:]{1,12}$/.test(trimmed)) {
+    return { input, symbol: trimmed, method: "exact" };
+  }
+
+  return resolveBySearch(input, trimmed);
+}
+
+async function resolveBySearch(input: string, query: string): Promise<SymbolResolution> {
+  const { data } = await searchSymbols(query);
+  const results = data.data ?? [];
+
+  if (results.length === 0) {
+    throw new InvalidSymbolError(`No symbols match "${query}"`);
+  }
+
+  const exact = results.filter(r => r.symbol.toUpperCase() === query.toUpperCase());
+  if (exact.length > 0) {
+    return { input, symbol: exact[0].symbol, method: "search" };
+  }
+
+  // Listings of the same ticker on several exchanges count as one match
+  const distinct = uniqueBySymbol(results);
+  if (distinct.length === 1) {
+    return { input, symbol: distinct[0].symbol, method: "search" };
+  }
+
+  return {
+    input,
+    method: "ambiguous",
+    candidates: distinct.slice(0, MAX_CANDIDATES)
+  };
+}
+
+function uniqueBySymbol(results: SymbolSearchResult[]): SymbolSearchResult[] {
+  const seen = new Set<string>();
+  return results.filter(result => {
+    if (seen.has(result.symbol)) return false;
+    seen.add(result.symbol);
+    return true;
+  });
+}
+
+/**
+ * Resolve several inputs and fetch the resolved symbols with one batch
+ * call. Inputs that can't be resolved (unknown or ambiguous) become error
+ * items; results keep the input order.
+ */
+export async function fetchResolvedBatch<T>(
+  inputs: string[],
+  fetchBatch: (symbols: string[]) => Promise<BatchItem<T>[]>
+): Promise<BatchItem<T>[]> {
+  const resolutions = await Promise.all(inputs.map(async (input): Promise<BatchItem<T> | SymbolResolution> => {
+    try {
+      const resolution = await resolveSymbol(input);
+      if (resolution.symbol) return resolution;
+      const names = (resolution.candidates ?? [])
+        .map(c => `${c.symbol} (${c.instrument_name})`)
+        .join(", ");
+      return {
+        symbol: input,
+        error: toErrorPayload(new InvalidSymbolError(`Ambiguous symbol "${input}": ${names}`))
+      };
+    } catch (error) {
+      return { symbol: input, error: toErrorPayload(error) };
+    }
+  }));
+
+  const symbols = resolutions.flatMap(r => (isResolution(r) && r.symbol ? [r.symbol] : []));
+  const fetched = symbols.length > 0 ? await fetchBatch(symbols) : [];
+  const bySymbol = new Map(fetched.map(item => [item.symbol, item]));
+
+  return resolutions.map(r =>
+    isResolution(r) ? (bySymbol.get(r.symbol as string) as BatchItem<T>) : r
+  );
+}
+
+function isResolution<T>(value: BatchItem<T> | SymbolResolution): value is SymbolResolution {
+  return "method" in value;
+}
@@ -6,18 +6,86 @@ import type {
   ExchangeRateResponse,
   CurrencyConversionResponse,
   ForexPairsResponse,
+  ForexPair,
+  CryptocurrenciesResponse,
+  CryptocurrencyInfo,
+  StocksResponse,
+  StockInfo,
+  EtfsResponse,
+  EtfInfo,
+  SymbolSearchResponse,
+  SymbolSearchResult,
+  SymbolResolution,
+  PageInfo,
+  SeriesAnalytics,
+  TechnicalSnapshot,
   CommoditiesResponse,
   CommodityInfo,
   TechnicalIndicatorResponse,
-  ApiError
+  ApiError,
+  ApiResult,
+  CacheInfo,
+  CreditUsage,
+  LivePrice,
+  StreamStatus,
+  PriceAlert,
+  AlertPollerStatus,
+  Watchlist,
+  PortfolioValuation,
+  CorrelationMatrix,
+  BackfillInfo,
+  CandleCoverage,
+  BatchItem
 } from "../types.js";
 import { isApiError } from "../types.js";
+import type { AlertCondition } from "../schemas/twelvedata.js";
+import {
+  isCacheEnabled,
+  buildCacheKey,
+  getTtlSeconds,
+  getCached,
+  setCached
+} from "./cache.js";
+import {
+  acquireCredits,
+  recordCreditHeaders,
+  exhaustMinuteCredits,
+  currentBudget,
+  getCreditCost,
+  getMinuteCreditBudget
+} from "./rateLimiter.js";
+import {
+  TwelveDataError,
+  AuthError,
+  NetworkError,
+  UpstreamError,
+  InvalidSymbolError,
+  errorFromApiError,
+  errorFromHttpStatus,
+  parseRetryAfter,
+  toErrorPayload
+} from "./errors.js";
+import { withRetry } from "./retry.js";
+import { getClientScope, getRequestClient } from "./clients.js";
+import { log, redactUrl } from "./logger.js";
+import { recordCacheLookup, recordCredits, recordUpstreamRequest } from "./metrics.js";
+import { getClientMode, isOfflineMode, recordFixture, replayFixture } from "./fixtures.js";
+import { mockResponse } from "./mock.js";
+import {
+  withFailover,
+  fromFallbacks,
+  shouldFailover,
+  getPrimaryProvider,
+  type MarketDataProvider,
+  type ProviderCall,
+  type TimeSeriesRequest
+} from "./providers.js";
 
-// Get API key from environment
-function getApiKey(): string {
+// Get the server's API key from the environment
+export function getServerApiKey(): string {
   const apiKey = process.env.TWELVEDATA_API_KEY;
   if (!apiKey) {
-    throw new Error(
+    throw new AuthError(
       "TWELVEDATA_API_KEY environment variable is required. " +
       "Sign up for free at https://twelvedata.com/ to get your API key."
     );
@@ -26,17 +94,97 @@ function getApiKey(): string {
 }
 
 /**
- * Generic fetch wrapper with error handling
+ * Key for the current request: the HTTP client's own key when it has one,
+ * otherwise the server's
+ */
+export function getApiKey(): string {
+  return getRequestClient()?.api_key ?? getServerApiKey();
+}
+
+/**
+ * Base URL of the Twelve Data REST API (TWELVEDATA_API_URL, e.g. a proxy or
+ * a local stand-in; default: the public API)
+ */
+export function getApiBaseUrl(): string {
+  return (process.env.TWELVEDATA_API_URL || TWELVEDATA_API_URL).replace(/\/+$/, "");
+}
+
+/**
+ * Generic fetch wrapper with error handling, retries and response caching.
+ * Always asks Twelve Data; market data goes through fetchMarketData.
  */
 async function fetchApi<T>(
   endpoint: string, 
+  params: Record<string, string | number | undefined>,
+  // Batches count their cache lookups per symbol in fetchBatch
+  countLookup = true
+): Promise<ApiResult<T>> {
+  return cachedFetch(endpoint, params, countLookup, async () => ({
+    data: await requestApi<T>(endpoint, params)
+  }));
+}
+
+/**
+ * Fetch from the configured market data providers, failing over from the
+ * primary where configured (see providers.ts). Only Twelve Data's answers
+ * are cached; another provider's are served once and asked for again.
+ */
+async function fetchMarketData<T>(
+  endpoint: string,
+  params: Record<string, string | number | undefined>,
+  call: ProviderCall<T>
+): Promise<ApiResult<T>> {
+  return cachedFetch(endpoint, params, true, () => withFailover(call));
+}
+
+async function cachedFetch<T>(
+  endpoint: string,
+  params: Record<string, string | number | undefined>,
+  countLookup: boolean,
+  load: () => Promise<{ data: T; provider?: string; fallback?: boolean }>
+): Promise<ApiResult<T>> {
+  const cacheKey = buildCacheKey(endpoint, params, getClientScope());
+  const ttlSeconds = getTtlSeconds(endpoint, params);
+
+  if (isCacheEnabled()) {
+    const cached = getCached<T>(cacheKey);
+    if (countLookup) recordCacheLookup(metricEndpoint(endpoint), cached !== undefined);
+    if (cached) return cached;
+  }
+
+  const { data, provider, fallback } = await load();
+  const fromTwelveData = provider === undefined || provider === twelveDataProvider.name;
+
+  if (isCacheEnabled() && fromTwelveData) {
+    setCached(cacheKey, data, ttlSeconds);
+  }
+
+  return {
+    data,
+    cache: {
+      hit: false,
+      age_seconds: 0,
+      ttl_seconds: fromTwelveData ? ttlSeconds : 0,
+      ...(!fromTwelveData ? { provider } : {}),
+      ...(fallback ? { fallback } : {})
+    }
+  };
+}
+
+/**
+ * One Twelve Data request, uncached: adds the API key, spends credits and
+ * retries transient failures
+ */
+async function requestApi<T>(
+  endpoint: string,
   params: Record<string, string | number | undefined>
 ): Promise<T> {
-  const apiKey = getApiKey();
-  const url = new URL(`${TWELVEDATA_API_URL}${endpoint}`);
+  const url = new URL(`${getApiBaseUrl()}${endpoint}`);
   
-  // Add API key
-  url.searchParams.append("apikey", apiKey);
+  // Add API key (replayed and mocked requests never leave the process)
+  if (!isOfflineMode()) {
+    url.searchParams.append("apikey", getApiKey());
+  }
   
   // Add other params
   Object.entries(params).forEach(([key, value]) => {
@@ -45,33 +193,301 @@ async function fetchApi<T>(
     }
   });
 
-  const response = await fetch(url.toString());
+  return withRetry(() => requestOnce<T>(endpoint, params, url));
+}
+
+/**
+ * The Twelve Data REST API as a market data provider
+ */
+export const twelveDataProvider: MarketDataProvider = {
+  name: "twelvedata",
+  getPrice: symbol => requestApi<PriceResponse>("/price", { symbol }),
+  getQuote: symbol => requestApi<QuoteResponse>("/quote", { symbol }),
+  getTimeSeries: request => requestApi<TimeSeriesResponse>("/time_series", { ...request }),
+  getExchangeRate: symbol => requestApi<ExchangeRateResponse>("/exchange_rate", { symbol }),
+  convertCurrency: (symbol, amount) =>
+    requestApi<CurrencyConversionResponse>("/currency_conversion", { symbol, amount }),
+  getTechnicalIndicator: ({ indicator, params, ...request }) =>
+    requestApi<TechnicalIndicatorResponse>(`/${indicator}`, { ...request, ...params })
+};
+
+function metricEndpoint(endpoint: string): string {
+  return endpoint.replace(/^\//, "");
+}
+
+// Error label for metrics and logs: Twelve Data's code, the HTTP status, or the error kind
+function upstreamErrorCode(error: unknown): string {
+  if (error instanceof TwelveDataError) return String(error.apiCode ?? error.status ?? error.code);
+  return "internal";
+}
+
+/**
+ * Single upstream request: spends credits, then maps failures to typed
+ * errors. Each attempt is logged (key redacted) and counted in the metrics.
+ */
+async function requestOnce<T>(
+  endpoint: string,
+  params: Record<string, string | number | undefined>,
+  url: URL
+): Promise<T> {
+  // Offline modes spend no credits
+  const credits = isOfflineMode() ? 0 : await acquireCredits(endpoint, params);
+  if (credits > 0) recordCredits(metricEndpoint(endpoint), currentBudget(), credits);
+
+  const started = Date.now();
+  let errorCode: string | undefined;
+  try {
+    return await sendRequest<T>(endpoint, params, url);
+  } catch (error) {
+    errorCode = upstreamErrorCode(error);
+    throw error;
+  } finally {
+    const durationMs = Date.now() - started;
+    recordUpstreamRequest(metricEndpoint(endpoint), errorCode, durationMs / 1000);
+    log(errorCode ? "warn" : "info", "upstream.request", {
+      endpoint,
+      url: redactUrl(url),
+      credits,
+      duration_ms: durationMs,
+      ...(errorCode ? { error_code: errorCode } : {})
+    });
+  }
+}
+
+/**
+ * Response for a request according to TWELVEDATA_MODE: from Twelve Data
+ * (recorded as a fixture in record mode), a replayed fixture, or mock data
+ */
+async function upstreamFetch(
+  endpoint: string,
+  params: Record<string, string | number | undefined>,
+  url: URL
+): Promise<Response> {
+  switch (getClientMode()) {
+    case "mock":
+      return Response.json(mockResponse(endpoint, params));
+    case "replay":
+      return replayFixture(endpoint, params);
+    case "record":
+      return recordFixture(endpoint, params, await fetch(url.toString()));
+    default:
+      return fetch(url.toString());
+  }
+}
+
+async function sendRequest<T>(
+  endpoint: string,
+  params: Record<string, string | number | undefined>,
+  url: URL
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await upstreamFetch(endpoint, params, url);
+  } catch (error) {
+    if (error instanceof TwelveDataError) throw error;
+    const message = error instanceof Error ? error.message : String(error);
+    throw new NetworkError(`Network error calling Twelve Data: ${message}`);
+  }
+
+  recordCreditHeaders(response.headers);
+  const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
   
   if (!response.ok) {
-    throw new Error(`Twelve Data API HTTP error: ${response.status} ${response.statusText}`);
+    if (response.status === 429) exhaustMinuteCredits();
+    throw errorFromHttpStatus(response.status, response.statusText, retryAfterMs);
   }
 
-  const data = await response.json() as T | ApiError;
+  let data: T | ApiError;
+  try {
+    data = await response.json() as T | ApiError;
+  } catch {
+    throw new UpstreamError("Twelve Data API returned an invalid JSON response");
+  }
   
   if (isApiError(data)) {
-    throw new Error(`Twelve Data API error: ${data.message} (code: ${data.code})`);
+    if (data.code === 429) exhaustMinuteCredits();
+    throw errorFromApiError(data, retryAfterMs);
   }
 
-  return data as T;
+  return data;
 }
 
 /**
  * Get real-time price for a symbol
  */
-export async function getPrice(symbol: string): Promise<PriceResponse> {
-  return fetchApi<PriceResponse>("/price", { symbol });
+export async function getPrice(symbol: string): Promise<ApiResult<PriceResponse>> {
+  return fetchMarketData("/price", { symbol }, provider => provider.getPrice(symbol));
 }
 
 /**
  * Get detailed quote for a symbol
  */
-export async function getQuote(symbol: string): Promise<QuoteResponse> {
-  return fetchApi<QuoteResponse>("/quote", { symbol });
+export async function getQuote(symbol: string): Promise<ApiResult<QuoteResponse>> {
+  return fetchMarketData("/quote", { symbol }, provider => provider.getQuote(symbol));
+}
+
+/**
+ * Get real-time prices for several symbols in one request
+ */
+export async function getPrices(symbols: string[]): Promise<BatchItem<PriceResponse>[]> {
+  return fetchBatch("/price", symbols, symbol => provider => provider.getPrice(symbol));
+}
+
+/**
+ * Get detailed quotes for several symbols in one request
+ */
+export async function getQuotes(symbols: string[]): Promise<BatchItem<QuoteResponse>[]> {
+  return fetchBatch("/quote", symbols, symbol => provider => provider.getQuote(symbol));
+}
+
+/**
+ * Fetch several symbols from a batch-capable endpoint. Symbols already in
+ * the cache are served from it, the rest share upstream requests, and
+ * each symbol's result is cached on its own so single-symbol calls hit it.
+ */
+async function fetchBatch<T>(
+  endpoint: string,
+  symbols: string[],
+  call: (symbol: string) => ProviderCall<T>
+): Promise<BatchItem<T>[]> {
+  const unique = [...new Set(symbols.map(symbol => symbol.trim()))];
+  const items = new Map<string, BatchItem<T>>();
+  const missing: string[] = [];
+
+  unique.forEach(symbol => {
+    const cached = isCacheEnabled()
+      ? getCached<T>(buildCacheKey(endpoint, { symbol }, getClientScope()))
+      : undefined;
+    if (isCacheEnabled()) recordCacheLookup(metricEndpoint(endpoint), cached !== undefined);
+    if (cached) {
+      items.set(symbol, { symbol, data: cached.data, cache: cached.cache });
+    } else {
+      missing.push(symbol);
+    }
+  });
+
+  if (missing.length > 0) {
+    const fetched = await fetchBatchFromProviders(endpoint, missing, call);
+    fetched.forEach(item => items.set(item.symbol, item));
+  }
+
+  return unique.map(symbol => items.get(symbol) as BatchItem<T>);
+}
+
+/**
+ * Symbols missing from the cache: one Twelve Data batch request when it is
+ * the primary provider, otherwise (or after a failover error) one request
+ * per symbol
+ */
+async function fetchBatchFromProviders<T>(
+  endpoint: string,
+  symbols: string[],
+  call: (symbol: string) => ProviderCall<T>
+): Promise<BatchItem<T>[]> {
+  const primary = getPrimaryProvider();
+  if (primary !== twelveDataProvider) {
+    return Promise.all(symbols.map(symbol =>
+      fetchSymbol(endpoint, symbol, () => withFailover(call(symbol)))
+    ));
+  }
+
+  const chunks = batchChunks(endpoint, symbols);
+  const items: BatchItem<T>[] = [];
+  for (const chunk of chunks) {
+    try {
+      items.push(...await fetchBatchFromApi<T>(endpoint, chunk));
+    } catch (error) {
+      if (shouldFailover(error)) {
+        items.push(...await Promise.all(chunk.map(symbol =>
+          fetchSymbol(endpoint, symbol, () => fromFallbacks(call(symbol), primary.name, error))
+        )));
+      } else if (chunks.length === 1) {
+        throw error;
+      } else {
+        // Symbols of the chunks already fetched keep their results
+        items.push(...chunk.map(symbol => ({ symbol, error: toErrorPayload(error) })));
+      }
+    }
+  }
+  return items;
+}
+
+/**
+ * Split a batch into requests that each fit the per-minute credit budget,
+ * so a large watchlist on the free plan is fetched over several minutes
+ * instead of being rejected
+ */
+function batchChunks(endpoint: string, symbols: string[]): string[][] {
+  const perSymbol = getCreditCost(endpoint, {});
+  const size = Math.max(1, Math.floor(getMinuteCreditBudget() / perSymbol));
+  const chunks: string[][] = [];
+  for (let i = 0; i < symbols.length; i += size) {
+    chunks.push(symbols.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// One symbol of a batch, with failures reported on the item
+async function fetchSymbol<T>(
+  endpoint: string,
+  symbol: string,
+  load: () => Promise<{ data: T; provider?: string; fallback?: boolean }>
+): Promise<BatchItem<T>> {
+  try {
+    const { data, cache } = await cachedFetch(endpoint, { symbol }, false, load);
+    return { symbol, data, cache };
+  } catch (error) {
+    return { symbol, error: toErrorPayload(error) };
+  }
+}
+
+/**
+ * One upstream batch request. Twelve Data keys the response by symbol and
+ * reports per-symbol failures inline; a single symbol comes back unkeyed.
+ */
+async function fetchBatchFromApi<T>(
+  endpoint: string,
+  symbols: string[]
+): Promise<BatchItem<T>[]> {
+  let result: ApiResult<Record<string, unknown>>;
+  try {
+    result = await fetchApi<Record<string, unknown>>(endpoint, { symbol: symbols.join(",") }, false);
+  } catch (error) {
+    // With one symbol, a symbol-level failure arrives as a top-level error
+    if (
+      symbols.length === 1 &&
+      error instanceof TwelveDataError &&
+      !error.retryable &&
+      error.code !== "auth"
+    ) {
+      return [{ symbol: symbols[0], error: toErrorPayload(error) }];
+    }
+    throw error;
+  }
+
+  const { data, cache } = result;
+  const keyed = symbols.length === 1 ? { [symbols[0]]: data } : data;
+  const bySymbol = new Map(
+    Object.entries(keyed).map(([key, value]) => [key.toUpperCase(), value])
+  );
+
+  return symbols.map(symbol => {
+    const entry = bySymbol.get(symbol.toUpperCase());
+    if (entry === undefined || entry === null) {
+      return {
+        symbol,
+        error: toErrorPayload(new InvalidSymbolError(`No data returned for ${symbol}`))
+      };
+    }
+    if (isApiError(entry)) {
+      return { symbol, error: toErrorPayload(errorFromApiError(entry)) };
+    }
+
+    if (isCacheEnabled() && !cache.hit) {
+      setCached(buildCacheKey(endpoint, { symbol }, getClientScope()), entry, cache.ttl_seconds);
+    }
+    return { symbol, data: entry as T, cache };
+  });
 }
 
 /**
@@ -82,15 +498,18 @@ export async function getTimeSeries(
   interval: string,
   outputsize?: number,
   startDate?: string,
-  endDate?: string
-): Promise<TimeSeriesResponse> {
-  return fetchApi<TimeSeriesResponse>("/time_series", {
+  endDate?: string,
+  timezone?: string
+): Promise<ApiResult<TimeSeriesResponse>> {
+  const request: TimeSeriesRequest = {
     symbol,
     interval,
     outputsize,
     start_date: startDate,
-    end_date: endDate
-  });
+    end_date: endDate,
+    timezone
+  };
+  return fetchMarketData("/time_series", { ...request }, provider => provider.getTimeSeries(request));
 }
 
 /**
@@ -98,8 +517,8 @@ export async function getTimeSeries(
  */
 export async function getExchangeRate(
   symbol: string
-): Promise<ExchangeRateResponse> {
-  return fetchApi<ExchangeRateResponse>("/exchange_rate", { symbol });
+): Promise<ApiResult<ExchangeRateResponse>> {
+  return fetchMarketData("/exchange_rate", { symbol }, provider => provider.getExchangeRate(symbol));
 }
 
 /**
@@ -108,24 +527,79 @@ export async function getExchangeRate(
 export async function convertCurrency(
   symbol: string,
   amount: number
-): Promise<CurrencyConversionResponse> {
-  return fetchApi<CurrencyConversionResponse>("/currency_conversion", {
-    symbol,
-    amount
+): Promise<ApiResult<CurrencyConversionResponse>> {
+  return fetchMarketData(
+    "/currency_conversion",
+    { symbol, amount },
+    provider => provider.convertCurrency(symbol, amount)
+  );
+}
+
+/**
+ * Get list of available forex pairs, optionally filtered by currency
+ */
+export async function getForexPairs(
+  currencyBase?: string,
+  currencyQuote?: string
+): Promise<ApiResult<ForexPairsResponse>> {
+  return fetchApi<ForexPairsResponse>("/forex_pairs", {
+    currency_base: currencyBase,
+    currency_quote: currencyQuote
+  });
+}
+
+/**
+ * Search instruments by symbol or name
+ */
+export async function searchSymbols(
+  query: string,
+  outputsize?: number
+): Promise<ApiResult<SymbolSearchResponse>> {
+  return fetchApi<SymbolSearchResponse>("/symbol_search", { symbol: query, outputsize });
+}
+
+/**
+ * Get list of available cryptocurrency pairs
+ */
+export async function getCryptocurrencies(
+  currencyBase?: string,
+  currencyQuote?: string,
+  exchange?: string
+): Promise<ApiResult<CryptocurrenciesResponse>> {
+  return fetchApi<CryptocurrenciesResponse>("/cryptocurrencies", {
+    currency_base: currencyBase,
+    currency_quote: currencyQuote,
+    exchange
   });
 }
 
 /**
- * Get list of available forex pairs
+ * Get list of available stocks
+ */
+export async function getStocks(
+  symbol?: string,
+  exchange?: string,
+  country?: string,
+  type?: string
+): Promise<ApiResult<StocksResponse>> {
+  return fetchApi<StocksResponse>("/stocks", { symbol, exchange, country, type });
+}
+
+/**
+ * Get list of available ETFs
  */
-export async function getForexPairs(): Promise<ForexPairsResponse> {
-  return fetchApi<ForexPairsResponse>("/forex_pairs", {});
+export async function getEtfs(
+  symbol?: string,
+  exchange?: string,
+  country?: string
+): Promise<ApiResult<EtfsResponse>> {
+  return fetchApi<EtfsResponse>("/etfs", { symbol, exchange, country });
 }
 
 /**
  * Get list of available commodities (metals, energy, etc.)
  */
-export async function getCommodities(): Promise<CommoditiesResponse> {
+export async function getCommodities(): Promise<ApiResult<CommoditiesResponse>> {
   return fetchApi<CommoditiesResponse>("/commodities", {});
 }
 
@@ -138,19 +612,29 @@ export async function getTechnicalIndicator(
   indicator: string,
   outputsize?: number,
   additionalParams?: Record<string, string | number>
-): Promise<TechnicalIndicatorResponse> {
-  return fetchApi<TechnicalIndicatorResponse>(`/${indicator}`, {
-    symbol,
-    interval,
-    outputsize,
-    ...additionalParams
-  });
+): Promise<ApiResult<TechnicalIndicatorResponse>> {
+  return fetchMarketData(
+    `/${indicator}`,
+    { symbol, interval, outputsize, ...additionalParams },
+    provider => provider.getTechnicalIndicator({ symbol, interval, indicator, outputsize, params: additionalParams })
+  );
 }
 
 // =============================================================================
 // Formatting Helpers
 // =============================================================================
 
+/**
+ * Format cache status as a markdown footer line
+ */
+export function formatCacheNote(cache: CacheInfo): string {
+  if (cache.store) return `*Source: local candle store (updated ${cache.age_seconds}s ago)*`;
+  if (cache.provider) return `*Source: ${cache.provider} provider${cache.fallback ? " (Twelve Data failover)" : ""}*`;
+  return cache.hit
+    ? `*Source: cache (${cache.age_seconds}s old, TTL ${cache.ttl_seconds}s)*`
+    : `*Source: Twelve Data API (live)*`;
+}
+
 /**
  * Format price as markdown
  */
@@ -158,6 +642,76 @@ export function formatPriceAsMarkdown(symbol: string, price: string): string {
   return `**${symbol}**: ${parseFloat(price).toFixed(5)}`;
 }
 
+/**
+ * Short cache status for a table cell
+ */
+function formatCacheSource(cache?: CacheInfo): string {
+  if (!cache) return "-";
+  if (cache.hit) return `cache (${cache.age_seconds}s)`;
+  return cache.provider ?? "live";
+}
+
+/**
+ * Format batch prices as a single comparison table
+ */
+export function formatPricesAsMarkdown(items: BatchItem<PriceResponse>[]): string {
+  const lines = [
+    `## Prices`,
+    ``,
+    `| Symbol | Price | Source |`,
+    `|--------|-------|--------|`
+  ];
+
+  items.forEach(item => {
+    if (item.data) {
+      lines.push(`| **${item.symbol}** | ${parseFloat(item.data.price).toFixed(5)} | ${formatCacheSource(item.cache)} |`);
+    } else {
+      lines.push(`| **${item.symbol}** | ⚠️ ${item.error?.message ?? "No data"} | - |`);
+    }
+  });
+
+  const failed = items.filter(item => item.error).length;
+  if (failed > 0) {
+    lines.push(``, `*${failed} of ${items.length} symbols failed*`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format batch quotes as a single comparison table
+ */
+export function formatQuotesAsMarkdown(items: BatchItem<QuoteResponse>[]): string {
+  const lines = [
+    `## Quotes`,
+    ``,
+    `| Symbol | Name | Price | Change | % Change | Open | High | Low | Prev Close | Market | Source |`,
+    `|--------|------|-------|--------|----------|------|------|-----|------------|--------|--------|`
+  ];
+
+  items.forEach(item => {
+    const quote = item.data;
+    if (!quote) {
+      lines.push(`| **${item.symbol}** | ⚠️ ${item.error?.message ?? "No data"} | | | | | | | | | - |`);
+      return;
+    }
+    const sign = parseFloat(quote.change) >= 0 ? "+" : "";
+    lines.push(
+      `| **${item.symbol}** | ${quote.name || "-"} | ${parseFloat(quote.close).toFixed(5)} | ` +
+      `${sign}${quote.change} | ${sign}${parseFloat(quote.percent_change).toFixed(2)}% | ` +
+      `${quote.open} | ${quote.high} | ${quote.low} | ${quote.previous_close} | ` +
+      `${quote.is_market_open ? "Open" : "Closed"} | ${formatCacheSource(item.cache)} |`
+    );
+  });
+
+  const failed = items.filter(item => item.error).length;
+  if (failed > 0) {
+    lines.push(``, `*${failed} of ${items.length} symbols failed*`);
+  }
+
+  return lines.join("\n");
+}
+
 /**
  * Format quote as markdown
  */
@@ -193,24 +747,28 @@ export function formatQuoteAsMarkdown(quote: QuoteResponse): string {
 }
 
 /**
- * Format time series as markdown
+ * Format time series as markdown. `data.values` holds the rows to show;
+ * `page` describes where they sit in the full result.
  */
-export function formatTimeSeriesAsMarkdown(data: TimeSeriesResponse): string {
+export function formatTimeSeriesAsMarkdown(
+  data: TimeSeriesResponse,
+  page?: PageInfo
+): string {
   const lines = [
     `## ${data.meta.symbol} Time Series`,
     ``,
     `**Interval:** ${data.meta.interval}`,
     `**Exchange:** ${data.meta.exchange}`,
     `**Timezone:** ${data.meta.exchange_timezone}`,
+    ...(data.meta.resampled
+      ? [`**Resampled:** ${data.meta.resampled.bars_per_candle} × ${data.meta.resampled.from_interval} bars per candle, aligned to ${data.meta.resampled.anchor}`]
+      : []),
     ``,
     `| Datetime | Open | High | Low | Close |${data.values[0]?.volume !== undefined ? " Volume |" : ""}`,
     `|----------|------|------|-----|-------|${data.values[0]?.volume !== undefined ? "--------|" : ""}`
   ];
 
-  // Limit to first 50 rows for readability
-  const displayValues = data.values.slice(0, 50);
-  
-  displayValues.forEach(v => {
+  data.values.forEach(v => {
     const row = `| ${v.datetime} | ${parseFloat(v.open).toFixed(5)} | ${parseFloat(v.high).toFixed(5)} | ${parseFloat(v.low).toFixed(5)} | ${parseFloat(v.close).toFixed(5)} |`;
     if (v.volume !== undefined) {
       lines.push(`${row} ${parseInt(v.volume).toLocaleString()} |`);
@@ -219,13 +777,74 @@ export function formatTimeSeriesAsMarkdown(data: TimeSeriesResponse): string {
     }
   });
 
-  if (data.values.length > 50) {
-    lines.push(``, `*...showing 50 of ${data.values.length} records*`);
+  if (page) {
+    lines.push(``, formatPageNote(page));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format a backfill summary: range covered, requests spent, and where to
+ * resume when it stopped early
+ */
+export function formatBackfillNote(info: BackfillInfo): string {
+  const range = info.first_datetime
+    ? `${info.first_datetime} → ${info.last_datetime}`
+    : "no bars in range";
+  const lines = [
+    `**Backfill:** ${info.bars.toLocaleString()} bars, ${range} (${info.requests} request${info.requests === 1 ? "" : "s"}, ${info.from_store.toLocaleString()} bars from the candle store, ${info.duplicates_removed} duplicate boundary bars removed)`
+  ];
+  if (!info.complete) {
+    lines.push(
+      `**Incomplete:** ${info.stopped_reason ?? "stopped early"}.` +
+      (info.resume_end_date ? ` Continue with end_date: "${info.resume_end_date}".` : "")
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Format candle store coverage as markdown
+ */
+export function formatCandleCoverageAsMarkdown(coverage: CandleCoverage[]): string {
+  if (coverage.length === 0) {
+    return `## Candle Store\n\nNo candles stored yet. Requests with start_date and backfills fill the store.`;
   }
 
+  const lines = [
+    `## Candle Store`,
+    ``,
+    `| Symbol | Interval | Bars | First | Last | Covered ranges | Updated |`,
+    `|--------|----------|------|-------|------|----------------|---------|`
+  ];
+  for (const series of coverage) {
+    const ranges = series.ranges.map(range => `${range.from} → ${range.to}`).join("<br>") || "-";
+    lines.push(
+      `| **${series.symbol}** | ${series.interval} | ${series.bars.toLocaleString()} | ${series.first_datetime ?? "-"} | ${series.last_datetime ?? "-"} | ${ranges} | ${series.updated_at} |`
+    );
+  }
+  lines.push(``, `*Times are exchange-local. Covered ranges are served from disk; only gaps cost credits.*`);
   return lines.join("\n");
 }
 
+/**
+ * Format rows as CSV with a header row. Columns follow the first row, with
+ * any extra keys from later rows appended.
+ */
+export function formatRowsAsCsv(rows: Record<string, unknown>[]): string {
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  const cell = (value: unknown) => {
+    if (value === undefined || value === null) return "";
+    const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [
+    columns.join(","),
+    ...rows.map(row => columns.map(column => cell(row[column])).join(","))
+  ].join("\n");
+}
+
 /**
  * Format conversion result as markdown
  */
@@ -250,7 +869,10 @@ export function formatConversionAsMarkdown(
 /**
  * Format commodities list as markdown
  */
-export function formatCommoditiesAsMarkdown(data: CommoditiesResponse): string {
+export function formatCommoditiesAsMarkdown(
+  commodities: CommodityInfo[],
+  page: PageInfo
+): string {
   const lines = [
     `## Available Commodities`,
     ``,
@@ -259,7 +881,7 @@ export function formatCommoditiesAsMarkdown(data: CommoditiesResponse): string {
   ];
 
   // Group by category
-  const byCategory = data.data.reduce((acc, item) => {
+  const byCategory = commodities.reduce((acc, item) => {
     if (!acc[item.category]) acc[item.category] = [];
     acc[item.category].push(item);
     return acc;
@@ -273,6 +895,166 @@ export function formatCommoditiesAsMarkdown(data: CommoditiesResponse): string {
       });
     });
 
+  lines.push(``, formatPageNote(page));
+  return lines.join("\n");
+}
+
+/**
+ * Format symbol search results as markdown
+ */
+export function formatSymbolSearchAsMarkdown(
+  query: string,
+  results: SymbolSearchResult[]
+): string {
+  const lines = [
+    `## Symbol Search: "${query}"`,
+    ``
+  ];
+
+  if (results.length === 0) {
+    lines.push("No matching symbols.");
+    return lines.join("\n");
+  }
+
+  lines.push(
+    `| Symbol | Name | Type | Exchange | Country | Currency |`,
+    `|--------|------|------|----------|---------|----------|`
+  );
+  results.forEach(r => {
+    lines.push(`| ${r.symbol} | ${r.instrument_name} | ${r.instrument_type} | ${r.exchange} | ${r.country || "-"} | ${r.currency} |`);
+  });
+
+  return lines.join("\n");
+}
+
+/**
+ * Format an ambiguous symbol resolution as markdown
+ */
+export function formatAmbiguousSymbolAsMarkdown(resolution: SymbolResolution): string {
+  return [
+    formatSymbolSearchAsMarkdown(resolution.input, resolution.candidates ?? []),
+    ``,
+    `*"${resolution.input}" matches several instruments. Call again with one of the symbols above.*`
+  ].join("\n");
+}
+
+/**
+ * Note shown when the requested symbol was rewritten, e.g. "gold" -> XAU/USD
+ */
+export function formatResolutionNote(resolution: SymbolResolution): string | undefined {
+  if (!resolution.symbol || resolution.symbol === resolution.input) return undefined;
+  return `*Resolved "${resolution.input}" to ${resolution.symbol}*`;
+}
+
+/**
+ * Note describing where an indicator was computed
+ */
+export function formatIndicatorSourceNote(
+  source: "api" | "local",
+  fallbackReason?: string
+): string {
+  if (source === "api") return `*Computed by Twelve Data*`;
+  return fallbackReason
+    ? `*Computed locally from time series candles (API unavailable on this plan: ${fallbackReason})*`
+    : `*Computed locally from time series candles*`;
+}
+
+/**
+ * Format pagination status as a markdown footer line
+ */
+export function formatPageNote(page: PageInfo): string {
+  if (page.total === 0) return `*No results*`;
+  const range = page.count === 0
+    ? `none of ${page.total}`
+    : `${page.offset + 1}-${page.offset + page.count} of ${page.total}`;
+  const next = !page.has_more
+    ? ""
+    : page.cursor
+      ? ` Use cursor: "${page.cursor}" with offset: ${page.next_offset} for more (no new API call).`
+      : ` Use offset: ${page.next_offset} for more.`;
+  const truncated = page.truncated ? " (page shortened to fit the response size limit)" : "";
+  return `*Showing ${range}${truncated}.${next}*`;
+}
+
+/**
+ * Format forex pairs list as markdown
+ */
+export function formatForexPairsAsMarkdown(pairs: ForexPair[], page: PageInfo): string {
+  const lines = [
+    `## Forex Pairs`,
+    ``,
+    `| Symbol | Base | Quote | Group |`,
+    `|--------|------|-------|-------|`
+  ];
+
+  pairs.forEach(pair => {
+    lines.push(`| ${pair.symbol} | ${pair.currency_base} | ${pair.currency_quote} | ${pair.currency_group} |`);
+  });
+
+  lines.push(``, formatPageNote(page));
+  return lines.join("\n");
+}
+
+/**
+ * Format cryptocurrency pairs list as markdown
+ */
+export function formatCryptocurrenciesAsMarkdown(
+  pairs: CryptocurrencyInfo[],
+  page: PageInfo
+): string {
+  const lines = [
+    `## Cryptocurrencies`,
+    ``,
+    `| Symbol | Base | Quote | Exchanges |`,
+    `|--------|------|-------|-----------|`
+  ];
+
+  pairs.forEach(pair => {
+    const exchanges = pair.available_exchanges ?? [];
+    const shown = exchanges.slice(0, 5).join(", ");
+    const more = exchanges.length > 5 ? ` +${exchanges.length - 5} more` : "";
+    lines.push(`| ${pair.symbol} | ${pair.currency_base} | ${pair.currency_quote} | ${shown}${more} |`);
+  });
+
+  lines.push(``, formatPageNote(page));
+  return lines.join("\n");
+}
+
+/**
+ * Format stocks list as markdown
+ */
+export function formatStocksAsMarkdown(stocks: StockInfo[], page: PageInfo): string {
+  const lines = [
+    `## Stocks`,
+    ``,
+    `| Symbol | Name | Exchange | Country | Currency | Type |`,
+    `|--------|------|----------|---------|----------|------|`
+  ];
+
+  stocks.forEach(stock => {
+    lines.push(`| ${stock.symbol} | ${stock.name} | ${stock.exchange} | ${stock.country} | ${stock.currency} | ${stock.type} |`);
+  });
+
+  lines.push(``, formatPageNote(page));
+  return lines.join("\n");
+}
+
+/**
+ * Format ETFs list as markdown
+ */
+export function formatEtfsAsMarkdown(etfs: EtfInfo[], page: PageInfo): string {
+  const lines = [
+    `## ETFs`,
+    ``,
+    `| Symbol | Name | Exchange | Country | Currency |`,
+    `|--------|------|----------|---------|----------|`
+  ];
+
+  etfs.forEach(etf => {
+    lines.push(`| ${etf.symbol} | ${etf.name} | ${etf.exchange} | ${etf.country} | ${etf.currency} |`);
+  });
+
+  lines.push(``, formatPageNote(page));
   return lines.join("\n");
 }
 
@@ -281,15 +1063,22 @@ export function formatCommoditiesAsMarkdown(data: CommoditiesResponse): string {
  */
 export function formatIndicatorAsMarkdown(
   data: TechnicalIndicatorResponse,
-  indicatorName: string
+  indicatorName: string,
+  page?: PageInfo,
+  params?: Record<string, string | number | undefined>
 ): string {
   const lines = [
     `## ${indicatorName.toUpperCase()} - ${data.meta.symbol}`,
     ``,
-    `**Interval:** ${data.meta.interval}`,
-    ``
+    `**Interval:** ${data.meta.interval}`
   ];
 
+  const used = Object.entries(params ?? {}).filter(([, value]) => value !== undefined);
+  if (used.length > 0) {
+    lines.push(`**Parameters:** ${used.map(([key, value]) => `${key}=${value}`).join(", ")}`);
+  }
+  lines.push(``);
+
   if (data.values.length === 0) {
     lines.push("No data available.");
     return lines.join("\n");
@@ -300,9 +1089,7 @@ export function formatIndicatorAsMarkdown(
   lines.push(`| ${columns.join(" | ")} |`);
   lines.push(`|${columns.map(() => "------").join("|")}|`);
 
-  // Limit to first 30 rows
-  const displayValues = data.values.slice(0, 30);
-  displayValues.forEach(v => {
+  data.values.forEach(v => {
     const row = columns.map(col => {
       const val = v[col];
       if (col === "datetime") return val;
@@ -312,9 +1099,352 @@ export function formatIndicatorAsMarkdown(
     lines.push(`| ${row.join(" | ")} |`);
   });
 
-  if (data.values.length > 30) {
-    lines.push(``, `*...showing 30 of ${data.values.length} records*`);
+  if (page) {
+    lines.push(``, formatPageNote(page));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format API credit usage as markdown
+ */
+export function formatUsageAsMarkdown(usage: CreditUsage): string {
+  const lines = [
+    `## API Credit Usage`,
+    ``,
+    `| Budget | Limit | Used | Remaining |`,
+    `|--------|-------|------|-----------|`,
+    `| **Per minute** | ${usage.minute.limit} | ${usage.minute.used} | ${usage.minute.available} |`,
+    `| **Per day** | ${usage.day.limit} | ${usage.day.used} | ${usage.day.remaining} |`,
+    ``,
+    `**Budget:** ${usage.budget}`,
+    `**Mode:** ${usage.mode === "queue" ? "queue (calls wait for credits)" : "reject (calls fail when over budget)"}`,
+    `**Daily reset:** ${usage.day.resets_at}`
+  ];
+
+  if (usage.upstream) {
+    lines.push(
+      `**Last reported by Twelve Data:** ${usage.upstream.credits_used ?? "?"} used, ` +
+      `${usage.upstream.credits_left ?? "?"} left this minute (${usage.upstream.observed_at})`
+    );
+  }
+
+  const endpoints = Object.entries(usage.by_endpoint);
+  if (endpoints.length > 0) {
+    lines.push(``, `| Endpoint | Credits Today |`, `|----------|---------------|`);
+    endpoints
+      .sort(([, a], [, b]) => b - a)
+      .forEach(([endpoint, credits]) => lines.push(`| /${endpoint} | ${credits} |`));
   }
 
   return lines.join("\n");
 }
+
+/**
+ * Format streamed prices and the connection state as markdown
+ */
+export function formatLivePricesAsMarkdown(prices: LivePrice[], status: StreamStatus): string {
+  const lines = [
+    `## Live Prices`,
+    ``,
+    `**Stream:** ${status.state} (${status.symbols.length} symbol${status.symbols.length === 1 ? "" : "s"}, ${status.reconnects} reconnect${status.reconnects === 1 ? "" : "s"})`
+  ];
+
+  if (status.failed.length > 0) {
+    lines.push(`**Rejected by Twelve Data:** ${status.failed.join(", ")}`);
+  }
+  if (status.last_error && status.state !== "open") {
+    lines.push(`**Last error:** ${status.last_error}`);
+  }
+
+  if (prices.length > 0) {
+    lines.push(``, `| Symbol | Price | Time | Exchange |`, `|--------|-------|------|----------|`);
+    for (const price of prices) {
+      lines.push(`| **${price.symbol}** | ${price.price} | ${price.timestamp} | ${price.exchange ?? "-"} |`);
+    }
+  }
+
+  const waiting = status.symbols.filter(symbol => !prices.some(price => price.symbol === symbol));
+  if (waiting.length > 0) {
+    lines.push(``, `*Waiting for first tick: ${waiting.join(", ")}*`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format series analytics as markdown
+ */
+export function formatAnalyticsAsMarkdown(stats: SeriesAnalytics): string {
+  const num = (value: number) => value.toFixed(5);
+  const pct = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+
+  const lines = [
+    `## ${stats.symbol} Series Analysis (${stats.interval})`,
+    ``,
+    `**Period:** ${stats.start} → ${stats.end} (${stats.bars} bars)`,
+    ``,
+    `| Metric | Value |`,
+    `|--------|-------|`,
+    `| **Return** | ${pct(stats.period_return_pct)} (${num(stats.first_close)} → ${num(stats.last_close)}) |`,
+    `| **Volatility (annualized)** | ${stats.volatility.annualized_pct.toFixed(2)}% (${stats.volatility.per_bar_pct.toFixed(3)}% per bar, ${Math.round(stats.volatility.periods_per_year)} bars/yr) |`,
+    `| **Max Drawdown** | ${pct(stats.max_drawdown.pct)} (${num(stats.max_drawdown.peak.value)} on ${stats.max_drawdown.peak.datetime} → ${num(stats.max_drawdown.trough.value)} on ${stats.max_drawdown.trough.datetime}) |`,
+    stats.atr
+      ? `| **ATR(${stats.atr.period})** | ${num(stats.atr.value)} (${stats.atr.pct_of_close.toFixed(2)}% of close) |`
+      : `| **ATR** | Not enough bars |`,
+    `| **Highest High** | ${num(stats.highest.value)} on ${stats.highest.datetime} |`,
+    `| **Lowest Low** | ${num(stats.lowest.value)} on ${stats.lowest.datetime} |`,
+    `| **Gaps** | ${stats.gaps.up} up, ${stats.gaps.down} down (largest ${stats.gaps.largest_pct.toFixed(2)}%) |`
+  ];
+
+  return lines.join("\n");
+}
+
+/**
+ * Format a technical snapshot as one compact table
+ */
+export function formatSnapshotAsMarkdown(snapshot: TechnicalSnapshot): string {
+  const values = (row?: Record<string, number>) => row
+    ? Object.entries(row)
+      .map(([key, value]) => Object.keys(row).length > 1 ? `${key} ${value.toFixed(5)}` : value.toFixed(5))
+      .join(", ")
+    : "-";
+  const change = snapshot.previous_close !== null
+    ? ` (previous ${snapshot.previous_close.toFixed(5)})`
+    : "";
+
+  const lines = [
+    `## ${snapshot.symbol} Technical Snapshot (${snapshot.interval})`,
+    ``,
+    `**Close:** ${snapshot.close.toFixed(5)} at ${snapshot.datetime}${change}`,
+    ``,
+    `| Indicator | Latest | Previous | Signal |`,
+    `|-----------|--------|----------|--------|`
+  ];
+
+  const rows = [...snapshot.indicators, ...snapshot.trend];
+  for (const row of rows) {
+    const name = row.source === "local" ? `${row.name} †` : row.name;
+    if (row.error) {
+      lines.push(`| ${name} | - | - | Error: ${row.error.message} |`);
+    } else {
+      lines.push(`| ${name} | ${values(row.latest)} | ${values(row.previous)} | ${row.signal ?? "-"} |`);
+    }
+  }
+
+  if (rows.some(row => row.source === "local")) {
+    lines.push(``, `*† computed locally from time series candles*`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Describe an alert condition in one line, e.g. "price crosses above 2400"
+ */
+export function formatAlertCondition(condition: AlertCondition): string {
+  switch (condition.type) {
+    case "price_above":
+      return `price crosses above ${condition.price}`;
+    case "price_below":
+      return `price crosses below ${condition.price}`;
+    case "percent_change": {
+      const sign = condition.direction === "up" ? "+" : condition.direction === "down" ? "-" : "±";
+      return `move ${sign}${condition.percent}% within ${condition.window_minutes} min`;
+    }
+    case "rsi_above":
+      return `RSI(${condition.time_period}, ${condition.interval}) ≥ ${condition.value}`;
+    case "rsi_below":
+      return `RSI(${condition.time_period}, ${condition.interval}) ≤ ${condition.value}`;
+  }
+}
+
+/**
+ * Format stored alerts as markdown
+ */
+export function formatAlertsAsMarkdown(alerts: PriceAlert[], status: AlertPollerStatus): string {
+  const lines = [
+    `## Price Alerts`,
+    ``,
+    `**Polling:** every ${status.interval_seconds}s` +
+      (status.last_poll_at ? `, last at ${status.last_poll_at}` : "") +
+      (status.webhook ? " (webhook enabled)" : "")
+  ];
+  if (status.last_skip_reason) {
+    lines.push(`**Note:** ${status.last_skip_reason}`);
+  }
+
+  if (alerts.length === 0) {
+    lines.push(``, `No alerts.`);
+    return lines.join("\n");
+  }
+
+  lines.push(
+    ``,
+    `| ID | Symbol | Condition | Status | Last Value | Note |`,
+    `|----|--------|-----------|--------|------------|------|`
+  );
+  for (const alert of alerts) {
+    const state = alert.status === "triggered"
+      ? `🔔 triggered ${alert.triggered_at}`
+      : alert.last_error ? `active (error: ${alert.last_error})` : "active";
+    lines.push(
+      `| ${alert.id} | ${alert.symbol} | ${formatAlertCondition(alert.condition)} | ${state} | ` +
+      `${alert.last_value ?? "-"} | ${alert.note ?? ""} |`
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format saved watchlists as markdown
+ */
+export function formatWatchlistsAsMarkdown(watchlists: Watchlist[]): string {
+  if (watchlists.length === 0) {
+    return `## Watchlists\n\nNo watchlists saved.`;
+  }
+
+  const lines = [
+    `## Watchlists`,
+    ``,
+    `| Name | Symbols | Count | Updated |`,
+    `|------|---------|-------|---------|`
+  ];
+  for (const watchlist of watchlists) {
+    lines.push(
+      `| **${watchlist.name}** | ${watchlist.symbols.join(", ") || "-"} | ${watchlist.symbols.length} | ${watchlist.updated_at} |`
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Format a watchlist's quotes as one compact table
+ */
+export function formatWatchlistQuotesAsMarkdown(name: string, items: BatchItem<QuoteResponse>[]): string {
+  const lines = [
+    `## Watchlist: ${name}`,
+    ``,
+    `| Symbol | Price | Change | % Change | Day Range | Market |`,
+    `|--------|-------|--------|----------|-----------|--------|`
+  ];
+
+  items.forEach(item => {
+    const quote = item.data;
+    if (!quote) {
+      lines.push(`| **${item.symbol}** | ⚠️ ${item.error?.message ?? "No data"} | | | | |`);
+      return;
+    }
+    const sign = parseFloat(quote.change) >= 0 ? "+" : "";
+    lines.push(
+      `| **${item.symbol}** | ${parseFloat(quote.close).toFixed(5)} | ${sign}${quote.change} | ` +
+      `${sign}${parseFloat(quote.percent_change).toFixed(2)}% | ${quote.low} - ${quote.high} | ` +
+      `${quote.is_market_open ? "Open" : "Closed"} |`
+    );
+  });
+
+  const failed = items.filter(item => item.error).length;
+  if (failed > 0) {
+    lines.push(``, `*${failed} of ${items.length} symbols failed*`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Format a portfolio valuation as markdown
+ */
+export function formatPortfolioAsMarkdown(valuation: PortfolioValuation): string {
+  const money = (value?: number) => value === undefined
+    ? "-"
+    : value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const signed = (value?: number) => value === undefined ? "-" : `${value >= 0 ? "+" : ""}${money(value)}`;
+  const pct = (value?: number | null) => value === undefined || value === null
+    ? "-"
+    : `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+  const { totals } = valuation;
+
+  const lines = [
+    `## Portfolio Valuation (${valuation.currency})`,
+    ``,
+    `| Position | Quantity | Price | Market Value | Cost Basis | Unrealized P&L | P&L % | Weight |`,
+    `|----------|----------|-------|--------------|------------|----------------|-------|--------|`
+  ];
+
+  for (const position of valuation.positions) {
+    const label = position.symbol ?? position.input;
+    if (position.error) {
+      lines.push(`| **${label}** | ${position.quantity} | ⚠️ ${position.error.message} | | | | | |`);
+      continue;
+    }
+    // Currency holdings show their exchange rate instead of a unit price of 1
+    const price = position.price_currency === position.symbol
+      ? `${position.price_currency}/${valuation.currency} ${position.fx_rate}`
+      : `${position.price} ${position.price_currency}`;
+    lines.push(
+      `| **${label}** | ${position.quantity} | ${price} | ` +
+      `${money(position.market_value)} | ${money(position.cost_basis)} | ${signed(position.unrealized_pnl)} | ` +
+      `${pct(position.pnl_pct)} | ${position.weight_pct?.toFixed(2)}% |`
+    );
+  }
+
+  lines.push(
+    `| **Total** | | | **${money(totals.market_value)}** | ${totals.cost_basis > 0 ? money(totals.cost_basis) : "-"} | ` +
+    `${totals.cost_basis > 0 ? signed(totals.unrealized_pnl) : "-"} | ${pct(totals.pnl_pct)} | 100.00% |`
+  );
+
+  const rates = Object.entries(valuation.fx_rates);
+  if (rates.length > 0) {
+    lines.push(``, `**FX rates:** ${rates.map(([pair, rate]) => `${pair} ${rate}`).join(", ")}`);
+  }
+  if (totals.failed > 0) {
+    lines.push(``, `*${totals.failed} of ${valuation.positions.length} positions could not be valued and are left out of the totals*`);
+  }
+  lines.push(``, `*Cost bases are converted at current exchange rates.*`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Format correlation matrices as markdown
+ */
+export function formatCorrelationAsMarkdown(result: CorrelationMatrix): string {
+  const cell = (value: number | null) => (value === null ? "n/a" : value.toFixed(2));
+  const matrix = (title: string, values: (number | null)[][]) => [
+    `### ${title}`,
+    ``,
+    `| | ${result.symbols.join(" | ")} |`,
+    `|---|${result.symbols.map(() => "---").join("|")}|`,
+    ...values.map((row, i) => `| **${result.symbols[i]}** | ${row.map(cell).join(" | ")} |`),
+    ``
+  ];
+
+  const lines = [
+    `## Correlation of ${result.interval} Returns`,
+    ``,
+    `**Period:** ${result.start} → ${result.end} (${result.observations} returns on bars shared by all symbols)`,
+    `**Bars fetched:** ${Object.entries(result.bars).map(([symbol, bars]) => `${symbol} ${bars}`).join(", ")}`,
+    ``
+  ];
+  if (result.pearson) lines.push(...matrix("Pearson", result.pearson));
+  if (result.spearman) lines.push(...matrix("Spearman (rank)", result.spearman));
+
+  if (result.rolling) {
+    lines.push(
+      `### Rolling Pearson (${result.rolling.window} returns)`,
+      ``,
+      `| Pair | Latest | Min | Max | Mean |`,
+      `|------|--------|-----|-----|------|`,
+      ...result.rolling.pairs.map(pair =>
+        `| ${pair.symbols.join(" / ")} | ${cell(pair.latest)} | ${cell(pair.min)} | ${cell(pair.max)} | ${cell(pair.mean)} |`
+      ),
+      ``
+    );
+  }
+
+  if (result.failed && result.failed.length > 0) {
+    lines.push(`*Left out: ${result.failed.map(item => `${item.symbol} (${item.error.message})`).join(", ")}*`);
+  }
+
+  return lines.join("\n").trimEnd();
+}
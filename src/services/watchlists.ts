@@ -0,0 +1,140 @@
+import path from "node:path";
+import {
+  POPULAR_SYMBOLS,
+  MAX_WATCHLISTS,
+  MAX_WATCHLIST_SYMBOLS,
+  DEFAULT_WATCHLIST_NAME
+} from "../constants.js";
+import type { BatchItem, QuoteResponse, Watchlist } from "../types.js";
+import { getClientScope } from "./clients.js";
+import { BadRequestError } from "./errors.js";
+import { getDataDir, readJsonFile, scopedPath, writeJsonFile } from "./store.js";
+
+export type WatchlistUpdateMode = "replace" | "add" | "remove";
+
+// Watchlists per client scope, loaded from disk on first use
+const watchlistsByClient = new Map<string | undefined, Watchlist[]>();
+
+/**
+ * File of the current client's watchlists; each HTTP client has its own
+ */
+function getWatchlistsFile(): string {
+  const file = process.env.TWELVEDATA_WATCHLISTS_FILE || path.join(getDataDir(), "watchlists.json");
+  return scopedPath(file, getClientScope());
+}
+
+/**
+ * Load the current client's watchlists. Without a file, start with one
+ * list of the popular symbols.
+ */
+async function loadWatchlists(): Promise<Watchlist[]> {
+  const client = getClientScope();
+  let watchlists = watchlistsByClient.get(client);
+  if (!watchlists) {
+    const now = new Date().toISOString();
+    const seed: Watchlist = {
+      name: DEFAULT_WATCHLIST_NAME,
+      symbols: Object.keys(POPULAR_SYMBOLS),
+      created_at: now,
+      updated_at: now
+    };
+    const stored = await readJsonFile<{ watchlists?: Watchlist[] }>(getWatchlistsFile(), { watchlists: [seed] });
+    watchlists = stored.watchlists ?? [];
+    watchlistsByClient.set(client, watchlists);
+  }
+  return watchlists;
+}
+
+async function saveWatchlists(): Promise<void> {
+  await writeJsonFile(getWatchlistsFile(), { watchlists: watchlistsByClient.get(getClientScope()) ?? [] });
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase();
+}
+
+export async function listWatchlists(): Promise<Watchlist[]> {
+  return [...await loadWatchlists()];
+}
+
+export async function getWatchlist(name: string): Promise<Watchlist> {
+  const key = normalizeName(name);
+  const watchlist = (await loadWatchlists()).find(w => w.name === key);
+  if (!watchlist) {
+    throw new BadRequestError(`No watchlist named "${name}". Use twelvedata_list_watchlists to see saved lists.`);
+  }
+  return watchlist;
+}
+
+/**
+ * Create or update a watchlist. 'replace' creates the list when missing;
+ * 'add' and 'remove' need an existing list.
+ */
+export async function saveWatchlist(
+  name: string,
+  symbols: string[],
+  mode: WatchlistUpdateMode
+): Promise<Watchlist> {
+  const list = await loadWatchlists();
+  const key = normalizeName(name);
+  const now = new Date().toISOString();
+  let watchlist = list.find(w => w.name === key);
+
+  if (!watchlist) {
+    if (mode !== "replace") {
+      throw new BadRequestError(`No watchlist named "${name}". Create it with mode 'replace' first.`);
+    }
+    if (list.length >= MAX_WATCHLISTS) {
+      throw new BadRequestError(`At most ${MAX_WATCHLISTS} watchlists can be stored. Delete some first.`);
+    }
+    watchlist = { name: key, symbols: [], created_at: now, updated_at: now };
+    list.push(watchlist);
+  }
+
+  const next = mode === "replace"
+    ? [...new Set(symbols)]
+    : mode === "add"
+      ? [...new Set([...watchlist.symbols, ...symbols])]
+      : watchlist.symbols.filter(symbol => !symbols.includes(symbol));
+  if (next.length > MAX_WATCHLIST_SYMBOLS) {
+    throw new BadRequestError(`A watchlist holds at most ${MAX_WATCHLIST_SYMBOLS} symbols (this update would make ${next.length}).`);
+  }
+
+  watchlist.symbols = next;
+  watchlist.updated_at = now;
+  await saveWatchlists();
+  return watchlist;
+}
+
+/**
+ * Delete a watchlist by name, returning the removed list
+ */
+export async function deleteWatchlist(name: string): Promise<Watchlist> {
+  const list = await loadWatchlists();
+  const index = list.findIndex(w => w.name === normalizeName(name));
+  if (index < 0) {
+    throw new BadRequestError(`No watchlist named "${name}". Use twelvedata_list_watchlists to see saved lists.`);
+  }
+  const [removed] = list.splice(index, 1);
+  await saveWatchlists();
+  return removed;
+}
+
+/**
+ * Order quote rows; rows without a quote stay at the end
+ */
+export function sortQuoteItems(
+  items: BatchItem<QuoteResponse>[],
+  sort: "none" | "percent_change_desc" | "percent_change_asc" | "symbol"
+): BatchItem<QuoteResponse>[] {
+  if (sort === "none") return items;
+  const withData = items.filter(item => item.data);
+  const failed = items.filter(item => !item.data);
+  const change = (item: BatchItem<QuoteResponse>) => parseFloat(item.data?.percent_change ?? "") || 0;
+
+  withData.sort((a, b) => {
+    if (sort === "symbol") return a.symbol.localeCompare(b.symbol);
+    return sort === "percent_change_desc" ? change(b) - change(a) : change(a) - change(b);
+  });
+  return [...withData, ...failed];
+}
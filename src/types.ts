@@ -1,3 +1,6 @@
+import type { ToolErrorPayload } from "./services/errors.js";
+import type { AlertCondition } from "./schemas/twelvedata.js";
+
 // Twelve Data API Response Types
 // Adding index signature for MCP SDK structuredContent compatibility
 
@@ -45,6 +48,37 @@ export interface TimeSeriesMeta {
   exchange: string;
   mic_code?: string;
   type: string;
+  resampled?: ResampleInfo;
+}
+
+// How a long date range was fetched in chunks
+export interface BackfillInfo {
+  [key: string]: unknown;
+  start_date: string;
+  end_date?: string;
+  timezone?: string;
+  requests: number;
+  bars: number;
+  from_store: number;
+  duplicates_removed: number;
+  complete: boolean;
+  first_datetime?: string;
+  last_datetime?: string;
+  stopped_reason?: string;
+  resume_end_date?: string;
+}
+
+export interface BackfillResponse extends TimeSeriesResponse {
+  backfill: BackfillInfo;
+}
+
+// How a custom-interval series was built from a native Twelve Data interval
+export interface ResampleInfo {
+  [key: string]: unknown;
+  from_interval: string;
+  bars_per_candle: number;
+  source_bars: number;
+  anchor: string;
 }
 
 export interface TimeSeriesValue {
@@ -93,6 +127,71 @@ export interface ForexPairsResponse {
   status: string;
 }
 
+export interface CryptocurrencyInfo {
+  [key: string]: unknown;
+  symbol: string;
+  available_exchanges: string[];
+  currency_base: string;
+  currency_quote: string;
+}
+
+export interface CryptocurrenciesResponse {
+  [key: string]: unknown;
+  data: CryptocurrencyInfo[];
+  status: string;
+}
+
+export interface StockInfo {
+  [key: string]: unknown;
+  symbol: string;
+  name: string;
+  currency: string;
+  exchange: string;
+  mic_code: string;
+  country: string;
+  type: string;
+}
+
+export interface StocksResponse {
+  [key: string]: unknown;
+  data: StockInfo[];
+  status: string;
+}
+
+export interface EtfInfo {
+  [key: string]: unknown;
+  symbol: string;
+  name: string;
+  currency: string;
+  exchange: string;
+  mic_code: string;
+  country: string;
+}
+
+export interface EtfsResponse {
+  [key: string]: unknown;
+  data: EtfInfo[];
+  status: string;
+}
+
+export interface SymbolSearchResult {
+  [key: string]: unknown;
+  symbol: string;
+  instrument_name: string;
+  exchange: string;
+  mic_code: string;
+  exchange_timezone: string;
+  instrument_type: string;
+  country: string;
+  currency: string;
+}
+
+export interface SymbolSearchResponse {
+  [key: string]: unknown;
+  data: SymbolSearchResult[];
+  status: string;
+}
+
 export interface CommodityInfo {
   [key: string]: unknown;
   symbol: string;
@@ -120,6 +219,126 @@ export interface ApiError {
   status: string;
 }
 
+// Cache status reported alongside every API result
+export interface CacheInfo {
+  [key: string]: unknown;
+  hit: boolean;
+  age_seconds: number;
+  ttl_seconds: number;
+  // Served entirely from the on-disk candle store
+  store?: boolean;
+  // Served by a provider other than Twelve Data (see providers.ts)
+  provider?: string;
+  // ... because the primary provider failed with a failover error
+  fallback?: boolean;
+}
+
+// Service result: response data plus where it came from
+export interface ApiResult<T> {
+  data: T;
+  cache: CacheInfo;
+}
+
+// One symbol's result within a batch (/price or /quote with several symbols)
+export interface BatchItem<T> {
+  [key: string]: unknown;
+  symbol: string;
+  data?: T;
+  error?: ToolErrorPayload;
+  cache?: CacheInfo;
+}
+
+// How user input was mapped to an API symbol. `symbol` is unset when the
+// input is ambiguous; `candidates` then lists the possible matches.
+export interface SymbolResolution {
+  [key: string]: unknown;
+  input: string;
+  symbol?: string;
+  method: "exact" | "name" | "alias" | "pair" | "search" | "ambiguous";
+  candidates?: SymbolSearchResult[];
+}
+
+// A notable candle referenced by analytics
+export interface CandlePoint {
+  [key: string]: unknown;
+  datetime: string;
+  value: number;
+}
+
+// Summary statistics computed locally from a time series
+export interface SeriesAnalytics {
+  [key: string]: unknown;
+  symbol: string;
+  interval: string;
+  bars: number;
+  start: string;
+  end: string;
+  first_close: number;
+  last_close: number;
+  change: number;
+  period_return_pct: number;
+  volatility: {
+    per_bar_pct: number;
+    annualized_pct: number;
+    periods_per_year: number;
+  };
+  max_drawdown: {
+    pct: number;
+    peak: CandlePoint;
+    trough: CandlePoint;
+  };
+  atr: {
+    period: number;
+    value: number;
+    pct_of_close: number;
+  } | null;
+  highest: CandlePoint;
+  lowest: CandlePoint;
+  gaps: {
+    up: number;
+    down: number;
+    largest_pct: number;
+  };
+}
+
+// Latest and previous value of one indicator in a technical snapshot
+export interface SnapshotRow {
+  [key: string]: unknown;
+  name: string;
+  indicator: string;
+  source?: "api" | "local";
+  datetime?: string;
+  latest?: Record<string, number>;
+  previous?: Record<string, number>;
+  signal?: string;
+  fallback_reason?: string;
+  error?: ToolErrorPayload;
+}
+
+// Latest indicator values and derived signals for one symbol
+export interface TechnicalSnapshot {
+  [key: string]: unknown;
+  symbol: string;
+  interval: string;
+  datetime: string;
+  close: number;
+  previous_close: number | null;
+  indicators: SnapshotRow[];
+  trend: SnapshotRow[];
+}
+
+// Position of a page within a larger result set
+export interface PageInfo {
+  [key: string]: unknown;
+  total: number;
+  offset: number;
+  count: number;
+  has_more: boolean;
+  next_offset?: number;
+  cursor?: string;
+  truncated: boolean;
+}
+
 // Check if response is an error
 export function isApiError(response: unknown): response is ApiError {
   return (
@@ -129,3 +348,200 @@ export function isApiError(response: unknown): response is ApiError {
     (response as ApiError).status === "error"
   );
 }
+
+// Client-side API credit budget snapshot
+export interface CreditUsage {
+  [key: string]: unknown;
+  // "default", or "client:<name>" for an HTTP client with its own budget
+  budget: string;
+  mode: "queue" | "reject";
+  minute: {
+    limit: number;
+    available: number;
+    used: number;
+  };
+  day: {
+    limit: number;
+    used: number;
+    remaining: number;
+    resets_at: string;
+  };
+  upstream?: {
+    credits_used?: number;
+    credits_left?: number;
+    observed_at: string;
+  };
+  by_endpoint: Record<string, number>;
+}
+
+// Last streamed price for a subscribed symbol
+export interface LivePrice {
+  [key: string]: unknown;
+  symbol: string;
+  price: number;
+  timestamp: string;
+  exchange?: string;
+  currency?: string;
+  day_volume?: number;
+  received_at: string;
+}
+
+// Streaming connection state and subscriptions
+export interface StreamStatus {
+  [key: string]: unknown;
+  url: string;
+  state: "idle" | "connecting" | "open" | "reconnecting";
+  symbols: string[];
+  failed: string[];
+  reconnects: number;
+  last_message_at?: string;
+  last_error?: string;
+}
+
+// A stored price alert and its latest evaluation
+export interface PriceAlert {
+  [key: string]: unknown;
+  id: string;
+  symbol: string;
+  condition: AlertCondition;
+  note?: string;
+  // HTTP client that created the alert; unset for stdio and open servers
+  client?: string;
+  status: "active" | "triggered";
+  created_at: string;
+  last_checked_at?: string;
+  last_value?: number;
+  last_error?: string;
+  triggered_at?: string;
+  triggered_value?: number;
+  message?: string;
+}
+
+// Background alert poller state
+export interface AlertPollerStatus {
+  [key: string]: unknown;
+  interval_seconds: number;
+  last_poll_at?: string;
+  last_skip_reason?: string;
+  webhook: boolean;
+}
+
+// A named, stored list of symbols
+export interface Watchlist {
+  [key: string]: unknown;
+  name: string;
+  symbols: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+// One holding valued in the reporting currency
+export interface PositionValuation {
+  [key: string]: unknown;
+  input: string;
+  symbol?: string;
+  quantity: number;
+  price?: number;
+  price_currency?: string;
+  fx_rate?: number;
+  market_value?: number;
+  cost_basis?: number;
+  unrealized_pnl?: number;
+  pnl_pct?: number;
+  weight_pct?: number;
+  error?: ToolErrorPayload;
+}
+
+// Portfolio valuation with totals, in one reporting currency
+export interface PortfolioValuation {
+  [key: string]: unknown;
+  currency: string;
+  positions: PositionValuation[];
+  totals: {
+    market_value: number;
+    cost_basis: number;
+    unrealized_pnl: number;
+    pnl_pct: number | null;
+    valued: number;
+    failed: number;
+  };
+  fx_rates: Record<string, number>;
+}
+
+// Rolling correlation summary for one pair of symbols
+export interface RollingCorrelation {
+  [key: string]: unknown;
+  symbols: [string, string];
+  latest: number | null;
+  min: number | null;
+  max: number | null;
+  mean: number | null;
+}
+
+// Correlation of returns across symbols on a shared set of bars
+export interface CorrelationMatrix {
+  [key: string]: unknown;
+  symbols: string[];
+  interval: string;
+  observations: number;
+  start: string;
+  end: string;
+  bars: Record<string, number>;
+  pearson?: (number | null)[][];
+  spearman?: (number | null)[][];
+  rolling?: {
+    window: number;
+    pairs: RollingCorrelation[];
+  };
+  failed?: { symbol: string; error: ToolErrorPayload }[];
+}
+
+// A dataset written to the export directory
+export interface ExportFile {
+  [key: string]: unknown;
+  name: string;
+  format: "csv" | "json";
+  mime_type: string;
+  rows: number;
+  columns: string[];
+  bytes: number;
+  created_at: string;
+}
+
+// A span of bars the candle store has fetched in full (exchange-local, inclusive)
+export interface CoveredRange {
+  [key: string]: unknown;
+  from: string;
+  to: string;
+}
+
+// What the candle store holds for one symbol and interval
+export interface CandleCoverage {
+  [key: string]: unknown;
+  symbol: string;
+  interval: string;
+  exchange_timezone?: string;
+  bars: number;
+  first_datetime?: string;
+  last_datetime?: string;
+  ranges: CoveredRange[];
+  updated_at: string;
+}
+
+// Outcome of one readiness check
+export interface ReadinessCheck {
+  ok: boolean;
+  message?: string;
+  latency_ms?: number;
+  checked_at?: string;
+}
+
+// Readiness report served by /health?ready
+export interface ReadinessReport {
+  [key: string]: unknown;
+  status: "ready" | "not_ready";
+  checks: {
+    api_key: ReadinessCheck;
+    upstream: ReadinessCheck;
+  };
+}
@@ -0,0 +1,216 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  createAlert,
+  deleteAlert,
+  getAlertPollerStatus,
+  listAlerts,
+  pollAlerts
+} from "../src/services/alerts.js";
+import { getHttpClients, runAsClient, type HttpClient } from "../src/services/clients.js";
+import { resetRateLimiter } from "../src/services/rateLimiter.js";
+import type { PriceAlert } from "../src/types.js";
+
+/**
+ * The poller against a stubbed Twelve Data: prices and RSI values are set
+ * per symbol, requests made with a revoked API key are answered 401, and
+ * webhook deliveries are collected
+ */
+const API_URL = "http://twelvedata.test";
+const WEBHOOK_URL = "http://hooks.test/alerts";
+
+let dir: string;
+let alpha: HttpClient;
+let beta: HttpClient;
+const prices = new Map<string, string>();
+const rsiValues = new Map<string, string>();
+const revokedKeys = new Set<string>();
+const webhooks: unknown[] = [];
+
+async function upstream(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+  const url = new URL(input instanceof Request ? input.url : String(input));
+  if (url.href === WEBHOOK_URL) {
+    webhooks.push(JSON.parse(String(init?.body)));
+    return new Response(null, { status: 204 });
+  }
+  if (revokedKeys.has(url.searchParams.get("apikey") ?? "")) {
+    return Response.json({ code: 401, message: "Your API key is invalid", status: "error" }, { status: 401 });
+  }
+
+  const symbol = url.searchParams.get("symbol") ?? "";
+  if (url.pathname === "/rsi") {
+    const rsi = rsiValues.get(symbol);
+    return Response.json({ meta: { symbol }, values: [{ datetime: "2024-03-06 15:00:00", rsi }], status: "ok" });
+  }
+  // A batch comes back keyed by symbol, a single symbol unkeyed
+  const symbols = symbol.split(",");
+  const answer = (name: string) => prices.has(name)
+    ? { price: prices.get(name) }
+    : { code: 404, message: `symbol not found: ${name}`, status: "error" };
+  return Response.json(symbols.length === 1
+    ? answer(symbol)
+    : Object.fromEntries(symbols.map(name => [name, answer(name)])));
+}
+
+async function storedAlerts(): Promise<PriceAlert[]> {
+  return JSON.parse(await readFile(path.join(dir, "alerts.json"), "utf8")).alerts;
+}
+
+// Poll at `minutes` past a fixed start, with the given prices
+async function pollAt(minutes: number, quotes: Record<string, string> = {}): Promise<string[]> {
+  for (const [symbol, price] of Object.entries(quotes)) prices.set(symbol, price);
+  const fired = await pollAlerts(Date.parse("2024-03-06T15:00:00Z") + minutes * 60000);
+  return fired.map(alert => alert.id);
+}
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "twelvedata-alerts-"));
+  await writeFile(path.join(dir, "clients.json"), JSON.stringify([
+    { name: "alpha", token: "token-alpha", api_key: "key-alpha" },
+    { name: "beta", token: "token-beta", api_key: "key-beta" }
+  ]));
+  Object.assign(process.env, {
+    TWELVEDATA_API_KEY: "key-server",
+    TWELVEDATA_API_URL: API_URL,
+    TWELVEDATA_DATA_DIR: dir,
+    TWELVEDATA_HTTP_CLIENTS_FILE: path.join(dir, "clients.json"),
+    TWELVEDATA_CACHE_ENABLED: "false",
+    TWELVEDATA_CREDITS_PER_MINUTE: "1000",
+    TWELVEDATA_LOG_LEVEL: "silent"
+  });
+  [alpha, beta] = getHttpClients();
+  vi.stubGlobal("fetch", vi.fn(upstream));
+});
+
+afterEach(async () => {
+  for (const client of [undefined, alpha, beta]) {
+    for (const alert of await runAsClient(client, () => listAlerts())) {
+      await runAsClient(client, () => deleteAlert(alert.id));
+    }
+  }
+  prices.clear();
+  rsiValues.clear();
+  revokedKeys.clear();
+  webhooks.length = 0;
+  vi.mocked(fetch).mockClear();
+  delete process.env.TWELVEDATA_ALERT_WEBHOOK_URL;
+});
+
+afterAll(async () => {
+  vi.unstubAllGlobals();
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("alert poller", () => {
+  it("fires price alerts when the price crosses the level", async () => {
+    const above = await createAlert("XAU/USD", { type: "price_above", price: 2100 });
+    const below = await createAlert("XAG/USD", { type: "price_below", price: 24 });
+
+    expect(await pollAt(0, { "XAU/USD": "2090.00", "XAG/USD": "24.50" })).toEqual([]);
+    expect(await pollAt(1, { "XAU/USD": "2099.99", "XAG/USD": "24.01" })).toEqual([]);
+    expect(await pollAt(2, { "XAU/USD": "2100.00", "XAG/USD": "23.90" })).toEqual([above.id, below.id]);
+
+    expect((await listAlerts("triggered")).map(alert => [alert.id, alert.triggered_value])).toEqual([
+      [above.id, 2100],
+      [below.id, 23.9]
+    ]);
+  });
+
+  it("waits for a crossing when the price starts past the level", async () => {
+    const alert = await createAlert("XAU/USD", { type: "price_above", price: 2100 });
+
+    expect(await pollAt(0, { "XAU/USD": "2150.00" })).toEqual([]);
+    expect(await pollAt(1, { "XAU/USD": "2160.00" })).toEqual([]);
+    expect(await pollAt(2, { "XAU/USD": "2095.00" })).toEqual([]);
+    expect(await pollAt(3, { "XAU/USD": "2101.00" })).toEqual([alert.id]);
+  });
+
+  it("measures percent changes over a full window", async () => {
+    const up = await createAlert("BTC/USD", {
+      type: "percent_change",
+      percent: 2,
+      window_minutes: 5,
+      direction: "up"
+    });
+    const down = await createAlert("BTC/USD", {
+      type: "percent_change",
+      percent: 2,
+      window_minutes: 5,
+      direction: "down"
+    });
+
+    expect(await pollAt(0, { "BTC/USD": "60000" })).toEqual([]);
+    // The window has not been watched for five minutes yet
+    expect(await pollAt(2, { "BTC/USD": "61500" })).toEqual([]);
+    expect(await pollAt(5, { "BTC/USD": "61500" })).toEqual([up.id]);
+
+    const [{ last_value }] = (await listAlerts("active")).filter(alert => alert.id === down.id);
+    expect(last_value).toBe(2.5);
+  });
+
+  it("compares RSI alerts with the latest indicator value", async () => {
+    const condition = { interval: "1h", time_period: 14 } as const;
+    const overbought = await createAlert("EUR/USD", { type: "rsi_above", value: 70, ...condition });
+    const oversold = await createAlert("EUR/USD", { type: "rsi_below", value: 30, ...condition });
+
+    rsiValues.set("EUR/USD", "69.9");
+    expect(await pollAt(0)).toEqual([]);
+    rsiValues.set("EUR/USD", "70.0");
+    expect(await pollAt(1)).toEqual([overbought.id]);
+
+    const [stored] = (await storedAlerts()).filter(alert => alert.id === oversold.id);
+    expect(stored).toMatchObject({ status: "active", last_value: 70 });
+  });
+
+  it("posts triggered alerts to the webhook", async () => {
+    process.env.TWELVEDATA_ALERT_WEBHOOK_URL = WEBHOOK_URL;
+    const alert = await createAlert("XAU/USD", { type: "price_below", price: 2000 }, "buy the dip");
+
+    await pollAt(0, { "XAU/USD": "2010.00" });
+    expect(webhooks).toEqual([]);
+    await pollAt(1, { "XAU/USD": "1995.50" });
+
+    expect(webhooks).toEqual([{
+      event: "alert.triggered",
+      alert: expect.objectContaining({
+        id: alert.id,
+        status: "triggered",
+        triggered_value: 1995.5,
+        message: "XAU/USD: price crosses below 2000 (value 1995.5) - buy the dip"
+      })
+    }]);
+  });
+
+  it("skips a poll when it would leave too few credits", async () => {
+    const alert = await createAlert("XAU/USD", { type: "price_above", price: 2100 });
+    process.env.TWELVEDATA_CREDITS_PER_MINUTE = "2";
+    try {
+      expect(await pollAt(0, { "XAU/USD": "2090.00" })).toEqual([]);
+    } finally {
+      process.env.TWELVEDATA_CREDITS_PER_MINUTE = "1000";
+      resetRateLimiter();
+    }
+
+    expect(getAlertPollerStatus().last_skip_reason).toMatch(/needs 1 credits plus a reserve of 2/);
+    expect(vi.mocked(fetch)).not.toHaveBeenCalledWith(expect.stringContaining("/price"));
+    const [stored] = await listAlerts();
+    expect(stored).toMatchObject({ id: alert.id, status: "active" });
+    expect(stored.last_checked_at).toBeUndefined();
+  });
+
+  it("polls the other clients when one client's request fails", async () => {
+    const failing = await runAsClient(alpha, () => createAlert("XAU/USD", { type: "price_above", price: 2100 }));
+    const passing = await runAsClient(beta, () => createAlert("XAU/USD", { type: "price_above", price: 2100 }));
+    await pollAt(0, { "XAU/USD": "2090.00" });
+
+    revokedKeys.add("key-alpha");
+    expect(await pollAt(1, { "XAU/USD": "2150.00" })).toEqual([passing.id]);
+
+    expect((await storedAlerts()).map(alert => [alert.id, alert.status])).toEqual([
+      [failing.id, "active"],
+      [passing.id, "triggered"]
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { backfillTimeSeries } from "../src/services/backfill.js";
+import type { TimeSeriesValue } from "../src/types.js";
+
+/**
+ * Backfills against a stubbed Twelve Data holding 12,000 one-minute bars.
+ * Like the API, it answers with the newest 5000 bars between start_date and
+ * end_date inclusive, so each page repeats the oldest bar of the one before.
+ */
+const BARS = 12000;
+const FIRST = Date.parse("2024-03-01T00:00:00Z");
+
+function datetime(index: number): string {
+  return new Date(FIRST + index * 60000).toISOString().slice(0, 19).replace("T", " ");
+}
+
+const history: TimeSeriesValue[] = Array.from({ length: BARS }, (_, index) => ({
+  datetime: datetime(index),
+  open: String(60000 + index),
+  high: String(60001 + index),
+  low: String(59999 + index),
+  close: String(60000.5 + index)
+}));
+
+const requested: { start_date: string | null; end_date: string | null }[] = [];
+
+async function upstream(input: string | URL | Request): Promise<Response> {
+  const url = new URL(input instanceof Request ? input.url : String(input));
+  const start = url.searchParams.get("start_date");
+  const end = url.searchParams.get("end_date");
+  requested.push({ start_date: start, end_date: end });
+
+  const values = history
+    .filter(bar => (!start || bar.datetime >= start) && (!end || bar.datetime <= end))
+    .slice(-Number(url.searchParams.get("outputsize")))
+    .reverse();
+  return Response.json({
+    meta: { symbol: "BTC/USD", interval: "1min", currency_base: "Bitcoin", exchange_timezone: "UTC", type: "Digital Currency" },
+    values,
+    status: "ok"
+  });
+}
+
+beforeAll(() => {
+  Object.assign(process.env, {
+    TWELVEDATA_API_KEY: "key-server",
+    TWELVEDATA_API_URL: "http://twelvedata.test",
+    TWELVEDATA_CACHE_ENABLED: "false",
+    TWELVEDATA_CANDLE_STORE: "false",
+    TWELVEDATA_CREDITS_PER_MINUTE: "1000",
+    TWELVEDATA_LOG_LEVEL: "silent"
+  });
+  vi.stubGlobal("fetch", vi.fn(upstream));
+});
+
+afterEach(() => {
+  requested.length = 0;
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("backfill", () => {
+  it("stitches paged windows and drops the bar each page repeats", async () => {
+    const { data } = await backfillTimeSeries("BTC/USD", "1min", datetime(0), datetime(BARS - 1), { maxRequests: 10 });
+
+    expect(requested).toEqual([
+      { start_date: datetime(0), end_date: datetime(BARS - 1) },
+      { start_date: datetime(0), end_date: datetime(7000) },
+      { start_date: datetime(0), end_date: datetime(2001) }
+    ]);
+    expect(data.backfill).toMatchObject({
+      requests: 3,
+      bars: BARS,
+      duplicates_removed: 2,
+      complete: true,
+      first_datetime: datetime(0),
+      last_datetime: datetime(BARS - 1)
+    });
+    expect(data.values.map(bar => bar.datetime)).toEqual(history.map(bar => bar.datetime).reverse());
+  });
+
+  it("stops at max_requests with the end date to resume from", async () => {
+    const { data } = await backfillTimeSeries("BTC/USD", "1min", datetime(0), datetime(BARS - 1), { maxRequests: 2 });
+
+    expect(requested).toHaveLength(2);
+    expect(data.backfill).toMatchObject({
+      requests: 2,
+      bars: BARS - 2001,
+      duplicates_removed: 1,
+      complete: false,
+      stopped_reason: "Reached max_requests (2)",
+      resume_end_date: datetime(2001),
+      first_datetime: datetime(2001)
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { buildCacheKey, clearCache, getCacheSize, getTtlSeconds } from "../src/services/cache.js";
+import { getPrice, getTimeSeries } from "../src/services/twelvedata.js";
+
+/**
+ * The response cache in front of a stubbed Twelve Data, with the clock
+ * faked so entries can be aged
+ */
+const START = Date.parse("2024-03-06T15:00:00Z");
+const OVERRIDES = [
+  "TWELVEDATA_CACHE_TTL_PRICE",
+  "TWELVEDATA_CACHE_TTL_TIME_SERIES",
+  "TWELVEDATA_CACHE_TTL_TIME_SERIES_1H",
+  "TWELVEDATA_CACHE_MAX_ENTRIES"
+];
+
+const upstream = vi.fn(async (input: string | URL | Request) => {
+  const url = new URL(input instanceof Request ? input.url : String(input));
+  const symbol = url.searchParams.get("symbol");
+  if (url.pathname === "/time_series") {
+    return Response.json({
+      meta: { symbol, interval: url.searchParams.get("interval") },
+      values: [{ datetime: "2024-03-06", open: "1", high: "1", low: "1", close: "1" }],
+      status: "ok"
+    });
+  }
+  return Response.json({ price: String(2100 + upstream.mock.calls.length) });
+});
+
+// Seconds since START on the faked clock
+function at(seconds: number): void {
+  vi.setSystemTime(START + seconds * 1000);
+}
+
+beforeAll(() => {
+  Object.assign(process.env, {
+    TWELVEDATA_API_KEY: "key-server",
+    TWELVEDATA_API_URL: "http://twelvedata.test",
+    TWELVEDATA_CREDITS_PER_MINUTE: "1000",
+    TWELVEDATA_LOG_LEVEL: "silent"
+  });
+  vi.stubGlobal("fetch", upstream);
+  vi.useFakeTimers({ toFake: ["Date"] });
+  at(0);
+});
+
+afterEach(() => {
+  for (const name of OVERRIDES) delete process.env[name];
+  clearCache();
+  upstream.mockClear();
+  at(0);
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("response cache", () => {
+  it("serves a response until its category's TTL runs out", async () => {
+    const first = await getPrice("XAU/USD");
+    expect(first.cache).toEqual({ hit: false, age_seconds: 0, ttl_seconds: 15 });
+
+    at(14);
+    const cached = await getPrice("XAU/USD");
+    expect(cached.cache).toEqual({ hit: true, age_seconds: 14, ttl_seconds: 15 });
+    expect(cached.data.price).toBe(first.data.price);
+
+    at(15);
+    expect((await getPrice("XAU/USD")).cache.hit).toBe(false);
+    expect(upstream).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps time series for as long as their interval suggests", async () => {
+    expect((await getTimeSeries("XAU/USD", "1min")).cache.ttl_seconds).toBe(30);
+    expect((await getTimeSeries("XAU/USD", "1day")).cache.ttl_seconds).toBe(3600);
+
+    at(29);
+    expect((await getTimeSeries("XAU/USD", "1min")).cache.hit).toBe(true);
+    at(30);
+    expect((await getTimeSeries("XAU/USD", "1min")).cache.hit).toBe(false);
+    at(3599);
+    expect((await getTimeSeries("XAU/USD", "1day")).cache.hit).toBe(true);
+
+    // Intervals without their own TTL use the category's
+    expect(getTtlSeconds("/time_series", { interval: "3h" })).toBe(60);
+  });
+
+  it("takes TTLs from the environment", async () => {
+    process.env.TWELVEDATA_CACHE_TTL_PRICE = "5";
+    process.env.TWELVEDATA_CACHE_TTL_TIME_SERIES = "100";
+    process.env.TWELVEDATA_CACHE_TTL_TIME_SERIES_1H = "10";
+
+    expect((await getPrice("XAU/USD")).cache.ttl_seconds).toBe(5);
+    expect((await getTimeSeries("XAU/USD", "1h")).cache.ttl_seconds).toBe(10);
+    expect((await getTimeSeries("XAU/USD", "1day")).cache.ttl_seconds).toBe(100);
+
+    at(5);
+    expect((await getPrice("XAU/USD")).cache.hit).toBe(false);
+
+    // A TTL of 0 turns caching off for the category
+    process.env.TWELVEDATA_CACHE_TTL_PRICE = "0";
+    await getPrice("EUR/USD");
+    await getPrice("EUR/USD");
+    expect(upstream.mock.calls.filter(([url]) => String(url).includes("EUR%2FUSD"))).toHaveLength(2);
+  });
+
+  it("evicts the oldest entries beyond TWELVEDATA_CACHE_MAX_ENTRIES", async () => {
+    process.env.TWELVEDATA_CACHE_MAX_ENTRIES = "2";
+    await getPrice("XAU/USD");
+    await getPrice("XAG/USD");
+    await getPrice("EUR/USD");
+    expect(getCacheSize()).toBe(2);
+
+    expect((await getPrice("EUR/USD")).cache.hit).toBe(true);
+    expect((await getPrice("XAG/USD")).cache.hit).toBe(true);
+    expect((await getPrice("XAU/USD")).cache.hit).toBe(false);
+  });
+
+  it("normalizes keys", async () => {
+    expect(buildCacheKey("/time_series", { symbol: " xau/usd ", interval: "1h", outputsize: undefined }))
+      .toBe(buildCacheKey("/time_series", { interval: "1h", symbol: "XAU/USD" }));
+    expect(buildCacheKey("/price", { symbol: "XAU/USD" })).toBe("/price?symbol=XAU/USD");
+    expect(buildCacheKey("/price", { symbol: "XAU/USD" }, "team a")).toBe("team%20a:/price?symbol=XAU/USD");
+
+    await getPrice("XAU/USD");
+    expect((await getPrice("xau/usd")).cache.hit).toBe(true);
+    expect(upstream).toHaveBeenCalledTimes(1);
+  });
+});
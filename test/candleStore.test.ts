@@ -0,0 +1,160 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { MAX_STORE_GAP_REQUESTS } from "../src/constants.js";
+import type { TimeSeriesValue } from "../src/types.js";
+import { connect, startServer, type TestServer } from "./mcpServer.js";
+
+/**
+ * twelvedata_get_time_series date ranges served from a candle store written
+ * up front, with only the gaps fetched from a stubbed Twelve Data that has
+ * daily bars for the first quarter of 2024
+ */
+const API_URL = "http://twelvedata.test";
+const realFetch = globalThis.fetch;
+
+let server: TestServer;
+let client: Client;
+const requested: { symbol: string | null; start_date: string | null; end_date: string | null }[] = [];
+
+function day(index: number): string {
+  return new Date(Date.UTC(2024, 0, 1 + index)).toISOString().slice(0, 10);
+}
+
+// Jan 1 to Mar 31
+const DAYS = 91;
+const history: TimeSeriesValue[] = Array.from({ length: DAYS }, (_, index) => ({
+  datetime: day(index),
+  open: String(2000 + index),
+  high: String(2005 + index),
+  low: String(1995 + index),
+  close: String(2002 + index)
+}));
+
+function normalize(value: string): string {
+  return value.length === 10 ? `${value} 00:00:00` : value;
+}
+
+async function upstream(url: URL): Promise<Response> {
+  const symbol = url.searchParams.get("symbol");
+  const start = url.searchParams.get("start_date");
+  const end = url.searchParams.get("end_date");
+  requested.push({ symbol, start_date: start, end_date: end });
+
+  const values = history
+    .filter(bar => (!start || bar.datetime >= start.slice(0, 10)) && (!end || bar.datetime <= end.slice(0, 10)))
+    .slice(-Number(url.searchParams.get("outputsize")))
+    .reverse();
+  return Response.json({
+    meta: { symbol, interval: "1day", currency_base: "Gold", exchange_timezone: "UTC", type: "Physical Currency" },
+    values,
+    status: "ok"
+  });
+}
+
+// Store the given days of a symbol's history, each run of days as one covered range
+async function storeDays(symbol: string, days: number[]): Promise<void> {
+  const ranges: { from: string; to: string }[] = [];
+  for (const index of days) {
+    const last = ranges[ranges.length - 1];
+    if (last && last.to === normalize(day(index - 1))) last.to = normalize(day(index));
+    else ranges.push({ from: normalize(day(index)), to: normalize(day(index)) });
+  }
+  const dir = path.join(server.dataDir, "candles");
+  await mkdir(dir, { recursive: true });
+  await writeFile(path.join(dir, `${symbol.replace("/", "-")}_1day.json`), JSON.stringify({
+    symbol,
+    interval: "1day",
+    meta: { symbol, interval: "1day", exchange_timezone: "UTC" },
+    bars: days.map(index => history[index]),
+    ranges,
+    updated_at: "2024-04-01T00:00:00.000Z"
+  }));
+}
+
+async function series(symbol: string, args: Record<string, unknown>): Promise<TimeSeriesValue[]> {
+  const result = await client.callTool({
+    name: "twelvedata_get_time_series",
+    arguments: { symbol, interval: "1day", outputsize: 500, response_format: "json", ...args }
+  });
+  expect(result.isError, JSON.stringify(result.content)).toBeFalsy();
+  return (result.structuredContent as { values: TimeSeriesValue[] }).values;
+}
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: to - from + 1 }, (_, offset) => from + offset);
+}
+
+beforeAll(async () => {
+  vi.stubGlobal("fetch", vi.fn((input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    return url.origin === API_URL ? upstream(url) : realFetch(input, init);
+  }));
+  server = await startServer({
+    TWELVEDATA_API_KEY: "key-server",
+    TWELVEDATA_API_URL: API_URL,
+    TWELVEDATA_CACHE_ENABLED: "false",
+    TWELVEDATA_CANDLE_STORE: "true",
+    TWELVEDATA_CREDITS_PER_MINUTE: "1000"
+  });
+  ({ client } = await connect(server));
+});
+
+beforeEach(() => {
+  requested.length = 0;
+});
+
+afterAll(async () => {
+  await client.close();
+  vi.unstubAllGlobals();
+  await rm(server.dataDir, { recursive: true, force: true });
+});
+
+describe("candle store gaps", () => {
+  it("fetches only a hole in the middle of the stored range", async () => {
+    // January and March stored, February missing
+    await storeDays("XAU/USD", [...range(0, 30), ...range(60, 90)]);
+
+    const values = await series("XAU/USD", { start_date: "2024-01-01", end_date: "2024-03-31" });
+
+    expect(requested).toEqual([
+      { symbol: "XAU/USD", start_date: "2024-01-31 00:00:00", end_date: "2024-03-01 00:00:00" }
+    ]);
+    expect(values.map(bar => bar.datetime)).toEqual(history.map(bar => bar.datetime).reverse());
+  });
+
+  it("fetches the stale end of a stored range", async () => {
+    // Stored up to the end of February
+    await storeDays("XAG/USD", range(0, 59));
+
+    const values = await series("XAG/USD", { start_date: "2024-01-01", end_date: "2024-03-31" });
+
+    expect(requested).toEqual([
+      { symbol: "XAG/USD", start_date: "2024-02-29 00:00:00", end_date: "2024-03-31" }
+    ]);
+    expect(values).toHaveLength(DAYS);
+    expect(values[0]).toEqual(history[DAYS - 1]);
+  });
+
+  it("makes no request when the store covers the range", async () => {
+    await storeDays("XPT/USD", range(0, 90));
+
+    expect(await series("XPT/USD", { start_date: "2024-02-01", end_date: "2024-02-29" })).toHaveLength(29);
+    expect(requested).toEqual([]);
+  });
+
+  it(`fetches at most ${MAX_STORE_GAP_REQUESTS} gaps per call`, async () => {
+    // Every other day stored: 45 one-day holes
+    await storeDays("EUR/USD", range(0, 90).filter(index => index % 2 === 0));
+
+    const values = await series("EUR/USD", { start_date: "2024-01-01", end_date: "2024-03-31" });
+
+    expect(requested).toHaveLength(MAX_STORE_GAP_REQUESTS);
+    // Newest gaps first, each between two stored days
+    expect(requested[0]).toMatchObject({ start_date: "2024-03-29 00:00:00", end_date: "2024-03-31" });
+    expect(requested[1]).toMatchObject({ start_date: "2024-03-27 00:00:00", end_date: "2024-03-29 00:00:00" });
+    expect(values.slice(0, 2 * MAX_STORE_GAP_REQUESTS + 1).map(bar => bar.datetime))
+      .toEqual(range(90 - 2 * MAX_STORE_GAP_REQUESTS, 90).map(day).reverse());
+  });
+});
@@ -0,0 +1,81 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { createAlert, deleteAlert, listAlerts, onAlertTriggered, pollAlerts } from "../src/services/alerts.js";
+import { getHttpClients, runAsClient, type HttpClient } from "../src/services/clients.js";
+import { listExports, writeExport } from "../src/services/exports.js";
+import { getStreamStatus, releasePrices, subscribePrices } from "../src/services/stream.js";
+import { listWatchlists, saveWatchlist } from "../src/services/watchlists.js";
+import type { PriceAlert } from "../src/types.js";
+
+let dir: string;
+let clientA: HttpClient;
+let clientB: HttpClient;
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "twelvedata-scope-"));
+  process.env.TWELVEDATA_MODE = "mock";
+  process.env.TWELVEDATA_DATA_DIR = dir;
+  process.env.TWELVEDATA_HTTP_AUTH_TOKENS = "token-a,token-b";
+  process.env.TWELVEDATA_LOG_LEVEL = "error";
+  [clientA, clientB] = getHttpClients();
+});
+
+afterAll(async () => {
+  releasePrices("session-a");
+  releasePrices("session-b");
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("per-client state", () => {
+  it("keeps each client's alerts to itself", async () => {
+    // Conditions that hold on the first poll
+    const condition = { type: "rsi_above", value: 0, interval: "1h", time_period: 14 } as const;
+    const alertA = await runAsClient(clientA, () => createAlert("XAU/USD", condition));
+    const alertB = await runAsClient(clientB, () => createAlert("EUR/USD", condition));
+
+    expect((await runAsClient(clientA, () => listAlerts())).map(alert => alert.id)).toEqual([alertA.id]);
+    expect((await runAsClient(clientB, () => listAlerts())).map(alert => alert.id)).toEqual([alertB.id]);
+    expect(await listAlerts()).toEqual([]);
+    await expect(runAsClient(clientA, () => deleteAlert(alertB.id))).rejects.toThrow(/No alert/);
+  });
+
+  it("polls every client's alerts and reports them to their owner", async () => {
+    const fired: PriceAlert[] = [];
+    const stop = onAlertTriggered(alert => fired.push(alert));
+    try {
+      await pollAlerts();
+    } finally {
+      stop();
+    }
+
+    expect(fired.map(alert => [alert.client, alert.symbol]).sort()).toEqual([
+      ["token-1", "XAU/USD"],
+      ["token-2", "EUR/USD"]
+    ]);
+  });
+
+  it("keeps each client's watchlists and exports to itself", async () => {
+    await runAsClient(clientA, () => saveWatchlist("metals", ["XAU/USD"], "replace"));
+    await runAsClient(clientA, () => writeExport(["XAU/USD"], [{ datetime: "2024-01-05", close: "2040.1" }], "csv"));
+
+    const names = (lists: { name: string }[]) => lists.map(list => list.name);
+    expect(names(await runAsClient(clientA, () => listWatchlists()))).toContain("metals");
+    expect(names(await runAsClient(clientB, () => listWatchlists()))).not.toContain("metals");
+    expect(await runAsClient(clientA, () => listExports())).toHaveLength(1);
+    expect(await runAsClient(clientB, () => listExports())).toHaveLength(0);
+  });
+
+  it("gives each client its own price stream", () => {
+    runAsClient(clientA, () => subscribePrices(["XAU/USD"], "session-a"));
+    runAsClient(clientB, () => subscribePrices(["BTC/USD"], "session-b"));
+
+    expect(runAsClient(clientA, () => getStreamStatus()).symbols).toEqual(["XAU/USD"]);
+    expect(runAsClient(clientB, () => getStreamStatus()).symbols).toEqual(["BTC/USD"]);
+
+    releasePrices("session-a");
+    expect(runAsClient(clientA, () => getStreamStatus()).state).toBe("idle");
+    expect(runAsClient(clientB, () => getStreamStatus()).state).toBe("open");
+  });
+});
@@ -0,0 +1,104 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { getCorrelationMatrix } from "../src/services/correlation.js";
+import type { TimeSeriesValue } from "../src/types.js";
+
+/**
+ * Correlation across series whose bars only partly line up, served by a
+ * stubbed Twelve Data. Bars are given oldest first as [datetime, close].
+ */
+type Bars = [string, number][];
+
+const SERIES: Record<string, { timezone: string; bars: Bars }> = {
+  // New York hourly session, 14:30 to 20:30 UTC in early March
+  AAPL: {
+    timezone: "America/New_York",
+    bars: [
+      ["2024-03-05 09:30:00", 100], ["2024-03-05 10:30:00", 101], ["2024-03-05 11:30:00", 103],
+      ["2024-03-05 12:30:00", 99], ["2024-03-05 13:30:00", 98], ["2024-03-05 14:30:00", 97],
+      ["2024-03-06 09:30:00", 102], ["2024-03-06 10:30:00", 104], ["2024-03-06 11:30:00", 103],
+      ["2024-03-06 12:30:00", 110], ["2024-03-06 13:30:00", 108]
+    ]
+  },
+  // London hourly session, 08:30 to 16:30 UTC
+  VOD: {
+    timezone: "Europe/London",
+    bars: [
+      ["2024-03-05 08:30:00", 70], ["2024-03-05 12:30:00", 71], ["2024-03-05 13:30:00", 72],
+      ["2024-03-05 14:30:00", 50], ["2024-03-05 15:30:00", 50.4], ["2024-03-05 16:30:00", 51.5],
+      ["2024-03-06 08:30:00", 60], ["2024-03-06 13:30:00", 61],
+      ["2024-03-06 14:30:00", 51.2], ["2024-03-06 15:30:00", 51.8], ["2024-03-06 16:30:00", 51.3]
+    ]
+  },
+  // Daily bars missing different days
+  EUR: {
+    timezone: "UTC",
+    bars: [
+      ["2024-03-01", 1.08], ["2024-03-04", 1.085], ["2024-03-05", 1.084], ["2024-03-06", 1.09],
+      ["2024-03-07", 1.095], ["2024-03-08", 1.094]
+    ]
+  },
+  GBP: {
+    timezone: "UTC",
+    bars: [
+      ["2024-03-04", 1.26], ["2024-03-05", 1.259], ["2024-03-06", 1.27], ["2024-03-07", 1.28],
+      ["2024-03-08", 1.272], ["2024-03-11", 1.29]
+    ]
+  }
+};
+
+async function upstream(input: string | URL | Request): Promise<Response> {
+  const url = new URL(input instanceof Request ? input.url : String(input));
+  const symbol = url.searchParams.get("symbol") ?? "";
+  const { timezone, bars } = SERIES[symbol];
+  const values: TimeSeriesValue[] = bars.map(([datetime, close]) => ({
+    datetime,
+    open: String(close),
+    high: String(close),
+    low: String(close),
+    close: String(close)
+  }));
+  return Response.json({
+    meta: { symbol, interval: url.searchParams.get("interval"), exchange_timezone: timezone, type: "Common Stock" },
+    values: values.reverse(),
+    status: "ok"
+  });
+}
+
+beforeAll(() => {
+  Object.assign(process.env, {
+    TWELVEDATA_API_KEY: "key-server",
+    TWELVEDATA_API_URL: "http://twelvedata.test",
+    TWELVEDATA_CACHE_ENABLED: "false",
+    TWELVEDATA_CANDLE_STORE: "false",
+    TWELVEDATA_CREDITS_PER_MINUTE: "1000",
+    TWELVEDATA_LOG_LEVEL: "silent"
+  });
+  vi.stubGlobal("fetch", vi.fn(upstream));
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("correlation", () => {
+  it("correlates intraday bars only where the sessions overlap in UTC", async () => {
+    const matrix = await getCorrelationMatrix(["AAPL", "VOD"], "1h", 30, "pearson");
+
+    // 09:30 to 11:30 in New York are 14:30 to 16:30 in London on both days
+    expect(matrix).toMatchObject({
+      observations: 5,
+      start: "2024-03-05 09:30:00",
+      end: "2024-03-06 11:30:00",
+      bars: { AAPL: 11, VOD: 11 }
+    });
+    expect(matrix.pearson?.[0][1]).toBe(0.9568);
+  });
+
+  it("correlates daily bars only on the dates both series have", async () => {
+    const matrix = await getCorrelationMatrix(["EUR", "GBP"], "1day", 30, "both");
+
+    expect(matrix).toMatchObject({ observations: 4, start: "2024-03-04", end: "2024-03-08" });
+    expect(matrix.pearson?.[0][1]).toBe(0.9483);
+    expect(matrix.spearman?.[0][1]).toBe(0.8);
+  });
+});
@@ -0,0 +1,62 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { csvProvider } from "../src/services/csvProvider.js";
+
+let dir: string;
+
+const HOURLY = [
+  "datetime,open,high,low,close",
+  "2026-10-08 22:00:00,1,1,1,1.0",
+  "2026-10-08 23:00:00,1,1,1,1.1",
+  "2026-10-09 00:00:00,1,1,1,1.2",
+  "2026-10-09 13:00:00,1,1,1,1.3",
+  "2026-10-09 23:00:00,1,1,1,1.4",
+  "2026-10-10 00:00:00,1,1,1,1.5"
+].join("\n");
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "twelvedata-csv-"));
+  process.env.TWELVEDATA_CSV_DIR = dir;
+  await writeFile(path.join(dir, "EUR-USD_1h.csv"), HOURLY);
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function closes(values: { close: string }[]): string[] {
+  return values.map(bar => bar.close);
+}
+
+describe("csvProvider.getTimeSeries", () => {
+  it("includes the end date's intraday bars", async () => {
+    const series = await csvProvider.getTimeSeries({
+      symbol: "EUR/USD",
+      interval: "1h",
+      start_date: "2026-10-09",
+      end_date: "2026-10-09"
+    });
+    expect(closes(series.values)).toEqual(["1.4", "1.3", "1.2"]);
+    expect(series.meta.exchange_timezone).toBe("UTC");
+  });
+
+  it("reads dates and writes datetimes in the requested time zone", async () => {
+    const series = await csvProvider.getTimeSeries({
+      symbol: "EUR/USD",
+      interval: "1h",
+      start_date: "2026-10-09",
+      end_date: "2026-10-09",
+      timezone: "Asia/Tokyo"
+    });
+    // 2026-10-09 in Tokyo (UTC+9) runs from 2026-10-08 15:00 to 2026-10-09 14:59 UTC
+    expect(series.values.map(bar => bar.datetime)).toEqual([
+      "2026-10-09 22:00:00",
+      "2026-10-09 09:00:00",
+      "2026-10-09 08:00:00",
+      "2026-10-09 07:00:00"
+    ]);
+    expect(series.meta.exchange_timezone).toBe("Asia/Tokyo");
+  });
+});
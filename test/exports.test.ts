@@ -0,0 +1,38 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { listExports, readExport, writeExport } from "../src/services/exports.js";
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "twelvedata-exports-"));
+  process.env.TWELVEDATA_EXPORT_DIR = dir;
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("writeExport", () => {
+  it("gives exports written at the same moment their own files", async () => {
+    const rows = (close: string) => [{ datetime: "2024-01-05", close }];
+    const [first, second] = await Promise.all([
+      writeExport(["XAU/USD", "1day"], rows("2040.1"), "csv"),
+      writeExport(["XAU/USD", "1day"], rows("2041.2"), "csv")
+    ]);
+
+    expect(first.name).not.toBe(second.name);
+    expect(first.name).toMatch(/^XAU-USD_1day_\d{8}T\d{9}Z_[0-9a-f]{6}\.csv$/);
+    expect((await readExport(first.name)).text).toContain("2040.1");
+    expect((await readExport(second.name)).text).toContain("2041.2");
+    expect(await listExports()).toHaveLength(2);
+  });
+
+  it("does not reveal where the file is stored", async () => {
+    const file = await writeExport(["EUR/USD"], [{ datetime: "2024-01-05", close: "1.09" }], "json");
+    expect(file).not.toHaveProperty("path");
+    expect(JSON.stringify(file)).not.toContain(dir);
+  });
+});
@@ -0,0 +1,69 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { HttpClient } from "../src/services/clients.js";
+
+/**
+ * Readiness without TWELVEDATA_API_KEY. HTTP clients are read once per
+ * module instance, so each case imports the health check afresh.
+ */
+let dir: string;
+
+async function readiness(clients: Omit<HttpClient, "token">[]) {
+  const file = path.join(dir, "clients.json");
+  await writeFile(file, JSON.stringify(clients.map(client => ({ ...client, token: `token-${client.name}` }))));
+  process.env.TWELVEDATA_HTTP_CLIENTS_FILE = file;
+  vi.resetModules();
+  const { checkReadiness } = await import("../src/services/health.js");
+  return checkReadiness();
+}
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "twelvedata-test-"));
+  delete process.env.TWELVEDATA_API_KEY;
+  Object.assign(process.env, {
+    TWELVEDATA_API_URL: "http://twelvedata.test",
+    TWELVEDATA_LOG_LEVEL: "silent"
+  });
+});
+
+beforeEach(() => {
+  vi.stubGlobal("fetch", vi.fn(async () => Response.json({ code: 401, message: "apikey parameter is incorrect", status: "error" })));
+});
+
+afterAll(async () => {
+  delete process.env.TWELVEDATA_HTTP_CLIENTS_FILE;
+  vi.unstubAllGlobals();
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("readiness", () => {
+  it("is ready when every HTTP client has its own API key", async () => {
+    const report = await readiness([
+      { name: "research", api_key: "key-research" },
+      { name: "trading", api_key: "key-trading" }
+    ]);
+
+    expect(report.status).toBe("ready");
+    expect(report.checks.api_key.ok).toBe(true);
+    expect(report.checks.upstream.ok).toBe(true);
+  });
+
+  it("is not ready when a client would fall back to the missing server key", async () => {
+    const report = await readiness([
+      { name: "research", api_key: "key-research" },
+      { name: "dashboard" }
+    ]);
+
+    expect(report.status).toBe("not_ready");
+    expect(report.checks.api_key).toEqual({
+      ok: false,
+      message: "TWELVEDATA_API_KEY is not set and clients without an api_key need it: dashboard"
+    });
+  });
+
+  it("is not ready without any key", async () => {
+    expect((await readiness([])).checks.api_key).toEqual({ ok: false, message: "TWELVEDATA_API_KEY is not set" });
+  });
+});
@@ -0,0 +1,121 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { rm } from "node:fs/promises";
+import { connect as connectServer, startServer, type TestServer } from "./mcpServer.js";
+
+const TOKENS = ["token-a", "token-b"];
+
+let server: TestServer;
+let baseUrl: string;
+
+function connect(token: string) {
+  return connectServer(server, token);
+}
+
+async function priceOf(client: Client, symbol: string): Promise<{ symbol: string; price: string }> {
+  const result = await client.callTool({
+    name: "twelvedata_get_price",
+    arguments: { symbol, response_format: "json" }
+  });
+  expect(result.isError).toBeFalsy();
+  return result.structuredContent as { symbol: string; price: string };
+}
+
+beforeAll(async () => {
+  server = await startServer({
+    TWELVEDATA_MODE: "mock",
+    TWELVEDATA_HTTP_AUTH_TOKENS: TOKENS.join(",")
+  });
+  baseUrl = server.baseUrl;
+});
+
+afterAll(async () => {
+  await rm(server.dataDir, { recursive: true, force: true });
+});
+
+describe("HTTP sessions", () => {
+  it("gives each client its own session and serves them concurrently", async () => {
+    const [a, b] = await Promise.all(TOKENS.map(connect));
+    expect(a.transport.sessionId).toBeTruthy();
+    expect(b.transport.sessionId).toBeTruthy();
+    expect(a.transport.sessionId).not.toBe(b.transport.sessionId);
+
+    const calls = ["XAU/USD", "EUR/USD", "BTC/USD"].flatMap(symbol => [
+      priceOf(a.client, symbol).then(result => ["a", symbol, result] as const),
+      priceOf(b.client, symbol).then(result => ["b", symbol, result] as const)
+    ]);
+    for (const [, symbol, result] of await Promise.all(calls)) {
+      expect(result.symbol).toBe(symbol);
+      expect(Number(result.price)).toBeGreaterThan(0);
+    }
+
+    const health = await (await fetch(`${baseUrl}/health`)).json() as { sessions: { streamable_http: number } };
+    expect(health.sessions.streamable_http).toBeGreaterThanOrEqual(2);
+
+    await Promise.all([a.client.close(), b.client.close()]);
+  });
+
+  it("rejects a request on another client's session", async () => {
+    const a = await connect(TOKENS[0]);
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${TOKENS[1]}`,
+        "Content-Type": "application/json",
+        "Accept": "application/json, text/event-stream",
+        "Mcp-Session-Id": a.transport.sessionId ?? "",
+        "Mcp-Protocol-Version": a.transport.protocolVersion ?? ""
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" })
+    });
+    expect(response.status).toBe(403);
+    await a.client.close();
+  });
+
+  it("opens no session when initialize is rejected", async () => {
+    const sessionCount = async () =>
+      ((await (await fetch(`${baseUrl}/health`)).json()) as { sessions: { streamable_http: number } }).sessions.streamable_http;
+    const before = await sessionCount();
+
+    // The transport needs an Accept header naming both response types
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { "Authorization": `Bearer ${TOKENS[0]}`, "Content-Type": "application/json", "Accept": "application/json" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } }
+      })
+    });
+    expect(response.status).toBe(406);
+    expect(response.headers.get("mcp-session-id")).toBeNull();
+    expect(await sessionCount()).toBe(before);
+
+    const a = await connect(TOKENS[0]);
+    expect((await priceOf(a.client, "XAU/USD")).symbol).toBe("XAU/USD");
+    await a.client.close();
+  });
+
+  it("keeps one session working after the other ends", async () => {
+    const [a, b] = await Promise.all(TOKENS.map(connect));
+    const endedSession = a.transport.sessionId;
+    await a.transport.terminateSession();
+    await a.client.close();
+
+    expect((await priceOf(b.client, "XAG/USD")).symbol).toBe("XAG/USD");
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${TOKENS[0]}`,
+        "Content-Type": "application/json",
+        "Accept": "application/json, text/event-stream",
+        "Mcp-Session-Id": endedSession ?? ""
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" })
+    });
+    expect(response.status).toBe(404);
+    await b.client.close();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { readdirSync, readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { SUPPORTED_INDICATORS, type IndicatorName } from "../src/constants.js";
+import { buildIndicatorResponse, parseIndicatorParams } from "../src/services/indicators.js";
+import type { TimeSeriesResponse } from "../src/types.js";
+
+/**
+ * A reference calculation: the candles and the indicator values a trusted
+ * source computed from them. time_series and indicator_response are
+ * response bodies shaped as Twelve Data returns them (newest first), so
+ * bodies saved with TWELVEDATA_MODE=record drop straight in. The series
+ * needs enough bars before the first expected value for the warm-up; the
+ * *_talib.json fixtures use 300 so Wilder-smoothed values (ADX) have
+ * settled whatever the seed.
+ */
+interface IndicatorFixture {
+  source: string;
+  indicator: IndicatorName;
+  params: Record<string, unknown>;
+  time_series: TimeSeriesResponse;
+  indicator_response: { values: Record<string, string>[] };
+}
+
+const FIXTURES_DIR = fileURLToPath(new URL("./fixtures/indicators/", import.meta.url));
+
+const fixtures = readdirSync(FIXTURES_DIR)
+  .filter(file => file.endsWith(".json"))
+  .map(file => ({ file, ...JSON.parse(readFileSync(`${FIXTURES_DIR}${file}`, "utf8")) as IndicatorFixture }));
+
+// Half a unit in the last decimal place the reference shows
+function tolerance(value: string): number {
+  const decimals = value.split(".")[1]?.length ?? 0;
+  return 0.5 * 10 ** -decimals + 1e-9;
+}
+
+describe("local indicators match reference values", () => {
+  for (const fixture of fixtures) {
+    it(`${fixture.indicator} (${fixture.file})`, () => {
+      const expected = fixture.indicator_response.values;
+      const local = buildIndicatorResponse(
+        fixture.time_series,
+        fixture.indicator,
+        expected.length,
+        parseIndicatorParams(fixture.indicator, fixture.params)
+      );
+
+      expect(local.values.map(row => row.datetime)).toEqual(expected.map(row => row.datetime));
+      expected.forEach((row, index) => {
+        for (const [column, value] of Object.entries(row)) {
+          if (column === "datetime") continue;
+          const difference = Math.abs(Number(local.values[index][column]) - Number(value));
+          expect(difference, `${column} at ${row.datetime}`).toBeLessThanOrEqual(tolerance(value));
+        }
+      });
+    });
+  }
+
+  it("has a fixture for every supported indicator", () => {
+    const covered = new Set(fixtures.map(fixture => fixture.indicator));
+    expect(SUPPORTED_INDICATORS.filter(name => !covered.has(name))).toEqual([]);
+  });
+});
+
+describe("indicator defaults", () => {
+  it("uses Twelve Data's 20-bar BBANDS period and 14 elsewhere", () => {
+    expect(parseIndicatorParams("bbands", {}).time_period).toBe(20);
+    expect(parseIndicatorParams("rsi", {}).time_period).toBe(14);
+  });
+});
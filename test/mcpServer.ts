@@ -0,0 +1,73 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { mkdtemp } from "node:fs/promises";
+import { createServer } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+/**
+ * The MCP server under test, started in this process over HTTP. A test
+ * file can start it once: the module runs its transport on import.
+ */
+export interface TestServer {
+  baseUrl: string;
+  dataDir: string;
+}
+
+async function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.once("error", reject);
+    probe.listen(0, () => {
+      const address = probe.address();
+      probe.close(() => resolve(typeof address === "object" && address ? address.port : 0));
+    });
+  });
+}
+
+async function waitForHealth(baseUrl: string): Promise<void> {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    try {
+      if ((await fetch(`${baseUrl}/health`)).ok) return;
+    } catch {
+      // Not listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+  throw new Error("HTTP server did not start");
+}
+
+/**
+ * Start the server with a fresh data directory and the given environment
+ * on top of TRANSPORT=http
+ */
+export async function startServer(env: Record<string, string>): Promise<TestServer> {
+  const dataDir = await mkdtemp(path.join(tmpdir(), "twelvedata-test-"));
+  const port = await freePort();
+  const baseUrl = `http://127.0.0.1:${port}`;
+  Object.assign(process.env, {
+    TRANSPORT: "http",
+    PORT: String(port),
+    TWELVEDATA_DATA_DIR: dataDir,
+    TWELVEDATA_LOG_LEVEL: "error",
+    ...env
+  });
+  await import("../src/index.js");
+  await waitForHealth(baseUrl);
+  return { baseUrl, dataDir };
+}
+
+/**
+ * Open an MCP session, with a bearer token when the server requires one
+ */
+export async function connect(
+  server: TestServer,
+  token?: string
+): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+  const transport = new StreamableHTTPClientTransport(new URL(`${server.baseUrl}/mcp`), {
+    requestInit: token ? { headers: { Authorization: `Bearer ${token}` } } : undefined
+  });
+  const client = new Client({ name: "twelvedata-test", version: "1.0.0" });
+  await client.connect(transport);
+  return { client, transport };
+}
@@ -0,0 +1,45 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { recordFixture } from "../src/services/fixtures.js";
+import { getPrice } from "../src/services/twelvedata.js";
+
+let dir: string;
+
+// What Twelve Data will answer for EUR/USD's price, as a replay fixture
+async function upstreamAnswers(body: unknown): Promise<void> {
+  await recordFixture("/price", { symbol: "EUR/USD" }, new Response(JSON.stringify(body)));
+}
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "twelvedata-providers-"));
+  Object.assign(process.env, {
+    TWELVEDATA_MODE: "replay",
+    TWELVEDATA_FIXTURES_DIR: path.join(dir, "fixtures"),
+    TWELVEDATA_CSV_DIR: dir,
+    TWELVEDATA_FALLBACK_PROVIDERS: "csv",
+    TWELVEDATA_LOG_LEVEL: "error"
+  });
+  await writeFile(path.join(dir, "EUR-USD_1day.csv"), "datetime,open,high,low,close\n2024-03-06,1.08,1.09,1.08,1.0850\n");
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("failover", () => {
+  it("does not cache a fallback's answer", async () => {
+    await upstreamAnswers({ code: 403, message: "/price is not available with your plan", status: "error" });
+    const fallback = await getPrice("EUR/USD");
+    expect(fallback.data.price).toBe("1.0850");
+    expect(fallback.cache).toMatchObject({ hit: false, provider: "csv", fallback: true, ttl_seconds: 0 });
+
+    await upstreamAnswers({ price: "1.08937" });
+    const primary = await getPrice("EUR/USD");
+    expect(primary.data.price).toBe("1.08937");
+    expect(primary.cache).not.toHaveProperty("provider");
+
+    expect((await getPrice("EUR/USD")).cache.hit).toBe(true);
+  });
+});
@@ -0,0 +1,122 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_RATE_LIMIT_MAX_WAIT_MS } from "../src/constants.js";
+import { CreditBudgetError } from "../src/services/errors.js";
+import { acquireCredits, getUsage, resetRateLimiter } from "../src/services/rateLimiter.js";
+import { getPrice } from "../src/services/twelvedata.js";
+
+/**
+ * The credit budget on a faked clock. The minute bucket holds
+ * TWELVEDATA_CREDITS_PER_MINUTE credits and refills continuously.
+ */
+const START = Date.parse("2024-03-06T15:00:00Z");
+const SETTINGS = [
+  "TWELVEDATA_CREDITS_PER_MINUTE",
+  "TWELVEDATA_CREDITS_PER_DAY",
+  "TWELVEDATA_RATE_LIMIT_MODE",
+  "TWELVEDATA_RATE_LIMIT_MAX_WAIT_MS"
+];
+
+function spend(symbols = "XAU/USD"): Promise<number> {
+  return acquireCredits("/price", { symbol: symbols });
+}
+
+beforeAll(() => {
+  Object.assign(process.env, {
+    TWELVEDATA_API_KEY: "key-server",
+    TWELVEDATA_API_URL: "http://twelvedata.test",
+    TWELVEDATA_CACHE_ENABLED: "false",
+    TWELVEDATA_LOG_LEVEL: "silent"
+  });
+  vi.useFakeTimers();
+});
+
+beforeEach(() => {
+  vi.setSystemTime(START);
+  resetRateLimiter();
+});
+
+afterEach(() => {
+  for (const name of SETTINGS) delete process.env[name];
+  vi.unstubAllGlobals();
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+describe("rate limiter", () => {
+  it("queues calls over the minute budget until credits refill", async () => {
+    process.env.TWELVEDATA_CREDITS_PER_MINUTE = "4";
+    expect(await spend("XAU/USD,XAG/USD,EUR/USD")).toBe(3);
+
+    const servedAt: Record<string, number> = {};
+    const queued = spend("BTC/USD,ETH/USD").then(() => (servedAt.batch = Date.now()));
+    const next = spend().then(() => (servedAt.next = Date.now()));
+
+    // One credit short: a quarter of a minute for the batch of two. Calls
+    // are served in order, so the next one then waits for its own credit.
+    await vi.advanceTimersByTimeAsync(14999);
+    expect(servedAt).toEqual({});
+    await vi.advanceTimersByTimeAsync(15001);
+    await Promise.all([queued, next]);
+    expect(servedAt).toEqual({ batch: START + 15000, next: START + 30000 });
+    expect(getUsage()).toMatchObject({ minute: { limit: 4, available: 0 }, day: { used: 6 } });
+  });
+
+  it("rejects a call that would wait longer than the maximum wait", async () => {
+    process.env.TWELVEDATA_CREDITS_PER_MINUTE = "1";
+    await spend();
+
+    // The default wait covers a full minute's refill
+    expect(DEFAULT_RATE_LIMIT_MAX_WAIT_MS).toBeGreaterThan(60000);
+    const waiting = spend();
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(await waiting).toBe(1);
+
+    process.env.TWELVEDATA_CREDITS_PER_MINUTE = "2";
+    process.env.TWELVEDATA_RATE_LIMIT_MAX_WAIT_MS = "30000";
+    vi.setSystemTime(START + 120000);
+    await spend("XAU/USD,XAG/USD");
+
+    const rejected = spend("XAU/USD,XAG/USD");
+    await expect(rejected).rejects.toBeInstanceOf(CreditBudgetError);
+    await expect(rejected).rejects.toMatchObject({ retryAfterMs: 60000 });
+
+    const queued = spend();
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(await queued).toBe(1);
+
+    process.env.TWELVEDATA_RATE_LIMIT_MODE = "reject";
+    await expect(spend()).rejects.toThrow(/0\/2 credits available this minute\. Retry in 30s/);
+    await expect(spend("XAU/USD,XAG/USD,EUR/USD")).rejects.toThrow(/more than the 2 credits\/minute budget/);
+  });
+
+  it("stops at the daily budget until midnight UTC", async () => {
+    Object.assign(process.env, { TWELVEDATA_CREDITS_PER_MINUTE: "100", TWELVEDATA_CREDITS_PER_DAY: "3" });
+    await spend("XAU/USD,XAG/USD");
+    await spend();
+
+    await expect(spend()).rejects.toThrow(
+      "Daily API credit budget exhausted (3/3 used). Resets at 2024-03-07T00:00:00.000Z"
+    );
+    expect(getUsage().day).toMatchObject({ used: 3, remaining: 0, resets_at: "2024-03-07T00:00:00.000Z" });
+
+    vi.setSystemTime(Date.parse("2024-03-07T00:00:00Z"));
+    expect(await spend()).toBe(1);
+    expect(getUsage().day).toMatchObject({ used: 1, remaining: 2 });
+  });
+
+  it("follows the credits Twelve Data reports in response headers", async () => {
+    process.env.TWELVEDATA_CREDITS_PER_MINUTE = "8";
+    vi.stubGlobal("fetch", vi.fn(async () => Response.json({ price: "2150.00" }, {
+      headers: { "api-credits-used": "7", "api-credits-left": "1" }
+    })));
+
+    await getPrice("XAU/USD");
+
+    expect(getUsage()).toMatchObject({
+      minute: { limit: 8, available: 1 },
+      upstream: { credits_used: 7, credits_left: 1, observed_at: "2024-03-06T15:00:00.000Z" }
+    });
+  });
+});
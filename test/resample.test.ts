@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { chooseSourceInterval, resampleValues } from "../src/services/resample.js";
+import type { TimeSeriesValue } from "../src/types.js";
+
+function bar(datetime: string, open: number, high: number, low: number, close: number, volume?: number): TimeSeriesValue {
+  return {
+    datetime,
+    open: String(open),
+    high: String(high),
+    low: String(low),
+    close: String(close),
+    ...(volume !== undefined ? { volume: String(volume) } : {})
+  };
+}
+
+// An exchange session of hourly bars opening at 09:30, newest first like the API
+const SESSION = [
+  bar("2024-03-05 09:30:00", 100, 101, 99, 100.5, 10),
+  bar("2024-03-05 10:30:00", 100.5, 103, 100, 102, 20),
+  bar("2024-03-05 11:30:00", 102, 102.5, 98, 99, 30),
+  bar("2024-03-05 12:30:00", 99, 100, 97, 98, 40),
+  bar("2024-03-05 13:30:00", 98, 99, 96.5, 97, 50),
+  bar("2024-03-05 14:30:00", 97, 98, 96, 97.5, 60),
+  bar("2024-03-05 15:30:00", 97.5, 98.5, 97, 98, 70),
+  bar("2024-03-06 09:30:00", 98, 99, 97.5, 98.5, 15),
+  bar("2024-03-06 10:30:00", 98.5, 100, 98, 99.5, 25)
+].reverse();
+
+describe("resampling", () => {
+  it("picks the coarsest native interval that divides the requested one", () => {
+    expect(chooseSourceInterval("3h")).toEqual({ source: "1h", factor: 3 });
+    expect(chooseSourceInterval("10min")).toEqual({ source: "5min", factor: 2 });
+    expect(chooseSourceInterval("90min")).toEqual({ source: "45min", factor: 2 });
+    expect(chooseSourceInterval("2day")).toEqual({ source: "1day", factor: 2 });
+    expect(() => chooseSourceInterval("3sec")).toThrow(/Unsupported interval "3sec"/);
+  });
+
+  it("aligns intraday candles to the session open each day", () => {
+    const { values, anchor } = resampleValues(SESSION, "2h");
+
+    expect(anchor).toBe("session open 09:30");
+    expect(values.map(candle => candle.datetime)).toEqual([
+      "2024-03-06 09:30:00",
+      "2024-03-05 15:30:00",
+      "2024-03-05 13:30:00",
+      "2024-03-05 11:30:00",
+      "2024-03-05 09:30:00"
+    ]);
+  });
+
+  it("keeps a partial bucket at the end of a session", () => {
+    const { values } = resampleValues(SESSION, "3h");
+
+    expect(values.map(candle => [candle.datetime, candle.volume])).toEqual([
+      ["2024-03-06 09:30:00", "40"],
+      ["2024-03-05 15:30:00", "70"],
+      ["2024-03-05 12:30:00", "150"],
+      ["2024-03-05 09:30:00", "60"]
+    ]);
+    expect(values[1]).toEqual(bar("2024-03-05 15:30:00", 97.5, 98.5, 97, 98, 70));
+  });
+
+  it("takes the first open, the extreme high and low, the last close and the summed volume", () => {
+    const { values } = resampleValues(SESSION, "3h");
+
+    expect(values[3]).toEqual(bar("2024-03-05 09:30:00", 100, 103, 98, 99, 60));
+    expect(values[2]).toEqual(bar("2024-03-05 12:30:00", 99, 100, 96, 97.5, 150));
+  });
+
+  it("leaves volume out when the source bars have none", () => {
+    const { values } = resampleValues([
+      bar("2024-03-06 01:00:00", 1.0892, 1.0895, 1.089, 1.0893),
+      bar("2024-03-06 00:00:00", 1.0890, 1.0894, 1.0889, 1.0892)
+    ], "2h");
+
+    expect(values).toEqual([bar("2024-03-06 00:00:00", 1.089, 1.0895, 1.0889, 1.0893)]);
+  });
+
+  it("labels multi-day candles with their first trading day", () => {
+    const days = [
+      bar("2024-03-04", 10, 11, 9, 10.5, 1),
+      bar("2024-03-05", 10.5, 12, 10, 11, 2),
+      bar("2024-03-06", 11, 11.5, 10.5, 11.2, 3),
+      bar("2024-03-08", 11.2, 11.4, 10.8, 11, 4),
+      bar("2024-03-11", 11, 11.6, 10.9, 11.5, 5)
+    ].reverse();
+
+    const weekly = resampleValues(days, "1week");
+    expect(weekly.anchor).toBe("weeks starting Monday");
+    expect(weekly.values).toEqual([
+      bar("2024-03-11", 11, 11.6, 10.9, 11.5, 5),
+      bar("2024-03-04", 10, 12, 9, 11, 10)
+    ]);
+
+    // Pairs of calendar days counted from 1970-01-01: 03-04 and 03-05 share one
+    const twoDay = resampleValues(days, "2day");
+    expect(twoDay.anchor).toBe("calendar days");
+    expect(twoDay.values.map(candle => [candle.datetime, candle.close])).toEqual([
+      ["2024-03-11", "11.5"], ["2024-03-08", "11"], ["2024-03-06", "11.2"], ["2024-03-04", "11"]
+    ]);
+  });
+});
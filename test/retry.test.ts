@@ -0,0 +1,147 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { PlanRestrictedError, UpstreamError } from "../src/services/errors.js";
+import { resetRateLimiter } from "../src/services/rateLimiter.js";
+import { getRetryDelayMs } from "../src/services/retry.js";
+import { getPrice } from "../src/services/twelvedata.js";
+
+/**
+ * Retries of upstream requests against a stubbed Twelve Data that answers
+ * from a script, on a faked clock and with Math.random pinned
+ */
+const START = Date.parse("2024-03-06T15:00:00Z");
+
+let script: (() => Response)[] = [];
+// Milliseconds after START at which each request was made
+let requestedAt: number[] = [];
+
+function status(code: number, headers: Record<string, string> = {}): () => Response {
+  return () => new Response(null, { status: code, headers });
+}
+
+function price(value: string): () => Response {
+  return () => Response.json({ price: value });
+}
+
+function upstream(): Promise<Response> {
+  requestedAt.push(Date.now() - START);
+  const next = script.length > 1 ? script.shift() : script[0];
+  return Promise.resolve(next ? next() : Response.json({ price: "0" }));
+}
+
+// Run a request to completion, letting every retry delay elapse
+async function settle<T>(request: Promise<T>): Promise<{ value?: T; error?: unknown }> {
+  const outcome = request.then(value => ({ value }), (error: unknown) => ({ error }));
+  await vi.runAllTimersAsync();
+  return outcome;
+}
+
+beforeAll(() => {
+  Object.assign(process.env, {
+    TWELVEDATA_API_KEY: "key-server",
+    TWELVEDATA_API_URL: "http://twelvedata.test",
+    TWELVEDATA_CACHE_ENABLED: "false",
+    TWELVEDATA_CREDITS_PER_MINUTE: "1000",
+    TWELVEDATA_LOG_LEVEL: "silent"
+  });
+  vi.useFakeTimers();
+});
+
+beforeEach(() => {
+  vi.setSystemTime(START);
+  resetRateLimiter();
+  script = [];
+  requestedAt = [];
+  vi.stubGlobal("fetch", vi.fn(upstream));
+  vi.spyOn(Math, "random").mockReturnValue(0.5);
+});
+
+afterEach(() => {
+  delete process.env.TWELVEDATA_MAX_RETRIES;
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+describe("retries", () => {
+  it("backs off exponentially with full jitter", async () => {
+    script = [status(503), status(502), status(500), price("2150.00")];
+
+    const { value } = await settle(getPrice("XAU/USD"));
+
+    expect(value?.data.price).toBe("2150.00");
+    // Half of 500, 1000 and 2000 ms
+    expect(requestedAt).toEqual([0, 250, 750, 1750]);
+  });
+
+  it("caps the backoff at the maximum delay", () => {
+    const error = new UpstreamError("Twelve Data API HTTP error: 503");
+    const config = { maxRetries: 3, baseDelayMs: 500, maxDelayMs: 30000 };
+
+    expect(getRetryDelayMs(error, 2, config, () => 1)).toBe(2000);
+    expect(getRetryDelayMs(error, 10, config, () => 1)).toBe(30000);
+    expect(getRetryDelayMs(error, 10, config, () => 0)).toBe(0);
+  });
+
+  it("waits at least as long as Retry-After in seconds", async () => {
+    script = [status(429, { "Retry-After": "2" }), price("2150.00")];
+
+    const { value } = await settle(getPrice("XAU/USD"));
+
+    expect(value?.data.price).toBe("2150.00");
+    expect(requestedAt).toEqual([0, 2000]);
+  });
+
+  it("waits until a Retry-After date", async () => {
+    const retryAt = new Date(START + 5000).toUTCString();
+    script = [status(503, { "Retry-After": retryAt }), price("2150.00")];
+
+    await settle(getPrice("XAU/USD"));
+
+    expect(requestedAt).toEqual([0, 5000]);
+  });
+
+  it("gives up when Retry-After is longer than the maximum delay", async () => {
+    script = [status(503, { "Retry-After": "60" }), price("2150.00")];
+
+    const { error } = await settle(getPrice("XAU/USD"));
+
+    expect(error).toBeInstanceOf(UpstreamError);
+    expect(requestedAt).toEqual([0]);
+  });
+
+  it("does not retry client errors or plan restrictions", async () => {
+    for (const code of [400, 401, 403, 404]) {
+      script = [status(code), price("2150.00")];
+      requestedAt = [];
+
+      const { error } = await settle(getPrice("XAU/USD"));
+
+      expect(error).toBeDefined();
+      expect(requestedAt).toEqual([0]);
+    }
+
+    // Twelve Data reports plan restrictions in the body of a 200 response
+    script = [
+      () => Response.json({ code: 403, message: "/price is not available with your plan", status: "error" }),
+      price("2150.00")
+    ];
+    requestedAt = [];
+    expect((await settle(getPrice("XAU/USD"))).error).toBeInstanceOf(PlanRestrictedError);
+    expect(requestedAt).toEqual([0]);
+  });
+
+  it("stops after the maximum number of retries", async () => {
+    script = [status(503)];
+    const { error } = await settle(getPrice("XAU/USD"));
+    expect(error).toBeInstanceOf(UpstreamError);
+    expect(requestedAt).toHaveLength(4);
+
+    process.env.TWELVEDATA_MAX_RETRIES = "1";
+    requestedAt = [];
+    await settle(getPrice("XAU/USD"));
+    expect(requestedAt).toHaveLength(2);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { PlanRestrictedError, toErrorPayload } from "../src/services/errors.js";
+import { formatSnapshotAsMarkdown } from "../src/services/twelvedata.js";
+import type { SnapshotRow, TechnicalSnapshot } from "../src/types.js";
+
+const FOOTER = "*† computed locally from time series candles*";
+
+function snapshot(indicators: SnapshotRow[], trend: SnapshotRow[] = []): TechnicalSnapshot {
+  return {
+    symbol: "XAU/USD",
+    interval: "1day",
+    datetime: "2024-03-06",
+    close: 2150,
+    previous_close: 2140,
+    indicators,
+    trend
+  };
+}
+
+const RSI: SnapshotRow = {
+  name: "RSI(14)",
+  indicator: "rsi",
+  source: "api",
+  latest: { rsi: 61.2 },
+  previous: { rsi: 58.4 },
+  signal: "Neutral"
+};
+
+const PLAN_ERROR: SnapshotRow = {
+  name: "ADX(14)",
+  indicator: "adx",
+  error: toErrorPayload(new PlanRestrictedError("/adx is not available with your plan"))
+};
+
+describe("technical snapshot markdown", () => {
+  it("leaves out the footer when every row comes from the API", () => {
+    const markdown = formatSnapshotAsMarkdown(snapshot([RSI, PLAN_ERROR]));
+
+    expect(markdown).toContain("| RSI(14) | 61.20000 | 58.40000 | Neutral |");
+    expect(markdown).toContain("| ADX(14) | - | - | Error: /adx is not available with your plan |");
+    expect(markdown).not.toContain("†");
+  });
+
+  it("marks locally computed rows, including failed ones, and explains the marker", () => {
+    const markdown = formatSnapshotAsMarkdown(snapshot(
+      [RSI, { ...PLAN_ERROR, source: "local" }],
+      [{ name: "SMA(50)", indicator: "sma", source: "local", signal: "Not enough history" }]
+    ));
+
+    expect(markdown).toContain("| RSI(14) | 61.20000 |");
+    expect(markdown).toContain("| ADX(14) † | - | - | Error:");
+    expect(markdown).toContain("| SMA(50) † | - | - | Not enough history |");
+    expect(markdown.endsWith(`\n\n${FOOTER}`)).toBe(true);
+  });
+});
@@ -0,0 +1,27 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { readJsonFile, writeJsonFile } from "../src/services/store.js";
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "twelvedata-store-"));
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("writeJsonFile", () => {
+  it("survives concurrent writes to the same file", async () => {
+    const file = path.join(dir, "state.json");
+    const writes = Array.from({ length: 20 }, (_, index) => writeJsonFile(file, { index }));
+
+    await expect(Promise.all(writes)).resolves.toBeDefined();
+    const { index } = await readJsonFile(file, { index: -1 });
+    expect(index).toBeGreaterThanOrEqual(0);
+    expect(await readdir(dir)).toEqual(["state.json"]);
+  });
+});
@@ -0,0 +1,179 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import type { AddressInfo } from "node:net";
+import { WebSocketServer, type WebSocket } from "ws";
+import {
+  getLivePrice,
+  getSessionSymbols,
+  getStreamStatus,
+  isStreaming,
+  onPriceUpdate,
+  releasePrices,
+  subscribePrices,
+  unsubscribePrices
+} from "../src/services/stream.js";
+import type { LivePrice } from "../src/types.js";
+
+beforeAll(() => {
+  process.env.TWELVEDATA_MODE = "mock";
+});
+
+afterEach(() => {
+  releasePrices("a");
+  releasePrices("b");
+});
+
+describe("price stream subscriptions", () => {
+  it("keeps a symbol streaming while another session still has it", () => {
+    subscribePrices(["XAU/USD", "EUR/USD"], "a");
+    subscribePrices(["XAU/USD"], "b");
+
+    unsubscribePrices(["XAU/USD"], "a");
+    expect(isStreaming("XAU/USD")).toBe(true);
+    expect(getSessionSymbols("a")).toEqual(["EUR/USD"]);
+    expect(getSessionSymbols("b")).toEqual(["XAU/USD"]);
+  });
+
+  it("releases only the ending session's symbols", () => {
+    subscribePrices(["XAU/USD", "EUR/USD"], "a");
+    subscribePrices(["XAU/USD", "BTC/USD"], "b");
+
+    releasePrices("a");
+    expect(getStreamStatus().symbols.sort()).toEqual(["BTC/USD", "XAU/USD"]);
+    expect(getStreamStatus().state).toBe("open");
+
+    releasePrices("b");
+    expect(getStreamStatus().symbols).toEqual([]);
+    expect(getStreamStatus().state).toBe("idle");
+  });
+
+  it("ignores symbols a session never subscribed to", () => {
+    subscribePrices(["XAU/USD"], "a");
+
+    unsubscribePrices(["XAU/USD"], "b");
+    expect(isStreaming("XAU/USD")).toBe(true);
+  });
+});
+
+/**
+ * A local WebSocket server standing in for Twelve Data's, recording each
+ * connection's URL and the messages it received
+ */
+describe("price stream connection", () => {
+  interface Connection {
+    socket: WebSocket;
+    url: URL;
+    messages: Record<string, unknown>[];
+  }
+
+  let server: WebSocketServer;
+  const connections: Connection[] = [];
+
+  function latest(): Connection {
+    return connections[connections.length - 1];
+  }
+
+  // Wait for the client's subscribe message on the newest connection
+  async function subscribed(count = 1): Promise<Connection> {
+    await vi.waitFor(() => {
+      expect(connections).toHaveLength(count);
+      expect(latest().messages.some(message => message.action === "subscribe")).toBe(true);
+    }, { timeout: 3000 });
+    return latest();
+  }
+
+  function serverSends(message: Record<string, unknown>): void {
+    latest().socket.send(JSON.stringify(message));
+  }
+
+  beforeAll(async () => {
+    server = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+    await new Promise(resolve => server.once("listening", resolve));
+    server.on("connection", (socket, request) => {
+      const connection: Connection = { socket, url: new URL(request.url ?? "/", "ws://127.0.0.1"), messages: [] };
+      socket.on("message", data => connection.messages.push(JSON.parse(data.toString())));
+      connections.push(connection);
+    });
+    Object.assign(process.env, {
+      TWELVEDATA_MODE: "live",
+      TWELVEDATA_API_KEY: "key-server",
+      TWELVEDATA_WS_URL: `ws://127.0.0.1:${(server.address() as AddressInfo).port}/v1/quotes/price`
+    });
+  });
+
+  afterEach(() => {
+    connections.length = 0;
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    process.env.TWELVEDATA_MODE = "mock";
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("connects with the API key and subscribes to the symbols", async () => {
+    subscribePrices(["XAU/USD", "EUR/USD"], "a");
+    const connection = await subscribed();
+
+    expect(connection.url.pathname).toBe("/v1/quotes/price");
+    expect(connection.url.searchParams.get("apikey")).toBe("key-server");
+    expect(connection.messages).toEqual([{ action: "subscribe", params: { symbols: "XAU/USD,EUR/USD" } }]);
+    expect(getStreamStatus().state).toBe("open");
+
+    subscribePrices(["BTC/USD"], "b");
+    await vi.waitFor(() => expect(connection.messages).toHaveLength(2));
+    expect(connection.messages[1]).toEqual({ action: "subscribe", params: { symbols: "BTC/USD" } });
+  });
+
+  it("keeps the latest price of each subscribed symbol", async () => {
+    const ticks: LivePrice[] = [];
+    const stop = onPriceUpdate(price => ticks.push(price));
+    try {
+      subscribePrices(["XAU/USD"], "a");
+      await subscribed();
+      serverSends({ event: "price", symbol: "BTC/USD", price: 65000, timestamp: 1709737200 });
+      serverSends({ event: "price", symbol: "XAU/USD", price: 2150.5, timestamp: 1709737200, currency: "USD" });
+
+      await vi.waitFor(() => expect(getLivePrice("XAU/USD")).toBeDefined());
+    } finally {
+      stop();
+    }
+
+    expect(getLivePrice("XAU/USD")).toMatchObject({
+      symbol: "XAU/USD",
+      price: 2150.5,
+      timestamp: "2024-03-06T15:00:00.000Z",
+      currency: "USD"
+    });
+    expect(getLivePrice("BTC/USD")).toBeUndefined();
+    expect(ticks.map(tick => tick.symbol)).toEqual(["XAU/USD"]);
+  });
+
+  it("drops symbols the server fails to subscribe", async () => {
+    subscribePrices(["XAU/USD", "NOPE/XYZ"], "a");
+    await subscribed();
+    serverSends({
+      event: "subscribe-status",
+      status: "error",
+      success: [{ symbol: "XAU/USD", exchange: "FOREX" }],
+      fails: [{ symbol: "NOPE/XYZ" }]
+    });
+
+    await vi.waitFor(() => expect(getStreamStatus().failed).toEqual(["NOPE/XYZ"]));
+    expect(getStreamStatus().symbols).toEqual(["XAU/USD"]);
+    expect(getSessionSymbols("a")).toEqual(["XAU/USD"]);
+  });
+
+  it("reconnects and subscribes again after the server drops the connection", async () => {
+    // The shortest backoff: half the base delay
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    subscribePrices(["XAU/USD", "EUR/USD"], "a");
+    (await subscribed()).socket.terminate();
+
+    await vi.waitFor(() => expect(getStreamStatus().state).toBe("reconnecting"));
+    const reconnected = await subscribed(2);
+
+    expect(reconnected.messages).toEqual([{ action: "subscribe", params: { symbols: "XAU/USD,EUR/USD" } }]);
+    await vi.waitFor(() => expect(getStreamStatus().state).toBe("open"));
+    expect(getStreamStatus()).toMatchObject({ reconnects: 1, last_error: "Connection closed (code 1006)" });
+  });
+});
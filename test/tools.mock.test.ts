@@ -0,0 +1,178 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { rm } from "node:fs/promises";
+import { connect, startServer, type TestServer } from "./mcpServer.js";
+
+/**
+ * One pass through each tool family on mock data, which is deterministic
+ * for a fixed TWELVEDATA_MOCK_NOW. Values are checked against each other
+ * rather than pinned, so the mock generator can change.
+ */
+let server: TestServer;
+let client: Client;
+
+async function call(name: string, args: Record<string, unknown> = {}) {
+  return client.callTool({ name, arguments: { ...args, response_format: "json" } });
+}
+
+async function data<T = Record<string, unknown>>(name: string, args: Record<string, unknown> = {}): Promise<T> {
+  const result = await call(name, args);
+  expect(result.isError, JSON.stringify(result.content)).toBeFalsy();
+  return result.structuredContent as T;
+}
+
+beforeAll(async () => {
+  server = await startServer({
+    TWELVEDATA_MODE: "mock",
+    TWELVEDATA_MOCK_NOW: "2024-03-06T15:00:00Z"
+  });
+  ({ client } = await connect(server));
+});
+
+afterAll(async () => {
+  await client.close();
+  await rm(server.dataDir, { recursive: true, force: true });
+});
+
+describe("tools in mock mode", () => {
+  it("prices and quotes", async () => {
+    const price = await data<{ price: string }>("twelvedata_get_price", { symbol: "XAU/USD" });
+    const quote = await data<{ close: string }>("twelvedata_get_quote", { symbol: "XAU/USD" });
+    expect(Number(quote.close)).toBeCloseTo(Number(price.price), 6);
+
+    const prices = await data<{ results: { symbol: string }[]; failed: number }>(
+      "twelvedata_get_prices",
+      { symbols: ["XAU/USD", "BTC/USD"] }
+    );
+    expect(prices.results.map(item => item.symbol)).toEqual(["XAU/USD", "BTC/USD"]);
+    expect(prices.failed).toBe(0);
+  });
+
+  it("time series", async () => {
+    const series = await data<{ values: { datetime: string }[] }>(
+      "twelvedata_get_time_series",
+      { symbol: "XAU/USD", outputsize: 3 }
+    );
+    expect(series.values.map(bar => bar.datetime)).toEqual([
+      "2024-03-06", "2024-03-05", "2024-03-04"
+    ]);
+
+    const twoDay = await data<{ meta: { resampled?: unknown } }>(
+      "twelvedata_get_time_series",
+      { symbol: "XAU/USD", interval: "2day", outputsize: 2 }
+    );
+    expect(twoDay.meta.resampled).toBeDefined();
+  });
+
+  it("analysis", async () => {
+    const analysis = await data<{ bars: number; end: string }>(
+      "twelvedata_analyze_series",
+      { symbol: "XAU/USD", outputsize: 50 }
+    );
+    expect(analysis.bars).toBe(50);
+    expect(analysis.end).toBe("2024-03-06");
+
+    const correlation = await data<{ pearson: number[][] }>("twelvedata_correlation_matrix", {
+      symbols: ["XAU/USD", "XAG/USD"],
+      outputsize: 30,
+      method: "pearson"
+    });
+    expect(correlation.pearson[0][0]).toBe(1);
+    expect(correlation.pearson[0][1]).toBe(correlation.pearson[1][0]);
+
+    const portfolio = await data<{ totals: { market_value: number }; fx_rates: Record<string, number> }>(
+      "twelvedata_value_portfolio",
+      { positions: [{ symbol: "XAU", quantity: 2 }] }
+    );
+    expect(portfolio.totals.market_value).toBeCloseTo(2 * portfolio.fx_rates["XAU/USD"], 6);
+  });
+
+  it("currency conversion", async () => {
+    const { rate } = await data<{ rate: number }>("twelvedata_get_exchange_rate", { symbol: "EUR/USD" });
+    const conversion = await data<{ amount: number }>(
+      "twelvedata_convert_currency",
+      { from: "EUR", to: "USD", amount: 100 }
+    );
+    expect(conversion.amount).toBeCloseTo(100 * rate, 6);
+  });
+
+  it("reference data", async () => {
+    const pairs = await data<{ data: unknown[]; page: { has_more: boolean } }>(
+      "twelvedata_list_forex_pairs",
+      { limit: 2 }
+    );
+    expect(pairs.data).toHaveLength(2);
+    expect(pairs.page.has_more).toBe(true);
+
+    const search = await data<{ data: { symbol: string }[] }>("twelvedata_symbol_search", { query: "gold" });
+    expect(search.data.map(match => match.symbol)).toContain("XAU/USD");
+  });
+
+  it("technical indicators", async () => {
+    const rsi = await data<{ values: unknown[]; meta: { indicator: { time_period: number } } }>(
+      "twelvedata_technical_indicator",
+      { symbol: "XAU/USD", indicator: "rsi", outputsize: 2 }
+    );
+    expect(rsi.values).toHaveLength(2);
+    expect(rsi.meta.indicator.time_period).toBe(14);
+
+    const snapshot = await data<{ indicators: { indicator: string }[] }>(
+      "twelvedata_technical_snapshot",
+      { symbol: "XAU/USD" }
+    );
+    expect(snapshot.indicators.map(item => item.indicator)).toEqual([
+      "rsi", "macd", "bbands", "atr"
+    ]);
+  });
+
+  it("usage", async () => {
+    const usage = await data<{ budget: string; minute: { used: number } }>("twelvedata_get_usage");
+    expect(usage.budget).toBe("default");
+    expect(usage.minute.used).toBe(0);
+  });
+
+  it("price streaming", async () => {
+    const subscribed = await data<{ status: { symbols: string[] } }>(
+      "twelvedata_stream_subscribe",
+      { symbols: ["XAU/USD"] }
+    );
+    expect(subscribed.status.symbols).toEqual(["XAU/USD"]);
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+    const live = await data<{ prices: { symbol: string }[] }>("twelvedata_stream_prices");
+    expect(live.prices.map(price => price.symbol)).toEqual(["XAU/USD"]);
+
+    const unsubscribed = await data<{ status: { state: string } }>("twelvedata_stream_unsubscribe");
+    expect(unsubscribed.status.state).toBe("idle");
+  });
+
+  it("alerts", async () => {
+    const alert = await data<{ id: string }>("twelvedata_create_alert", {
+      symbol: "XAU/USD",
+      condition: { type: "price_above", price: 5000 }
+    });
+    const listed = await data<{ alerts: { id: string }[] }>("twelvedata_list_alerts");
+    expect(listed.alerts.map(item => item.id)).toEqual([alert.id]);
+
+    await data("twelvedata_delete_alert", { id: alert.id });
+    expect(await data("twelvedata_list_alerts")).toMatchObject({ alerts: [] });
+  });
+
+  it("watchlists", async () => {
+    const saved = await data("twelvedata_save_watchlist", { name: "metals", symbols: ["XAU/USD", "silver"] });
+    expect(saved.symbols).toEqual(["XAU/USD", "XAG/USD"]);
+
+    const quotes = await data<{ results: { symbol: string }[] }>(
+      "twelvedata_watchlist_quotes",
+      { name: "metals", sort: "symbol" }
+    );
+    expect(quotes.results.map(row => row.symbol)).toEqual(["XAG/USD", "XAU/USD"]);
+
+    await data("twelvedata_save_watchlist", { name: "metals", symbols: ["XAU/USD", "XAG/USD"], mode: "remove" });
+    expect(await data("twelvedata_watchlist_quotes", { name: "metals" })).toEqual({ name: "metals", quotes: [] });
+
+    await data("twelvedata_delete_watchlist", { name: "metals" });
+    const result = await call("twelvedata_watchlist_quotes", { name: "metals" });
+    expect(result.isError).toBe(true);
+  });
+});
@@ -0,0 +1,113 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { rm } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { connect, startServer, type TestServer } from "./mcpServer.js";
+
+/**
+ * Tools answered from the fixtures in test/fixtures/replay, in the format
+ * TWELVEDATA_MODE=record writes. To add one, make the call with
+ * TWELVEDATA_MODE=record and TWELVEDATA_FIXTURES_DIR pointing there. The
+ * cache is off, so every call reads its fixture whatever ran before it.
+ */
+const FIXTURES_DIR = fileURLToPath(new URL("./fixtures/replay/", import.meta.url));
+
+let server: TestServer;
+let client: Client;
+
+async function call(name: string, args: Record<string, unknown> = {}) {
+  return client.callTool({ name, arguments: { ...args, response_format: "json" } });
+}
+
+async function data<T = Record<string, unknown>>(name: string, args: Record<string, unknown> = {}): Promise<T> {
+  const result = await call(name, args);
+  expect(result.isError, JSON.stringify(result.content)).toBeFalsy();
+  return result.structuredContent as T;
+}
+
+beforeAll(async () => {
+  server = await startServer({
+    TWELVEDATA_MODE: "replay",
+    TWELVEDATA_FIXTURES_DIR: FIXTURES_DIR,
+    TWELVEDATA_CACHE_ENABLED: "false"
+  });
+  ({ client } = await connect(server));
+});
+
+afterAll(async () => {
+  await client.close();
+  await rm(server.dataDir, { recursive: true, force: true });
+});
+
+describe("tools in replay mode", () => {
+  it("prices and quotes", async () => {
+    expect(await data("twelvedata_get_price", { symbol: "XAU/USD" })).toMatchObject({
+      symbol: "XAU/USD",
+      price: "2146.81000"
+    });
+
+    const prices = await data<{ results: { symbol: string; price: string }[] }>(
+      "twelvedata_get_prices",
+      { symbols: ["XAU/USD", "XAG/USD"] }
+    );
+    expect(prices.results.map(({ symbol, price }) => [symbol, price])).toEqual([
+      ["XAU/USD", "2146.81000"],
+      ["XAG/USD", "24.07150"]
+    ]);
+
+    expect(await data("twelvedata_get_quote", { symbol: "EUR/USD" })).toMatchObject({
+      symbol: "EUR/USD",
+      close: "1.08937",
+      percent_change: "0.33433"
+    });
+  });
+
+  it("time series", async () => {
+    const series = await data<{ values: { datetime: string; close: string }[] }>(
+      "twelvedata_get_time_series",
+      { symbol: "XAU/USD", outputsize: 5 }
+    );
+    expect(series.values.map(bar => bar.datetime)).toEqual([
+      "2024-03-06", "2024-03-05", "2024-03-04", "2024-03-01", "2024-02-29"
+    ]);
+    expect(series.values[0].close).toBe("2146.81");
+  });
+
+  it("currency conversion", async () => {
+    expect(await data("twelvedata_get_exchange_rate", { symbol: "EUR/USD" })).toMatchObject({ rate: 1.08937 });
+    expect(await data("twelvedata_convert_currency", { from: "EUR", to: "USD", amount: 100 })).toMatchObject({
+      symbol: "EUR/USD",
+      amount: 108.937
+    });
+  });
+
+  it("reference data", async () => {
+    const search = await data<{ data: { symbol: string }[] }>("twelvedata_symbol_search", { query: "gold", outputsize: 3 });
+    expect(search.data.map(match => match.symbol)).toEqual(["XAU/USD", "GLD", "GOLD"]);
+
+    const commodities = await data<{ data: { symbol: string }[] }>("twelvedata_list_commodities", { limit: 3 });
+    expect(commodities.data).toHaveLength(3);
+  });
+
+  it("technical indicators from the API", async () => {
+    const rsi = await data<{ values: { datetime: string; rsi: string }[] }>("twelvedata_technical_indicator", {
+      symbol: "XAU/USD",
+      indicator: "rsi",
+      outputsize: 3,
+      source: "api"
+    });
+    expect(rsi.values[0]).toEqual({ datetime: "2024-03-06", rsi: "81.27460" });
+  });
+
+  it("reports a recorded API error", async () => {
+    const result = await call("twelvedata_get_price", { symbol: "NOPE/XYZ" });
+    expect(result.isError).toBe(true);
+    expect(JSON.stringify(result.content)).toContain("not found: NOPE/XYZ");
+  });
+
+  it("fails a request that was never recorded", async () => {
+    const result = await call("twelvedata_get_price", { symbol: "XPT/USD" });
+    expect(result.isError).toBe(true);
+    expect(JSON.stringify(result.content)).toContain("No recorded response for /price?symbol=XPT%2FUSD");
+  });
+});